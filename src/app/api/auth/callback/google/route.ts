@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTokensFromCode, getUserProfile } from '@/lib/google';
 import { supabaseAdmin } from '@/lib/supabase';
-import { createToken, setTokenCookie } from '@/lib/auth';
+import { createToken, getSafeReturnPath, setTokenCookie } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   // Get the authorization code from URL
@@ -113,8 +113,10 @@ export async function GET(request: NextRequest) {
     // Create JWT for the user session
     const token = await createToken({ sub: user.id });
     
-    // Create response with redirect to dashboard
-    const response = NextResponse.redirect(new URL('/dashboard', request.url));
+    // Return to where the flow started (e.g. after granting write access), or the dashboard
+    // Checked again here: `state` comes back through the browser and can be forged
+    const redirectPath = getSafeReturnPath(searchParams.get('state'), request.url) ?? '/dashboard';
+    const response = NextResponse.redirect(new URL(redirectPath, request.url));
     
     // Set the session cookie
     return setTokenCookie(response, token);
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthUrl } from '@/lib/google';
+import { getSafeReturnPath } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
-    // Generate Google OAuth URL with appropriate scopes
-    const authUrl = getAuthUrl();
+    const searchParams = request.nextUrl.searchParams;
+    // Only same-origin paths, so the callback can't be used as an open redirect
+    const returnTo = getSafeReturnPath(searchParams.get('returnTo'), request.url);
+    
+    // Generate Google OAuth URL with appropriate scopes (write access is opt-in)
+    const authUrl = getAuthUrl({
+      includeWriteScope: searchParams.get('write') === '1',
+      state: returnTo ?? undefined,
+    });
     
     // Return the URL as JSON so frontend can redirect
     return NextResponse.json({ url: authUrl });
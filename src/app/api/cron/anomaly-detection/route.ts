@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAnomalyDetection } from '@/lib/alerts';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+// Checks every property one at a time
+export const maxDuration = 300;
+
+// Daily job: checks each property's latest final days for drops and spikes and sends alerts
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const results = await runAnomalyDetection();
+    
+    return NextResponse.json({
+      success: true,
+      results
+    });
+  } catch (error: unknown) {
+    console.error('Error running anomaly detection:', error);
+    return NextResponse.json(
+      { error: 'Failed to run anomaly detection', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteExpiredCacheEntries } from '@/lib/gsc-cache';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+// Daily job: removes expired GSC responses from reports_data
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const deleted = await deleteExpiredCacheEntries();
+    console.log(`Deleted ${deleted} expired cache entries`);
+    
+    return NextResponse.json({
+      success: true,
+      deleted
+    });
+  } catch (error: unknown) {
+    console.error('Error cleaning up cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clean up cache', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
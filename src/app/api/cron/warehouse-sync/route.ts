@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncDueProperties } from '@/lib/warehouse';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+// Backfills can take a while
+export const maxDuration = 300;
+// Leaves time to save progress and respond before the function is stopped
+const SYNC_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
+
+// Daily job: continues backfills and catches every property up to the latest final day
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const results = await syncDueProperties({ timeBudgetMs: SYNC_TIME_BUDGET_MS });
+    
+    return NextResponse.json({
+      success: true,
+      results
+    });
+  } catch (error: unknown) {
+    console.error('Error running warehouse sync:', error);
+    return NextResponse.json(
+      { error: 'Failed to run warehouse sync', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
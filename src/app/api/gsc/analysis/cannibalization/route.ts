@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { DEFAULT_MAX_ROWS, querySearchAnalytics } from '@/lib/google';
+import { validateDimensionFilters } from '@/lib/filters';
+import { isCalendarDate } from '@/lib/date-ranges';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { DEFAULT_CANNIBALIZATION_OPTIONS, detectCannibalization } from '@/lib/analysis/cannibalization';
+import { DimensionFilter, SearchType } from '@/lib/types';
+
+interface CannibalizationRequest {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  filters?: DimensionFilter[];
+  searchType?: SearchType;
+  minImpressions?: number;
+  minClicks?: number;
+  minImpressionShare?: number;
+}
+
+// Endpoint to find queries that several of the site's pages compete for
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const requestData: CannibalizationRequest = await request.json();
+    const {
+      siteUrl,
+      startDate,
+      endDate,
+      filters = [],
+      searchType = DEFAULT_SEARCH_TYPE,
+      minImpressions = DEFAULT_CANNIBALIZATION_OPTIONS.minImpressions,
+      minClicks = DEFAULT_CANNIBALIZATION_OPTIONS.minClicks,
+      minImpressionShare = DEFAULT_CANNIBALIZATION_OPTIONS.minImpressionShare,
+    } = requestData;
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Start and end dates are required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    if (![minImpressions, minClicks].every(value => Number.isFinite(value) && value >= 0)) {
+      return NextResponse.json(
+        { error: 'minImpressions and minClicks must be zero or more' },
+        { status: 400 }
+      );
+    }
+    
+    if (!Number.isFinite(minImpressionShare) || minImpressionShare < 0 || minImpressionShare > 1) {
+      return NextResponse.json(
+        { error: 'minImpressionShare must be between 0 and 1' },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    // The analysis needs the query dimension, which Discover and Google News don't have
+    const conflicts = getSearchTypeConflicts(searchType, ['query', 'page'], [], filters.map(f => f.dimension));
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    // Query totals come from query-only rows; summing query+page rows would
+    // count a search once for each page it showed
+    const [rows, queryRows] = await Promise.all([
+      querySearchAnalytics(user.id, formattedSiteUrl, startDate, endDate, ['query', 'page'], filters, searchType),
+      querySearchAnalytics(user.id, formattedSiteUrl, startDate, endDate, ['query'], filters, searchType),
+    ]);
+    
+    const findings = detectCannibalization(rows, queryRows, { minImpressions, minClicks, minImpressionShare });
+    
+    return NextResponse.json({
+      success: true,
+      findings,
+      // The row cap was hit, so low-traffic queries may be missing
+      truncated: rows.length >= DEFAULT_MAX_ROWS || queryRows.length >= DEFAULT_MAX_ROWS,
+      request: {
+        siteUrl: formattedSiteUrl,
+        startDate,
+        endDate,
+        filters,
+        searchType,
+        minImpressions,
+        minClicks,
+        minImpressionShare
+      }
+    });
+  } catch (error: unknown) {
+    console.error('Error detecting keyword cannibalization:', error);
+    
+    return gscErrorResponse(error, 'Failed to detect keyword cannibalization');
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { DEFAULT_MAX_ROWS, iterateSearchAnalytics, querySearchAnalytics } from '@/lib/google';
+import { getRecentApiRange } from '@/lib/date-ranges';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import {
+  addPageDateRows,
+  attachDecayQueries,
+  DecayOptions,
+  DecayReport,
+  DEFAULT_DECAY_OPTIONS,
+  findDecayingPages,
+  getDecayPeriods,
+  getDecayWindows,
+  MAX_DECAY_MONTHS,
+  MIN_DECAY_MONTHS,
+} from '@/lib/analysis/decay';
+import { SearchType } from '@/lib/types';
+
+// Up to 16 months of daily page rows take many API pages
+export const maxDuration = 300;
+
+interface DecayRequest {
+  siteUrl: string;
+  searchType?: SearchType;
+  options?: Partial<DecayOptions>;
+}
+
+// Daily page rows add up fast over 16 months, so allow more than a normal report
+const MAX_PAGE_DATE_ROWS = 1000000;
+// Fewer windows than this can't show a steady decline
+const MIN_WINDOWS = 4;
+
+/**
+ * Checks the analysis options, returning an error message or null
+ */
+function validateDecayOptions(options: DecayOptions): string | null {
+  if (!Number.isInteger(options.months) || options.months < MIN_DECAY_MONTHS || options.months > MAX_DECAY_MONTHS) {
+    return `months must be a whole number between ${MIN_DECAY_MONTHS} and ${MAX_DECAY_MONTHS}`;
+  }
+  if (!Number.isInteger(options.windowDays) || options.windowDays < 7 || options.windowDays > 91) {
+    return 'windowDays must be a whole number between 7 and 91';
+  }
+  if (typeof options.minClicks !== 'number' || options.minClicks < 0) {
+    return 'minClicks must be zero or more';
+  }
+  if (typeof options.minDecline !== 'number' || options.minDecline <= 0 || options.minDecline >= 1) {
+    return 'minDecline must be between 0 and 1';
+  }
+  if (typeof options.minTrendStrength !== 'number' || options.minTrendStrength < 0 || options.minTrendStrength > 1) {
+    return 'minTrendStrength must be between 0 and 1';
+  }
+  if (!Number.isInteger(options.topQueries) || options.topQueries < 1 || options.topQueries > 50) {
+    return 'topQueries must be a whole number between 1 and 50';
+  }
+  return null;
+}
+
+// Endpoint to find pages whose clicks have been falling steadily
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const requestData: DecayRequest = await request.json();
+    const { siteUrl, searchType = DEFAULT_SEARCH_TYPE } = requestData;
+    const options: DecayOptions = { ...DEFAULT_DECAY_OPTIONS, ...requestData.options };
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const optionsError = validateDecayOptions(options);
+    if (optionsError) {
+      return NextResponse.json(
+        { error: optionsError },
+        { status: 400 }
+      );
+    }
+    
+    const searchTypeOption = getSearchTypeOption(searchType);
+    if (!searchTypeOption) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const conflicts = getSearchTypeConflicts(searchType, ['page', 'date'], [], []);
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    // Always runs up to the latest final data, so re-running a saved report brings it up to date
+    const { endDate } = getRecentApiRange(1);
+    const windows = getDecayWindows(endDate, options.months, options.windowDays);
+    if (windows.length < MIN_WINDOWS) {
+      return NextResponse.json(
+        { error: `The analysis needs at least ${MIN_WINDOWS} windows; use more months or shorter windows` },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    const startDate = windows[0].startDate;
+    
+    const clicksByPage = new Map<string, number[]>();
+    let pageDateRows = 0;
+    for await (const rows of iterateSearchAnalytics(
+      user.id,
+      formattedSiteUrl,
+      startDate,
+      endDate,
+      ['page', 'date'],
+      [],
+      searchType,
+      { maxRows: MAX_PAGE_DATE_ROWS }
+    )) {
+      addPageDateRows(clicksByPage, rows, windows);
+      pageDateRows += rows.length;
+    }
+    
+    const decayingPages = findDecayingPages(clicksByPage, windows, options);
+    
+    const { earlier, recent } = getDecayPeriods(windows);
+    const earlierRange = { startDate: earlier[0].startDate, endDate: earlier[earlier.length - 1].endDate };
+    const recentRange = { startDate: recent[0].startDate, endDate: recent[recent.length - 1].endDate };
+    
+    // Discover and Google News have no queries, so pages come without them there
+    const hasQueries = !searchTypeOption.unsupportedDimensions.includes('query');
+    
+    const [earlierRows, recentRows] = hasQueries && decayingPages.length > 0
+      ? await Promise.all([
+          querySearchAnalytics(user.id, formattedSiteUrl, earlierRange.startDate, earlierRange.endDate, ['query', 'page'], [], searchType),
+          querySearchAnalytics(user.id, formattedSiteUrl, recentRange.startDate, recentRange.endDate, ['query', 'page'], [], searchType),
+        ])
+      : [[], []];
+    
+    const report: DecayReport = {
+      type: 'decay',
+      success: true,
+      request: {
+        siteUrl: formattedSiteUrl,
+        timeRange: { startDate, endDate },
+        searchType,
+        options
+      },
+      windows,
+      earlierRange,
+      recentRange,
+      pagesAnalyzed: clicksByPage.size,
+      hasQueries,
+      truncated: pageDateRows >= MAX_PAGE_DATE_ROWS
+        || earlierRows.length >= DEFAULT_MAX_ROWS
+        || recentRows.length >= DEFAULT_MAX_ROWS,
+      pages: attachDecayQueries(decayingPages, earlierRows, recentRows, windows, options)
+    };
+    
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    console.error('Error running content decay analysis:', error);
+    
+    return gscErrorResponse(error, 'Failed to run content decay analysis');
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { validateDimensionFilters } from '@/lib/filters';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { createForecast, getForecast, InsufficientHistoryError, listForecasts } from '@/lib/forecasts';
+import { DEFAULT_FORECAST_HORIZON, FORECAST_HORIZONS } from '@/lib/analysis/forecast';
+import { DimensionFilter, SearchType } from '@/lib/types';
+
+interface ForecastRequest {
+  siteUrl: string;
+  horizonDays?: number;
+  // Narrow the forecast to a segment (page, country, device) or a set of queries
+  filters?: DimensionFilter[];
+  searchType?: SearchType;
+  name?: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+// Endpoint to list a site's saved forecasts, or get one with the actual data since
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    const id = request.nextUrl.searchParams.get('id');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    if (!id) {
+      return NextResponse.json({
+        success: true,
+        forecasts: await listForecasts(user.id, formattedSiteUrl)
+      });
+    }
+    
+    const forecast = await getForecast(user.id, formattedSiteUrl, id);
+    if (!forecast) {
+      return NextResponse.json(
+        { error: 'Forecast not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, ...forecast });
+  } catch (error: unknown) {
+    console.error('Error loading forecasts:', error);
+    
+    return gscErrorResponse(error, 'Failed to load forecasts');
+  }
+}
+
+// Endpoint to forecast daily clicks and impressions and save the forecast
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const requestData: ForecastRequest = await request.json();
+    const {
+      siteUrl,
+      horizonDays = DEFAULT_FORECAST_HORIZON,
+      filters = [],
+      searchType = DEFAULT_SEARCH_TYPE,
+      name
+    } = requestData;
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!FORECAST_HORIZONS.includes(horizonDays)) {
+      return NextResponse.json(
+        { error: `horizonDays must be one of ${FORECAST_HORIZONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (name !== undefined && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+      return NextResponse.json(
+        { error: `Name must be text of at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const conflicts = getSearchTypeConflicts(searchType, ['date'], [], filters.map(f => f.dimension));
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    const forecast = await createForecast(
+      user.id,
+      formattedSiteUrl,
+      horizonDays,
+      filters,
+      searchType,
+      name?.trim() || null
+    );
+    
+    return NextResponse.json({ success: true, ...forecast });
+  } catch (error: unknown) {
+    console.error('Error creating forecast:', error);
+    
+    if (error instanceof InsufficientHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    return gscErrorResponse(error, 'Failed to create forecast');
+  }
+}
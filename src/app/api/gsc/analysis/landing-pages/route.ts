@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { DEFAULT_MAX_ROWS, querySearchAnalytics } from '@/lib/google';
+import { validateDimensionFilters } from '@/lib/filters';
+import { isCalendarDate } from '@/lib/date-ranges';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { buildLandingPages, DEFAULT_TOP_QUERIES } from '@/lib/analysis/landing-pages';
+import { DimensionFilter, SearchType } from '@/lib/types';
+
+interface LandingPagesRequest {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  filters?: DimensionFilter[];
+  searchType?: SearchType;
+  topQueries?: number;
+}
+
+const MAX_TOP_QUERIES = 100;
+
+// Endpoint to report every landing page of a site with its top queries
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const requestData: LandingPagesRequest = await request.json();
+    const {
+      siteUrl,
+      startDate,
+      endDate,
+      filters = [],
+      searchType = DEFAULT_SEARCH_TYPE,
+      topQueries = DEFAULT_TOP_QUERIES,
+    } = requestData;
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Start and end dates are required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    if (!Number.isInteger(topQueries) || topQueries < 1 || topQueries > MAX_TOP_QUERIES) {
+      return NextResponse.json(
+        { error: `topQueries must be a whole number between 1 and ${MAX_TOP_QUERIES}` },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    const searchTypeOption = getSearchTypeOption(searchType);
+    if (!searchTypeOption) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const conflicts = getSearchTypeConflicts(searchType, ['page'], [], filters.map(f => f.dimension));
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    // Discover and Google News have no queries, so pages come without top queries there
+    const hasQueries = !searchTypeOption.unsupportedDimensions.includes('query');
+    
+    const [pageRows, queryPageRows] = await Promise.all([
+      querySearchAnalytics(user.id, formattedSiteUrl, startDate, endDate, ['page'], filters, searchType),
+      hasQueries
+        ? querySearchAnalytics(user.id, formattedSiteUrl, startDate, endDate, ['query', 'page'], filters, searchType)
+        : Promise.resolve([]),
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      pages: buildLandingPages(pageRows, queryPageRows, topQueries),
+      hasQueries,
+      // The row cap was hit, so low-traffic pages or queries may be missing
+      truncated: pageRows.length >= DEFAULT_MAX_ROWS || queryPageRows.length >= DEFAULT_MAX_ROWS,
+      request: {
+        siteUrl: formattedSiteUrl,
+        startDate,
+        endDate,
+        filters,
+        searchType,
+        topQueries
+      }
+    });
+  } catch (error: unknown) {
+    console.error('Error building landing page report:', error);
+    
+    return gscErrorResponse(error, 'Failed to build landing page report');
+  }
+}
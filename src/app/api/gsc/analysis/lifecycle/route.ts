@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { supabaseAdmin } from '@/lib/supabase';
+import { resolveProperty } from '@/lib/properties';
+import { fetchReportRows } from '@/lib/warehouse';
+import { getComparisonRange, isCalendarDate } from '@/lib/date-ranges';
+import { mapRowKeys } from '@/lib/dimensions';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeOption } from '@/lib/search-types';
+import { aggregateQueryMetrics, QueryMetrics } from '@/lib/analysis/clustering';
+import { compareQueryLifecycle, DEFAULT_LIFECYCLE_OPTIONS, LifecycleOptions } from '@/lib/analysis/lifecycle';
+import { SearchType } from '@/lib/types';
+
+interface LifecycleRequest {
+  siteUrl: string;
+  // Compare a saved report with the saved report before it...
+  reportId?: string;
+  // ...or two periods (the previous one defaults to the period just before)
+  startDate?: string;
+  endDate?: string;
+  previousStartDate?: string;
+  previousEndDate?: string;
+  searchType?: SearchType;
+  options?: Partial<LifecycleOptions>;
+}
+
+// A saved query report of the site, as listed for comparison
+interface SavedQueryReport {
+  reportId: string;
+  startDate: string;
+  endDate: string;
+  searchType: SearchType;
+  createdAt: string;
+}
+
+// The parts of a saved query report this analysis reads
+interface SavedReportData {
+  data?: { keys?: string[]; status?: string; clicks?: number; impressions?: number; position?: number }[];
+  request: {
+    dimensions: string[];
+    timeRange: { startDate: string; endDate: string };
+    searchType?: SearchType;
+  };
+}
+
+// Saved reports looked through for the one before a report
+const MAX_SAVED_REPORTS = 50;
+
+/**
+ * Lists the saved reports of a site that have a query dimension, newest first
+ */
+async function listSavedQueryReports(userId: string, siteUrl: string): Promise<SavedQueryReport[]> {
+  const { data, error } = await supabaseAdmin
+    .from('reports_data')
+    .select('cache_key, created_at, request:data->request')
+    .eq('user_id', userId)
+    .like('cache_key', 'report\\_%')
+    .eq('data->request->>siteUrl', siteUrl)
+    // Decay and other typed reports have no query rows
+    .is('data->>type', null)
+    .order('created_at', { ascending: false })
+    .limit(MAX_SAVED_REPORTS);
+  
+  if (error) {
+    console.error('Error listing saved reports:', error);
+    throw new Error('Failed to list saved reports');
+  }
+  
+  const reports = (data || []) as unknown as { cache_key: string; created_at: string; request: SavedReportData['request'] | null }[];
+  return reports
+    .filter((report): report is typeof report & { request: SavedReportData['request'] } => !!report.request?.dimensions?.includes('query'))
+    .map(report => ({
+      reportId: report.cache_key.split('_')[1],
+      startDate: report.request.timeRange.startDate,
+      endDate: report.request.timeRange.endDate,
+      searchType: report.request.searchType ?? DEFAULT_SEARCH_TYPE,
+      createdAt: report.created_at,
+    }));
+}
+
+/**
+ * Sums a saved report's rows per query. Lost rows of comparison reports
+ * only have previous-period metrics, so they're left out.
+ */
+async function loadSavedQueryMetrics(userId: string, reportId: string): Promise<QueryMetrics[]> {
+  const { data, error } = await supabaseAdmin
+    .from('reports_data')
+    .select('data')
+    .eq('user_id', userId)
+    .like('cache_key', `report_${reportId}_%`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+  
+  if (error || !data) {
+    throw new Error('Saved report not found');
+  }
+  
+  const report = data.data as unknown as SavedReportData;
+  return aggregateQueryMetrics((report.data || [])
+    .filter(row => row.status !== 'lost')
+    .map(row => ({ ...mapRowKeys(row.keys, report.request.dimensions), clicks: row.clicks, impressions: row.impressions, position: row.position })));
+}
+
+// Endpoint to list the saved query reports of a site that can be compared
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    return NextResponse.json({
+      success: true,
+      reports: await listSavedQueryReports(user.id, formattedSiteUrl)
+    });
+  } catch (error: unknown) {
+    console.error('Error listing saved query reports:', error);
+    
+    return gscErrorResponse(error, 'Failed to list saved reports');
+  }
+}
+
+// Endpoint to sort a site's queries into new, lost, improved and declined
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const requestData: LifecycleRequest = await request.json();
+    const { siteUrl, reportId, startDate, endDate, previousStartDate, previousEndDate, searchType = DEFAULT_SEARCH_TYPE } = requestData;
+    const options: LifecycleOptions = { ...DEFAULT_LIFECYCLE_OPTIONS, ...requestData.options };
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const dates = [startDate, endDate, previousStartDate, previousEndDate].filter(date => date !== undefined);
+    if (!dates.every(isCalendarDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof options.minImpressions !== 'number' || options.minImpressions < 0) {
+      return NextResponse.json(
+        { error: 'minImpressions must be zero or more' },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof options.minPositionChange !== 'number' || options.minPositionChange <= 0) {
+      return NextResponse.json(
+        { error: 'minPositionChange must be more than zero' },
+        { status: 400 }
+      );
+    }
+    
+    const searchTypeOption = getSearchTypeOption(searchType);
+    if (!searchTypeOption || searchTypeOption.unsupportedDimensions.includes('query')) {
+      return NextResponse.json(
+        { error: `Search type ${searchType} has no query data` },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    if (reportId) {
+      const reports = await listSavedQueryReports(user.id, formattedSiteUrl);
+      const index = reports.findIndex(report => report.reportId === reportId);
+      if (index < 0) {
+        return NextResponse.json(
+          { error: 'Saved query report not found for this site' },
+          { status: 404 }
+        );
+      }
+      
+      const currentReport = reports[index];
+      // The report saved just before it, over the same search type
+      const previousReport = reports.slice(index + 1).find(report => report.searchType === currentReport.searchType);
+      if (!previousReport) {
+        return NextResponse.json(
+          { error: 'There is no earlier saved query report for this site to compare with' },
+          { status: 404 }
+        );
+      }
+      
+      const [current, previous] = await Promise.all([
+        loadSavedQueryMetrics(user.id, currentReport.reportId),
+        loadSavedQueryMetrics(user.id, previousReport.reportId),
+      ]);
+      
+      return NextResponse.json({
+        success: true,
+        lifecycle: compareQueryLifecycle(current, previous, options),
+        current: currentReport,
+        previous: previousReport,
+        options
+      });
+    }
+    
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'Either a saved report ID or start and end dates are required' },
+        { status: 400 }
+      );
+    }
+    
+    const previousRange = previousStartDate && previousEndDate
+      ? { startDate: previousStartDate, endDate: previousEndDate }
+      : getComparisonRange('previousPeriod', startDate, endDate);
+    
+    const [currentRows, previousRows] = await Promise.all([
+      fetchReportRows(user.id, formattedSiteUrl, startDate, endDate, ['query'], [], searchType),
+      fetchReportRows(user.id, formattedSiteUrl, previousRange.startDate, previousRange.endDate, ['query'], [], searchType),
+    ]);
+    
+    const toMetrics = (rows: typeof currentRows.rows) => aggregateQueryMetrics(rows.map(row => ({
+      query: row.keys?.[0] ?? undefined,
+      clicks: row.clicks ?? 0,
+      impressions: row.impressions ?? 0,
+      position: row.position ?? 0,
+    })));
+    
+    return NextResponse.json({
+      success: true,
+      lifecycle: compareQueryLifecycle(toMetrics(currentRows.rows), toMetrics(previousRows.rows), options),
+      current: { startDate, endDate, searchType },
+      previous: { ...previousRange, searchType },
+      options
+    });
+  } catch (error: unknown) {
+    console.error('Error running query lifecycle analysis:', error);
+    
+    return gscErrorResponse(error, 'Failed to run query lifecycle analysis');
+  }
+}
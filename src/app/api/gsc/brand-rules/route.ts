@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { supabaseAdmin } from '@/lib/supabase';
+import { resolveProperty } from '@/lib/properties';
+import { BrandRule, validateBrandRules } from '@/lib/brand';
+
+// Endpoint to get the brand rules of a property
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    const { data, error } = await supabaseAdmin
+      .from('brand_rules')
+      .select('rules')
+      .eq('user_id', user.id)
+      .eq('site_url', formattedSiteUrl)
+      .maybeSingle();
+    
+    if (error) {
+      throw new Error(error.message);
+    }
+    
+    return NextResponse.json({
+      siteUrl: formattedSiteUrl,
+      rules: (data?.rules ?? []) as BrandRule[]
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching brand rules:', error);
+    
+    return gscErrorResponse(error, 'Failed to fetch brand rules');
+  }
+}
+
+// Endpoint to replace the brand rules of a property
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { siteUrl, rules }: { siteUrl: string; rules: BrandRule[] } = await request.json();
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const rulesError = validateBrandRules(rules);
+    if (rulesError) {
+      return NextResponse.json(
+        { error: rulesError },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    const cleanRules = rules.map(rule => ({ type: rule.type, value: rule.value.trim() }));
+    
+    const { error } = await supabaseAdmin
+      .from('brand_rules')
+      .upsert({
+        user_id: user.id,
+        site_url: formattedSiteUrl,
+        rules: cleanRules,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,site_url'
+      });
+    
+    if (error) {
+      throw new Error(error.message);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      siteUrl: formattedSiteUrl,
+      rules: cleanRules
+    });
+  } catch (error: unknown) {
+    console.error('Error saving brand rules:', error);
+    
+    return gscErrorResponse(error, 'Failed to save brand rules');
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { purgeUserCache } from '@/lib/gsc-cache';
+import { canonicalizeSiteUrl } from '@/lib/properties';
+
+// Endpoint to purge the user's cached GSC responses (optionally for one site)
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    const deleted = await purgeUserCache(user.id, siteUrl ? canonicalizeSiteUrl(siteUrl) : undefined);
+    
+    return NextResponse.json({
+      success: true,
+      deleted
+    });
+  } catch (error: unknown) {
+    console.error('Error purging cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge cache', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { getDataFreshness } from '@/lib/google';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeOption } from '@/lib/search-types';
+import { SearchType } from '@/lib/types';
+
+// Endpoint to get the newest complete day of Search Analytics data for a property
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    const searchType = (request.nextUrl.searchParams.get('searchType') || DEFAULT_SEARCH_TYPE) as SearchType;
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    return NextResponse.json({
+      siteUrl: formattedSiteUrl,
+      searchType,
+      ...await getDataFreshness(user.id, formattedSiteUrl, searchType)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching data freshness:', error);
+    
+    return gscErrorResponse(error, 'Failed to fetch data freshness');
+  }
+}
@@ -1,22 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
 import { fetchSearchAnalyticsData } from '@/lib/google';
-import { MetricType } from '@/lib/types';
-
-// Format site URL for GSC API
-function formatSiteUrlForGSC(url: string): string {
-  // If URL already has the proper GSC format (sc-domain: or https://), return as is
-  if (url.startsWith('sc-domain:') || url.startsWith('https://') || url.startsWith('http://')) {
-    return url;
-  }
-  
-  // If it's a domain without protocol, prefix with sc-domain:
-  if (!url.includes('://') && !url.startsWith('sc-domain:')) {
-    return `sc-domain:${url}`;
-  }
-  
-  return url;
-}
+import { validateDimensionFilters } from '@/lib/filters';
+import { validateDimensions } from '@/lib/dimensions';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { isCalendarDate } from '@/lib/date-ranges';
+import { DimensionFilter, MetricType } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,7 +23,7 @@ export async function POST(request: NextRequest) {
     
     // Parse request body
     const requestData = await request.json();
-    const { siteUrl, startDate, endDate, metrics, dimensions = ['query'] } = requestData;
+    const { siteUrl, startDate, endDate, metrics, dimensions = ['query'], filters = [], searchType = DEFAULT_SEARCH_TYPE, forceRefresh = false } = requestData;
     
     // Validate required parameters
     if (!siteUrl) {
@@ -49,6 +40,13 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
     if (!metrics || metrics.length === 0) {
       return NextResponse.json(
         { error: 'At least one metric is required' },
@@ -67,8 +65,45 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Format the site URL properly for GSC API
-    const formattedSiteUrl = formatSiteUrlForGSC(siteUrl);
+    const dimensionError = validateDimensions(dimensions);
+    if (dimensionError) {
+      return NextResponse.json(
+        { error: dimensionError },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    // Discover and Google News don't support every dimension or metric
+    const conflicts = getSearchTypeConflicts(
+      searchType,
+      dimensions,
+      metrics,
+      filters.map((f: DimensionFilter) => f.dimension)
+    );
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    // Resolve the site URL to one of the user's Search Console properties
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
     
     console.log(`Fetching GSC data for ${formattedSiteUrl} from ${startDate} to ${endDate}`);
     
@@ -79,7 +114,10 @@ export async function POST(request: NextRequest) {
       startDate,
       endDate,
       metrics,
-      dimensions
+      dimensions,
+      filters,
+      searchType,
+      forceRefresh === true
     );
     
     return NextResponse.json({
@@ -90,7 +128,9 @@ export async function POST(request: NextRequest) {
         startDate,
         endDate,
         metrics,
-        dimensions
+        dimensions,
+        filters,
+        searchType
       }
     });
     
@@ -112,16 +152,6 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    if (error.message?.includes('quota') || error.code === 429) {
-      return NextResponse.json(
-        { error: 'API quota exceeded. Please try again later' },
-        { status: 429 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to fetch GSC data', details: error.message },
-      { status: 500 }
-    );
+    return gscErrorResponse(error, 'Failed to fetch GSC data');
   }
 } 
\ No newline at end of file
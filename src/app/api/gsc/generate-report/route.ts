@@ -1,32 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
-import { querySearchAnalytics } from '@/lib/google';
-import { MetricType, TimeRange } from '@/lib/types';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { QuotaExceededError } from '@/lib/quota';
+import { fetchReportRows } from '@/lib/warehouse';
+import { DEFAULT_MAX_ROWS } from '@/lib/google';
+import { validateDimensionFilters } from '@/lib/filters';
+import { validateDimensions } from '@/lib/dimensions';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { COMPARISON_METRICS, joinComparisonRows } from '@/lib/comparison';
+import { getCalculatedMetrics } from '@/lib/calculated-metrics';
+import { addCalculatedMetrics, getCalculatedMetricId, getFormulaMetrics, isCalculatedMetricKey } from '@/lib/formulas';
+import { GSC_TIMEZONE, isCalendarDate } from '@/lib/date-ranges';
+import { getDisplayTimezone } from '@/lib/user-settings';
+import { saveReport } from '@/lib/reports';
+import { CalendarDate, ComparisonMode, DimensionFilter, MetricType, SearchType } from '@/lib/types';
 
 interface ReportRequest {
   siteUrl: string;
-  metrics: MetricType[];
+  // Built-in metrics and calculated metric keys (calc_<id>), in column order
+  metrics: string[];
+  // Search Console (Pacific Time) days
   timeRange: {
-    startDate: string;
-    endDate: string;
+    startDate: CalendarDate;
+    endDate: CalendarDate;
   };
   dimensions?: string[];
+  filters?: DimensionFilter[];
+  searchType?: SearchType;
+  // Optional second range to compare against
+  comparison?: {
+    mode: ComparisonMode;
+    startDate: CalendarDate;
+    endDate: CalendarDate;
+  };
+  // Cap on rows fetched per range (defaults to DEFAULT_MAX_ROWS)
+  maxRows?: number;
+  // Skip the response cache and fetch fresh data
+  forceRefresh?: boolean;
 }
 
-// Format site URL for GSC API
-function formatSiteUrlForGSC(url: string): string {
-  // If URL already has the proper GSC format (sc-domain: or https://), return as is
-  if (url.startsWith('sc-domain:') || url.startsWith('https://') || url.startsWith('http://')) {
-    return url;
-  }
-  
-  // If it's a domain without protocol, prefix with sc-domain:
-  if (!url.includes('://') && !url.startsWith('sc-domain:')) {
-    return `sc-domain:${url}`;
-  }
-  
-  return url;
-}
+// Hard limit so one report can't exhaust the function's memory
+const MAX_ROW_CAP = 500000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,7 +58,7 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const requestData: ReportRequest = await request.json();
     
-    const { siteUrl, metrics, timeRange, dimensions = ['query'] } = requestData;
+    const { siteUrl, metrics, timeRange, dimensions = ['query'], filters = [], searchType = DEFAULT_SEARCH_TYPE, comparison, maxRows = DEFAULT_MAX_ROWS, forceRefresh = false } = requestData;
     
     if (!siteUrl) {
       return NextResponse.json(
@@ -66,41 +81,222 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Format the site URL properly for GSC API
-    const formattedSiteUrl = formatSiteUrlForGSC(siteUrl);
+    const invalidMetrics = metrics.filter(metric =>
+      !COMPARISON_METRICS.includes(metric as MetricType) && !isCalculatedMetricKey(metric)
+    );
+    if (invalidMetrics.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid metrics: ${invalidMetrics.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    // Calculated metrics are looked up now, and a copy goes into the report so saved reports don't depend on them
+    const calculatedIds = metrics.filter(isCalculatedMetricKey).map(getCalculatedMetricId);
+    const calculatedMetrics = await getCalculatedMetrics(user.id, calculatedIds);
+    const missingIds = calculatedIds.filter(id => !calculatedMetrics.some(metric => metric.id === id));
+    if (missingIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown calculated metrics: ${missingIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (comparison && (!comparison.startDate || !comparison.endDate)) {
+      return NextResponse.json(
+        { error: 'Comparison start and end dates are required' },
+        { status: 400 }
+      );
+    }
+    
+    const dates = [timeRange.startDate, timeRange.endDate, ...(comparison ? [comparison.startDate, comparison.endDate] : [])];
+    if (!dates.every(isCalendarDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_ROW_CAP) {
+      return NextResponse.json(
+        { error: `maxRows must be a whole number between 1 and ${MAX_ROW_CAP}` },
+        { status: 400 }
+      );
+    }
+    
+    const dimensionError = validateDimensions(dimensions);
+    if (dimensionError) {
+      return NextResponse.json(
+        { error: dimensionError },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    // Discover and Google News don't support every dimension or metric
+    // Calculated metrics count as using the built-in metrics their formulas read
+    const conflicts = getSearchTypeConflicts(
+      searchType,
+      dimensions,
+      Array.from(new Set([
+        ...metrics.filter(metric => !isCalculatedMetricKey(metric)) as MetricType[],
+        ...calculatedMetrics.flatMap(metric => getFormulaMetrics(metric.formula)),
+      ])),
+      filters.map((f: DimensionFilter) => f.dimension)
+    );
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    // Resolve the site URL to one of the user's Search Console properties
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    const displayTimezone = await getDisplayTimezone(user.id);
     
     console.log('Generating report for site:', formattedSiteUrl);
     console.log('Metrics:', metrics);
     console.log('Time range:', timeRange);
     console.log('Dimensions:', dimensions);
+    console.log('Filters:', filters);
+    console.log('Search type:', searchType);
+    console.log('Comparison:', comparison);
     
-    // Query GSC Search Analytics API
-    const searchData = await querySearchAnalytics(
-      user.id,
-      formattedSiteUrl,
-      timeRange.startDate,
-      timeRange.endDate,
-      dimensions
-    );
+    // Stream progress as NDJSON lines while the rows are fetched, then the id of the saved report
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (message: object) => controller.enqueue(encoder.encode(`${JSON.stringify(message)}\n`));
+        const rowsFetched = { current: 0, comparison: 0 };
+        const sendProgress = () => send({ type: 'progress', rowsFetched: rowsFetched.current + rowsFetched.comparison });
+        
+        try {
+          // Read synced ranges from the warehouse, anything else from the cache or the GSC API
+          // (both ranges in parallel when comparing)
+          const [searchResult, comparisonResult] = await Promise.all([
+            fetchReportRows(
+              user.id,
+              formattedSiteUrl,
+              timeRange.startDate,
+              timeRange.endDate,
+              dimensions,
+              filters,
+              searchType,
+              {
+                maxRows,
+                forceRefresh,
+                onProgress: (rows) => {
+                  rowsFetched.current = rows;
+                  sendProgress();
+                }
+              }
+            ),
+            comparison
+              ? fetchReportRows(
+                  user.id,
+                  formattedSiteUrl,
+                  comparison.startDate,
+                  comparison.endDate,
+                  dimensions,
+                  filters,
+                  searchType,
+                  {
+                    maxRows,
+                    forceRefresh,
+                    onProgress: (rows) => {
+                      rowsFetched.comparison = rows;
+                      sendProgress();
+                    }
+                  }
+                )
+              : Promise.resolve(null),
+          ]);
+          
+          // The row cap was hit, so a range doesn't include every row
+          const currentTruncated = searchResult.rows.length >= maxRows;
+          const previousTruncated = (comparisonResult?.rows.length ?? 0) >= maxRows;
+          
+          const rows = comparisonResult
+            ? joinComparisonRows(searchResult.rows, comparisonResult.rows, { current: currentTruncated, previous: previousTruncated })
+            : searchResult.rows;
+          
+          const report = {
+            success: true,
+            data: calculatedMetrics.length > 0
+              ? addCalculatedMetrics(rows, calculatedMetrics, dimensions)
+              : rows,
+            source: searchResult.source,
+            truncated: currentTruncated || previousTruncated,
+            request: {
+              siteUrl: formattedSiteUrl,
+              metrics,
+              calculatedMetrics,
+              timeRange,
+              dimensions,
+              filters,
+              searchType,
+              comparison,
+              maxRows,
+              // Dates above are days in dataTimezone; generatedAt is shown in displayTimezone
+              dataTimezone: GSC_TIMEZONE,
+              displayTimezone,
+              generatedAt: new Date().toISOString(),
+            }
+          };
+          
+          // Save the report here rather than sending it back to be saved: large
+          // reports don't fit in localStorage or a request body. The builder
+          // opens the saved report by its id.
+          const reportId = Date.now().toString();
+          await saveReport(user.id, reportId, report);
+          
+          send({
+            type: 'result',
+            reportId,
+            rowCount: report.data.length,
+            truncated: report.truncated,
+          });
+        } catch (error: unknown) {
+          console.error('Error generating report:', error);
+          send(error instanceof QuotaExceededError
+            // Rate limited: the builder waits retryAfter seconds and tries again
+            ? { type: 'error', status: 'queued', error: error.message, retryAfter: error.retryAfter }
+            : {
+                type: 'error',
+                error: 'Failed to generate report',
+                details: error instanceof Error ? error.message : 'Unknown error'
+              });
+        } finally {
+          controller.close();
+        }
+      }
+    });
     
-    // Return the report data
-    return NextResponse.json({
-      success: true,
-      data: searchData,
-      request: {
-        siteUrl: formattedSiteUrl,
-        metrics,
-        timeRange,
-        dimensions,
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
       }
     });
     
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error generating report:', error);
     
-    return NextResponse.json(
-      { error: 'Failed to generate report', details: error.message },
-      { status: 500 }
-    );
+    return gscErrorResponse(error, 'Failed to generate report');
   }
 } 
\ No newline at end of file
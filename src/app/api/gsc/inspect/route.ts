@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { isUrlInProperty, resolveProperty } from '@/lib/properties';
+import { getInspectionQuota, inspectUrls, MAX_INSPECTION_BATCH } from '@/lib/url-inspection';
+
+// Endpoint to get how much of a property's daily inspection quota is left
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    const quota = await getInspectionQuota(property.siteUrl);
+    
+    return NextResponse.json({ quota });
+  } catch (error: unknown) {
+    console.error('Error fetching inspection quota:', error);
+    
+    return gscErrorResponse(error, 'Failed to fetch inspection quota');
+  }
+}
+
+// Endpoint to inspect one URL or a batch of URLs with the URL Inspection API
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { siteUrl, urls, forceRefresh = false } = await request.json();
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const uniqueUrls = Array.from(new Set(urls.filter((url: unknown) => typeof url === 'string'))) as string[];
+    
+    if (uniqueUrls.length > MAX_INSPECTION_BATCH) {
+      return NextResponse.json(
+        { error: `At most ${MAX_INSPECTION_BATCH} URLs can be inspected at once` },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    
+    // GSC only inspects URLs that belong to the property
+    const foreignUrls = uniqueUrls.filter(url => !isUrlInProperty(url, property.siteUrl));
+    if (foreignUrls.length > 0) {
+      return NextResponse.json(
+        { error: `URLs don't belong to ${property.siteUrl}: ${foreignUrls.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const results = await inspectUrls(user.id, property.siteUrl, uniqueUrls, forceRefresh === true);
+    const quota = await getInspectionQuota(property.siteUrl);
+    
+    return NextResponse.json({
+      success: true,
+      results,
+      quota
+    });
+  } catch (error: unknown) {
+    console.error('Error inspecting URLs:', error);
+    
+    return gscErrorResponse(error, 'Failed to inspect URLs');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+
+// Endpoint to resolve a site URL to a property and the user's permission level on it
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    
+    return NextResponse.json(property);
+  } catch (error: unknown) {
+    console.error('Error resolving property:', error);
+    
+    return gscErrorResponse(error, 'Failed to resolve property');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { getSyncState } from '@/lib/warehouse';
+import { getQueriesFirstSeenSince } from '@/lib/query-first-seen';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeOption } from '@/lib/search-types';
+import { SearchType } from '@/lib/types';
+
+// Endpoint to get the queries of a property first seen on or after a date
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const siteUrl = searchParams.get('siteUrl');
+    const since = searchParams.get('since');
+    const searchType = (searchParams.get('searchType') || DEFAULT_SEARCH_TYPE) as SearchType;
+    
+    if (!siteUrl || !since) {
+      return NextResponse.json(
+        { error: 'Site URL and since date are required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+      return NextResponse.json(
+        { error: 'since must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
+    
+    // First-seen dates come from the warehouse sync, so they only mean
+    // something once the history before `since` has been synced
+    const state = await getSyncState(user.id, formattedSiteUrl, searchType);
+    const available = !!state?.synced_until && state.backfill_start_date < since && state.synced_until >= since;
+    
+    return NextResponse.json({
+      available,
+      syncedUntil: state?.synced_until ?? null,
+      firstSeen: available ? await getQueriesFirstSeenSince(user.id, formattedSiteUrl, searchType, since) : {}
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching query first-seen dates:', error);
+    
+    return gscErrorResponse(error, 'Failed to fetch first-seen dates');
+  }
+}
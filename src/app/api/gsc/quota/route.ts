@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { getQuotaUsage } from '@/lib/quota';
+
+// Endpoint to report recent Search Console usage for the user and, optionally, a property
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    const property = siteUrl ? await resolveProperty(user.id, siteUrl) : null;
+    
+    return NextResponse.json({
+      siteUrl: property?.siteUrl ?? null,
+      usage: getQuotaUsage(user.id, property?.siteUrl)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching quota usage:', error);
+    
+    return gscErrorResponse(error, 'Failed to fetch quota usage');
+  }
+}
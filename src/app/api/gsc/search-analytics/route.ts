@@ -1,21 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
 import { querySearchAnalytics } from '@/lib/google';
-
-// Format site URL for GSC API
-function formatSiteUrlForGSC(url: string): string {
-  // If URL already has the proper GSC format (sc-domain: or https://), return as is
-  if (url.startsWith('sc-domain:') || url.startsWith('https://') || url.startsWith('http://')) {
-    return url;
-  }
-  
-  // If it's a domain without protocol, prefix with sc-domain:
-  if (!url.includes('://') && !url.startsWith('sc-domain:')) {
-    return `sc-domain:${url}`;
-  }
-  
-  return url;
-}
+import { parseFilterParams, validateDimensionFilters } from '@/lib/filters';
+import { validateDimensions } from '@/lib/dimensions';
+import { DEFAULT_SEARCH_TYPE, getSearchTypeConflicts, getSearchTypeOption } from '@/lib/search-types';
+import { isCalendarDate } from '@/lib/date-ranges';
+import { SearchType } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -34,7 +26,11 @@ export async function GET(request: NextRequest) {
     const siteUrl = searchParams.get('siteUrl');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
-    const dimensions = searchParams.getAll('dimension') || ['query'];
+    const dimensionParams = searchParams.getAll('dimension');
+    const dimensions = dimensionParams.length > 0 ? dimensionParams : ['query'];
+    // Filters are passed as repeated `filter=dimension:operator:expression` params
+    const filters = parseFilterParams(searchParams.getAll('filter'));
+    const searchType = (searchParams.get('type') || DEFAULT_SEARCH_TYPE) as SearchType;
     
     // Validate required parameters
     if (!siteUrl || !startDate || !endDate) {
@@ -44,8 +40,46 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // Format the site URL properly for GSC API
-    const formattedSiteUrl = formatSiteUrlForGSC(siteUrl);
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) {
+      return NextResponse.json(
+        { error: 'Dates must be calendar dates in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    const dimensionError = validateDimensions(dimensions);
+    if (dimensionError) {
+      return NextResponse.json(
+        { error: dimensionError },
+        { status: 400 }
+      );
+    }
+    
+    const filterError = validateDimensionFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+    
+    if (!getSearchTypeOption(searchType)) {
+      return NextResponse.json(
+        { error: `Invalid search type: ${searchType}` },
+        { status: 400 }
+      );
+    }
+    
+    const conflicts = getSearchTypeConflicts(searchType, dimensions, [], filters.map(f => f.dimension));
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: conflicts.join('. '), conflicts },
+        { status: 400 }
+      );
+    }
+    
+    // Resolve the site URL to one of the user's Search Console properties
+    const { siteUrl: formattedSiteUrl } = await resolveProperty(user.id, siteUrl);
     
     console.log(`Fetching GSC data for ${formattedSiteUrl} from ${startDate} to ${endDate}`);
     
@@ -55,7 +89,9 @@ export async function GET(request: NextRequest) {
       formattedSiteUrl,
       startDate,
       endDate,
-      dimensions
+      dimensions,
+      filters,
+      searchType
     );
     
     return NextResponse.json(data);
@@ -70,9 +106,6 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    return NextResponse.json(
-      { error: 'Failed to fetch search analytics data' },
-      { status: 500 }
-    );
+    return gscErrorResponse(error, 'Failed to fetch search analytics data');
   }
 } 
\ No newline at end of file
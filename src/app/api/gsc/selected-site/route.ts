@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
 import { supabaseAdmin } from '@/lib/supabase';
+import { registerProperty } from '@/lib/warehouse';
+import { resolveProperty } from '@/lib/properties';
 
 // Endpoint to get the currently selected site
 export async function GET(request: NextRequest) {
@@ -54,15 +57,17 @@ export async function POST(request: NextRequest) {
     
     // Get the site URL from request body
     const requestData = await request.json();
-    const { siteUrl } = requestData;
     
-    if (!siteUrl) {
+    if (!requestData.siteUrl) {
       return NextResponse.json(
         { error: 'Site URL is required' },
         { status: 400 }
       );
     }
     
+    // Only properties the user can access in Search Console can be selected
+    const { siteUrl, permissionLevel } = await resolveProperty(user.id, requestData.siteUrl);
+    
     // First check if the user already has a settings record
     const { data: existingData } = await supabaseAdmin
       .from('user_settings')
@@ -95,15 +100,21 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Start keeping history for the property; the sync job picks up the backfill
+    try {
+      await registerProperty(user.id, siteUrl);
+    } catch (error) {
+      // Not critical for selecting the site
+      console.error('Failed to register site for warehouse sync:', error);
+    }
+    
     return NextResponse.json({
       success: true,
-      selectedSite: siteUrl
+      selectedSite: siteUrl,
+      permissionLevel
     });
   } catch (error) {
     console.error('Error updating selected site:', error);
-    return NextResponse.json(
-      { error: 'Failed to update selected site' },
-      { status: 500 }
-    );
+    return gscErrorResponse(error, 'Failed to update selected site');
   }
 } 
\ No newline at end of file
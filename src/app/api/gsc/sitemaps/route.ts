@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { hasSearchConsoleWriteScope } from '@/lib/google';
+import { hasPermission } from '@/lib/permissions';
+import { isUrlInProperty, resolveProperty } from '@/lib/properties';
+import { deleteSitemap, listSitemaps, submitSitemap } from '@/lib/sitemaps';
+
+// Submitting and deleting sitemaps needs at least full access to the property
+const MANAGE_PERMISSION = 'siteFullUser';
+
+// Checks a sitemap change request and returns an error response if it can't go ahead
+async function validateSitemapChange(userId: string, siteUrl: unknown, feedpath: unknown) {
+  if (typeof siteUrl !== 'string' || !siteUrl) {
+    return { error: NextResponse.json({ error: 'Site URL is required' }, { status: 400 }) };
+  }
+  
+  if (typeof feedpath !== 'string' || !feedpath) {
+    return { error: NextResponse.json({ error: 'Sitemap URL is required' }, { status: 400 }) };
+  }
+  
+  const property = await resolveProperty(userId, siteUrl, MANAGE_PERMISSION);
+  
+  if (!isUrlInProperty(feedpath, property.siteUrl)) {
+    return { error: NextResponse.json({ error: `The sitemap must be a URL within ${property.siteUrl}` }, { status: 400 }) };
+  }
+  
+  if (!(await hasSearchConsoleWriteScope(userId))) {
+    return {
+      error: NextResponse.json(
+        { error: 'Managing sitemaps needs write access to Search Console', needsWriteScope: true },
+        { status: 403 }
+      )
+    };
+  }
+  
+  return { siteUrl: property.siteUrl, feedpath };
+}
+
+// Endpoint to list a property's sitemaps
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    const [sitemaps, hasWriteScope] = await Promise.all([
+      listSitemaps(user.id, property.siteUrl),
+      hasSearchConsoleWriteScope(user.id),
+    ]);
+    
+    return NextResponse.json({
+      sitemaps,
+      permissionLevel: property.permissionLevel,
+      hasWriteScope,
+      canManage: hasWriteScope && hasPermission(property.permissionLevel, MANAGE_PERMISSION)
+    });
+  } catch (error: unknown) {
+    console.error('Error listing sitemaps:', error);
+    return gscErrorResponse(error, 'Failed to list sitemaps');
+  }
+}
+
+// Endpoint to submit a sitemap
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { siteUrl, feedpath } = await request.json();
+    const validated = await validateSitemapChange(user.id, siteUrl, feedpath);
+    if (validated.error) return validated.error;
+    
+    await submitSitemap(user.id, validated.siteUrl, validated.feedpath);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error submitting sitemap:', error);
+    return gscErrorResponse(error, 'Failed to submit sitemap');
+  }
+}
+
+// Endpoint to delete a sitemap
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const searchParams = request.nextUrl.searchParams;
+    const validated = await validateSitemapChange(user.id, searchParams.get('siteUrl'), searchParams.get('feedpath'));
+    if (validated.error) return validated.error;
+    
+    await deleteSitemap(user.id, validated.siteUrl, validated.feedpath);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting sitemap:', error);
+    return gscErrorResponse(error, 'Failed to delete sitemap');
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
-import { listSites } from '@/lib/google';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { getUserProperties } from '@/lib/properties';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,16 +19,11 @@ export async function GET(request: NextRequest) {
     
     // Get sites from Google Search Console
     console.log('API - GSC Sites - Fetching sites for user ID:', user.id);
-    const sites = await listSites(user.id);
-    console.log('API - GSC Sites - Sites fetched:', sites.length);
+    // Always refresh here so the cached list used for access checks stays current
+    const properties = await getUserProperties(user.id, true);
+    console.log('API - GSC Sites - Sites fetched:', properties.length);
     
-    // Transform the data to a more convenient format
-    const formattedSites = sites.map((site: any) => ({
-      siteUrl: site.siteUrl,
-      permissionLevel: site.permissionLevel,
-    }));
-    
-    return NextResponse.json(formattedSites);
+    return NextResponse.json(properties);
   } catch (error: any) {
     console.error('Error fetching GSC sites:', error);
     console.error('Error details:', JSON.stringify(error, null, 2));
@@ -40,9 +36,6 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    return NextResponse.json(
-      { error: 'Failed to fetch sites' },
-      { status: 500 }
-    );
+    return gscErrorResponse(error, 'Failed to fetch sites');
   }
 } 
\ No newline at end of file
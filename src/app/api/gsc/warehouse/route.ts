@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import { getSyncState, registerProperty, syncProperty } from '@/lib/warehouse';
+
+// Days synced per manual run; the cron job handles the rest of a backfill
+const MANUAL_SYNC_DAYS = 7;
+
+// Endpoint to get the warehouse sync status of a property
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    const state = await getSyncState(user.id, property.siteUrl);
+    
+    return NextResponse.json({
+      registered: !!state,
+      status: state?.status ?? null,
+      syncedFrom: state?.backfill_start_date ?? null,
+      syncedUntil: state?.synced_until ?? null,
+      lastRunAt: state?.last_run_at ?? null,
+      lastError: state?.last_error ?? null,
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching warehouse status:', error);
+    return gscErrorResponse(error, 'Failed to fetch warehouse status');
+  }
+}
+
+// Endpoint to register a property (if needed) and sync its next few days
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { siteUrl } = await request.json();
+    
+    if (!siteUrl) {
+      return NextResponse.json(
+        { error: 'Site URL is required' },
+        { status: 400 }
+      );
+    }
+    
+    const property = await resolveProperty(user.id, siteUrl);
+    await registerProperty(user.id, property.siteUrl);
+    const state = await getSyncState(user.id, property.siteUrl);
+    
+    if (!state) {
+      return NextResponse.json(
+        { error: 'Failed to load sync state' },
+        { status: 500 }
+      );
+    }
+    
+    const result = await syncProperty(state, MANUAL_SYNC_DAYS);
+    
+    return NextResponse.json({
+      success: result.status !== 'error',
+      ...result
+    });
+  } catch (error: unknown) {
+    console.error('Error syncing warehouse:', error);
+    return gscErrorResponse(error, 'Failed to sync warehouse');
+  }
+}
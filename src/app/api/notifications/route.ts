@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { listNotifications, markNotificationsRead } from '@/lib/alerts';
+
+// Endpoint to list the user's recent anomaly notifications
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { anomalies, unreadCount } = await listNotifications(user.id);
+    
+    return NextResponse.json({
+      success: true,
+      anomalies,
+      unreadCount
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Endpoint to mark notifications as read (all of them when no ids are given)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { ids }: { ids?: string[] } = await request.json();
+    
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      return NextResponse.json(
+        { error: 'ids must be an array of notification ids' },
+        { status: 400 }
+      );
+    }
+    
+    await markNotificationsRead(user.id, ids);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -49,8 +49,10 @@ export async function GET(request: NextRequest) {
       // Get all reports for this user
       const { data, error } = await supabaseAdmin
         .from('reports_data')
-        .select('id, cache_key, created_at')
+        .select('id, cache_key, created_at, report_type:data->>type')
         .eq('user_id', user.id)
+        // Skip cached GSC responses stored in the same table
+        .like('cache_key', 'report\\_%')
         .order('created_at', { ascending: false })
         .limit(10);
       
@@ -84,6 +86,8 @@ export async function GET(request: NextRequest) {
           reportId,
           siteUrl,
           dateRange,
+          // Query reports predate report types and have none
+          type: report.report_type || 'query',
           created_at: report.created_at
         };
       });
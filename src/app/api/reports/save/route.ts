@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserFromRequest } from '@/lib/auth';
-import { supabaseAdmin } from '@/lib/supabase';
+import { saveReport, updateReport } from '@/lib/reports';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +16,21 @@ export async function POST(request: NextRequest) {
     
     // Get the report data from the request body
     const requestData = await request.json();
-    const { reportData, reportId } = requestData;
+    const { reportData, reportId, changes } = requestData;
+    
+    // Analyses added to a saved report are sent on their own and merged in
+    if (reportId && changes && typeof changes === 'object' && !Array.isArray(changes)) {
+      if (!await updateReport(user.id, reportId, changes)) {
+        return NextResponse.json(
+          { error: 'Report not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({
+        success: true,
+        reportId
+      });
+    }
     
     if (!reportData || !reportId) {
       return NextResponse.json(
@@ -25,39 +39,21 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Create a unique cache key for this report
-    const cacheKey = `report_${reportId}_${reportData.request.siteUrl}_${reportData.request.timeRange.startDate}_${reportData.request.timeRange.endDate}`;
-    
     console.log(`Saving report ${reportId} to Supabase for user ${user.id}`);
     
     // Save the report to Supabase
-    const { error } = await supabaseAdmin
-      .from('reports_data')
-      .upsert({
-        user_id: user.id,
-        cache_key: cacheKey,
-        data: reportData,
-        created_at: new Date().toISOString()
-      });
-    
-    if (error) {
-      console.error('Error saving report to Supabase:', error);
-      return NextResponse.json(
-        { error: 'Failed to save report data' },
-        { status: 500 }
-      );
-    }
+    await saveReport(user.id, reportId, reportData);
     
     return NextResponse.json({
       success: true,
       reportId
     });
     
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error saving report:', error);
     return NextResponse.json(
-      { error: 'Failed to save report data', details: error.message },
+      { error: 'Failed to save report data', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -5,7 +5,12 @@ import { getValidAccessToken, getOAuth2Client } from '@/lib/google';
 import { IntentAnalysis } from '@/lib/gemini'; // Assuming this is where the type is defined
 
 interface ExportDataRow {
-    query: string;
+    query?: string;
+    page?: string;
+    country?: string;
+    device?: string;
+    date?: string;
+    searchAppearance?: string;
     clicks?: number;
     impressions?: number;
     ctr?: number;
@@ -19,6 +24,8 @@ interface ExportDataRow {
 interface ExportRequestBody {
     reportTitle: string;
     headers: string[];
+    // Optional row keys, one per header. When omitted, keys are derived from the header text.
+    keys?: string[];
     rows: ExportDataRow[];
 }
 
@@ -31,10 +38,13 @@ export async function POST(request: NextRequest) {
         }
 
         // 2. Get Request Body Data
-        const { reportTitle, headers, rows }: ExportRequestBody = await request.json();
+        const { reportTitle, headers, keys, rows }: ExportRequestBody = await request.json();
         if (!reportTitle || !headers || !rows || !Array.isArray(headers) || !Array.isArray(rows)) {
             return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
         }
+        if (keys && (!Array.isArray(keys) || keys.length !== headers.length)) {
+            return NextResponse.json({ error: 'Keys must match headers' }, { status: 400 });
+        }
 
         console.log(`[sheets/export] Received request to export report: "${reportTitle}" for user ${user.id}`);
 
@@ -79,12 +89,13 @@ export async function POST(request: NextRequest) {
         // 6. Format Data for Sheets API
         const values = [
             headers, // Use the headers directly from the request
-            ...rows.map(row => headers.map(header => {
+            ...rows.map(row => headers.map((header, index) => {
                 // Convert header to a potential key (handle case and spaces)
-                let key: keyof ExportDataRow | string = header.toLowerCase().replace(/\s+/g, ''); // e.g., "funnel stage" -> "funnelstage"
+                let key: keyof ExportDataRow | string = keys?.[index] ?? header.toLowerCase().replace(/\s+/g, ''); // e.g., "funnel stage" -> "funnelstage"
                 // Manual mapping for keys that don't directly match properties
                 if (key === 'funnelstage') key = 'funnel_stage';
                 if (key === 'mainkeywords') key = 'main_keywords';
+                if (key === 'searchappearance') key = 'searchAppearance';
                 // Simple properties like 'query', 'clicks', 'intent', 'category' should match directly now
 
                 let value = row[key as keyof ExportDataRow];
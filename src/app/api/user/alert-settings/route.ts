@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { getAlertSettings, saveAlertSettings } from '@/lib/alerts';
+import { isSmtpConfigured } from '@/lib/smtp';
+import { validateWebhookUrl } from '@/lib/webhooks';
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+// Endpoint to get where the user's anomaly alerts are delivered
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const settings = await getAlertSettings(user.id);
+    
+    return NextResponse.json({
+      ...settings,
+      // Email alerts only go out when the server has an SMTP endpoint
+      emailAvailable: isSmtpConfigured()
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching alert settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Endpoint to update the alert webhook URL and email (empty values turn a channel off)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { webhookUrl, email }: { webhookUrl?: string | null; email?: string | null } = await request.json();
+    const normalizedWebhookUrl = webhookUrl?.trim() || null;
+    const normalizedEmail = email?.trim() || null;
+    
+    const webhookError = normalizedWebhookUrl ? await validateWebhookUrl(normalizedWebhookUrl) : null;
+    if (webhookError) {
+      return NextResponse.json(
+        { error: webhookError },
+        { status: 400 }
+      );
+    }
+    
+    if (normalizedEmail && !EMAIL_PATTERN.test(normalizedEmail)) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+    
+    await saveAlertSettings(user.id, { webhookUrl: normalizedWebhookUrl, email: normalizedEmail });
+    
+    return NextResponse.json({
+      success: true,
+      webhookUrl: normalizedWebhookUrl,
+      email: normalizedEmail
+    });
+  } catch (error: unknown) {
+    console.error('Error saving alert settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save alert settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
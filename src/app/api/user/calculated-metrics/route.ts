@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { deleteCalculatedMetric, listCalculatedMetrics, saveCalculatedMetric } from '@/lib/calculated-metrics';
+import { CalculatedMetric, validateCalculatedMetric } from '@/lib/formulas';
+
+// Endpoint to list the user's calculated metrics
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      metrics: await listCalculatedMetrics(user.id)
+    });
+  } catch (error: unknown) {
+    console.error('Error listing calculated metrics:', error);
+    return NextResponse.json(
+      { error: 'Failed to list calculated metrics', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Endpoint to create a calculated metric, or update one when an id is given
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const metric: Partial<CalculatedMetric> = await request.json();
+    
+    const validationError = validateCalculatedMetric(metric);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    const saved = await saveCalculatedMetric(user.id, {
+      id: metric.id,
+      name: metric.name!,
+      formula: metric.formula!,
+      format: metric.format!,
+      description: metric.description ?? null
+    });
+    
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Calculated metric not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, metric: saved });
+  } catch (error: unknown) {
+    console.error('Error saving calculated metric:', error);
+    return NextResponse.json(
+      { error: 'Failed to save calculated metric', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Endpoint to delete a calculated metric
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const id = request.nextUrl.searchParams.get('id');
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Metric ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    await deleteCalculatedMetric(user.id, id);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting calculated metric:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete calculated metric', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { gscErrorResponse } from '@/lib/gsc-errors';
+import { resolveProperty } from '@/lib/properties';
+import {
+  deleteReportTemplate,
+  listReportTemplates,
+  ReportTemplateInput,
+  saveReportTemplate,
+  validateReportTemplate,
+} from '@/lib/report-templates';
+
+// Endpoint to list the user's report templates for a site
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const siteUrl = request.nextUrl.searchParams.get('siteUrl');
+    
+    // Without a site only the templates for every site are listed
+    const formattedSiteUrl = siteUrl ? (await resolveProperty(user.id, siteUrl)).siteUrl : null;
+    
+    return NextResponse.json({
+      success: true,
+      templates: await listReportTemplates(user.id, formattedSiteUrl)
+    });
+  } catch (error: unknown) {
+    console.error('Error listing report templates:', error);
+    
+    return gscErrorResponse(error, 'Failed to list report templates');
+  }
+}
+
+// Endpoint to create a report template, or update one when an id is given
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const template: Partial<ReportTemplateInput> = await request.json();
+    
+    const validationError = validateReportTemplate(template);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    const formattedSiteUrl = template.siteUrl ? (await resolveProperty(user.id, template.siteUrl)).siteUrl : null;
+    
+    const saved = await saveReportTemplate(user.id, {
+      id: template.id,
+      name: template.name!,
+      siteUrl: formattedSiteUrl,
+      config: template.config!,
+      isDefault: !!template.isDefault
+    });
+    
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Report template not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, template: saved });
+  } catch (error: unknown) {
+    console.error('Error saving report template:', error);
+    
+    return gscErrorResponse(error, 'Failed to save report template');
+  }
+}
+
+// Endpoint to delete a report template
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const id = request.nextUrl.searchParams.get('id');
+    
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Template ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    await deleteReportTemplate(user.id, id);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting report template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete report template', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
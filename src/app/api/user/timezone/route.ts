@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { getDisplayTimezone, saveDisplayTimezone } from '@/lib/user-settings';
+import { GSC_TIMEZONE, isValidTimezone } from '@/lib/date-ranges';
+
+// Endpoint to get the user's display timezone and the timezone Search Console reports in
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    return NextResponse.json({
+      displayTimezone: await getDisplayTimezone(user.id),
+      gscTimezone: GSC_TIMEZONE
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching display timezone:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch display timezone', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Endpoint to update the user's display timezone
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUserFromRequest(request);
+    
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const { displayTimezone }: { displayTimezone?: string } = await request.json();
+    
+    if (!isValidTimezone(displayTimezone)) {
+      return NextResponse.json(
+        { error: `Invalid timezone: ${displayTimezone}` },
+        { status: 400 }
+      );
+    }
+    
+    await saveDisplayTimezone(user.id, displayTimezone);
+    
+    return NextResponse.json({ success: true, displayTimezone });
+  } catch (error: unknown) {
+    console.error('Error saving display timezone:', error);
+    return NextResponse.json(
+      { error: 'Failed to save display timezone', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
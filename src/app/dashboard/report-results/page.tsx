@@ -4,8 +4,27 @@ import React, { useState, useEffect, useCallback, useMemo, Suspense } from 'reac
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
-import { Loader2, AlertTriangle, ArrowLeft, Calendar, FileText, BrainCircuit, Download, Sheet, CheckCircle, XCircle, Sparkles } from 'lucide-react';
+import { Loader2, AlertTriangle, ArrowLeft, Calendar, FileText, BrainCircuit, Download, Sheet, CheckCircle, XCircle, Sparkles, LineChart, ScanSearch, Target, Layers } from 'lucide-react';
 import { IntentAnalysis, SEOIntent } from '@/lib/gemini';
+import { ComparisonMode, DimensionFilter, DimensionType, FilterDimension, MetricType, SearchType } from '@/lib/types';
+import { ComparisonMetrics, ComparisonStatus, computeDelta } from '@/lib/comparison';
+import {
+  COMPARISON_MODES,
+  DEFAULT_DISPLAY_TIMEZONE,
+  formatCalendarDate,
+  formatTimestamp,
+  getToday,
+  GSC_TIMEZONE_LABEL,
+} from '@/lib/date-ranges';
+import { getSearchTypeOption } from '@/lib/search-types';
+import { FILTER_OPERATORS } from '@/lib/filters';
+import { getDimensionLabel, mapRowKeys } from '@/lib/dimensions';
+import { downloadCsv } from '@/lib/csv';
+import { findOpportunities, getExpectedCtr, Opportunity, OpportunityAnalysis, OPPORTUNITY_LABELS } from '@/lib/analysis/opportunities';
+import { aggregateQueryMetrics, clusterQueries, getClusterLabels, QueryClustering } from '@/lib/analysis/clustering';
+import { BRAND_SEGMENT_LABELS, BrandRule, BrandSegment, createBrandMatcher, getBrandSegment } from '@/lib/brand';
+import { getMonthStart } from '@/lib/analysis/lifecycle';
+import { CalculatedMetric, formatCalculatedValue, isCalculatedMetricKey } from '@/lib/formulas';
 import {
   useReactTable,
   getCoreRowModel,
@@ -20,23 +39,56 @@ import {
 
 import AnimatedPageWrapper from '@/components/ui/AnimatedPageWrapper';
 import DashboardHeader from '@/components/ui/DashboardHeader';
+import { TrendPanel } from '@/components/ReportResults/TrendPanel';
+import { UrlInspectionPanel } from '@/components/ReportResults/UrlInspectionPanel';
+import { ClusterView } from '@/components/ReportResults/ClusterView';
+
+// Matches the batch limit of /api/gsc/inspect
+const MAX_INSPECTION_BATCH = 50;
 
 interface ReportData {
   success: boolean;
   data: any[];
+  // The row cap was reached, so some rows were left out
+  truncated?: boolean;
   request: {
     siteUrl: string;
+    // Built-in metrics and calculated metric keys, in column order
     metrics: string[];
+    // Copies of the calculated metrics the report was run with
+    calculatedMetrics?: CalculatedMetric[];
     timeRange: {
       startDate: string;
       endDate: string;
     };
     dimensions: string[];
+    filters?: DimensionFilter[];
+    searchType?: SearchType;
+    comparison?: {
+      mode: ComparisonMode;
+      startDate: string;
+      endDate: string;
+    };
+    maxRows?: number;
+    // Timezone the dates are days in (Search Console's), and the user's own
+    dataTimezone?: string;
+    displayTimezone?: string;
+    generatedAt?: string;
   };
+  // Striking-distance and low-CTR rows, once found
+  opportunities?: OpportunityAnalysis;
+  // Topic clusters of the report's queries, with the user's merges and names
+  clusters?: QueryClustering;
 }
 
-interface ReportRow {
-  query: string;
+// Per-metric fields added to rows of comparison reports
+type ComparisonFields = Partial<Record<`${MetricType}_${'previous' | 'change' | 'change_pct'}`, number | null>>;
+
+// Calculated metric values by key, plus _previous, _change and _change_pct in comparison reports
+type CalculatedFields = { [key: `calc_${string}`]: number | null | undefined };
+
+interface ReportRow extends Partial<Record<DimensionType, string>>, ComparisonFields, CalculatedFields {
+  status?: ComparisonStatus;
   clicks?: number;
   impressions?: number;
   ctr?: number;
@@ -45,6 +97,13 @@ interface ReportRow {
   category?: IntentAnalysis['category'];
   funnel_stage?: IntentAnalysis['funnel_stage'];
   main_keywords?: IntentAnalysis['main_keywords'];
+  opportunity?: string;
+  expected_ctr?: number;
+  estimated_uplift?: number;
+  brand_segment?: string;
+  cluster?: string;
+  // Set when the query was first seen in the month the report ends in
+  first_seen?: string;
 }
 
 // Add UserProfile interface
@@ -54,6 +113,46 @@ interface UserProfile {
   avatar?: string;
 }
 
+// Badge for new/lost/unknown rows in comparison reports
+const StatusBadge: React.FC<{ status: ComparisonStatus | undefined }> = ({ status }) => {
+  if (status === 'new') {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">New</span>;
+  }
+  if (status === 'lost') {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Lost</span>;
+  }
+  if (status === 'unknown') {
+    return (
+      <span
+        title="The comparison period hit the row limit, so this row may be missing from it rather than new"
+        className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+      >
+        Unknown
+      </span>
+    );
+  }
+  return <span className="text-xs text-gray-400 dark:text-gray-500">-</span>;
+};
+
+// Format a metric value for display
+const formatMetricValue = (metric: string, value: number | null | undefined, calculated?: CalculatedMetric): string => {
+  if (value === undefined || value === null) return '-';
+  if (calculated) return formatCalculatedValue(value, calculated.format);
+  if (metric === 'ctr') return `${(value * 100).toFixed(2)}%`;
+  if (metric === 'position') return value.toFixed(1);
+  return value.toLocaleString();
+};
+
+// Format the absolute change of a metric, with an explicit sign
+const formatMetricChange = (metric: string, change: number, calculated?: CalculatedMetric): string => {
+  const sign = change > 0 ? '+' : '';
+  if (calculated?.format === 'percent') return `${sign}${(change * 100).toFixed(2)} pp`;
+  if (calculated) return `${sign}${formatCalculatedValue(change, calculated.format)}`;
+  if (metric === 'ctr') return `${sign}${(change * 100).toFixed(2)} pp`;
+  if (metric === 'position') return `${sign}${change.toFixed(1)}`;
+  return `${sign}${change.toLocaleString()}`;
+};
+
 // Helper component for intent badges (with dark mode)
 const IntentBadge: React.FC<{ intent: SEOIntent | undefined }> = ({ intent }) => {
   const getIntentColor = (intent: SEOIntent | undefined): string => {
@@ -99,6 +198,28 @@ function ReportResultsContent() {
   const [exportSheetError, setExportSheetError] = useState<string | null>(null);
   const [exportSheetSuccessUrl, setExportSheetSuccessUrl] = useState<string | null>(null);
 
+  // State for the trend chart
+  const [showTrend, setShowTrend] = useState(false);
+  const [trendFocus, setTrendFocus] = useState<DimensionFilter[]>([]);
+
+  // Pages picked for URL Inspection, and the batch currently being inspected
+  const [selectedPages, setSelectedPages] = useState<string[]>([]);
+  const [inspectionUrls, setInspectionUrls] = useState<string[] | null>(null);
+
+  // State for the opportunities analysis
+  const [isFindingOpportunities, setIsFindingOpportunities] = useState(false);
+  const [opportunitiesError, setOpportunitiesError] = useState<string | null>(null);
+
+  // State for query clustering and the grouped view
+  const [viewMode, setViewMode] = useState<'rows' | 'clusters'>('rows');
+  const [isClustering, setIsClustering] = useState(false);
+  const [clusteringError, setClusteringError] = useState<string | null>(null);
+
+  // Brand rules of the report's site, for the branded / non-branded split
+  const [brandRules, setBrandRules] = useState<BrandRule[]>([]);
+  // Queries first seen this month, with their dates, once the site's history is synced
+  const [firstSeen, setFirstSeen] = useState<Record<string, string> | null>(null);
+
   // Function to load intents, wrapped in useCallback
   const loadIntents = useCallback(async (currentReportId: string) => {
     if (!currentReportId) return;
@@ -134,7 +255,6 @@ function ReportResultsContent() {
       setIsLoading(true);
       setError(null);
       setIntentsError(null);
-      let loadedReportData: ReportData | null = null;
 
       try {
         // Fetch Profile first, as it's needed for header
@@ -149,46 +269,23 @@ function ReportResultsContent() {
         const profileData = await profileResponse.json();
         setUserProfile(profileData);
 
-        // Now handle report data loading (localStorage or Supabase)
-        const storedData = localStorage.getItem('lastReportData');
-        if (storedData) {
-            try {
-                loadedReportData = JSON.parse(storedData);
-                // Optional: Verify if stored data matches reportId if necessary
-                // if (reportId && loadedReportData?.request?.reportId !== reportId) { loadedReportData = null; }
-            } catch (e) {
-                console.error("Error parsing stored report data:", e);
-                localStorage.removeItem('lastReportData'); // Clear corrupted data
-                loadedReportData = null;
-            }
+        // Reports are saved when they're generated, so load this one by id
+        if (!reportId) {
+          throw new Error('No report ID specified.');
         }
-
-        if (!loadedReportData && reportId) {
-          console.log(`Loading report ${reportId} from Supabase...`);
-          const reportApiResponse = await fetch(`/api/reports/get?reportId=${reportId}`);
-          if (!reportApiResponse.ok) {
-            throw new Error('Failed to load report from database');
-          }
-          const result = await reportApiResponse.json();
-          if (result.success && result.report) {
-            loadedReportData = result.report.data; // Assuming report data is nested
-            // No need to save back to localStorage here, it was loaded because it wasn't there or didn't match
-          } else {
-             throw new Error(result.error || 'Report not found in database');
-          }
-        } else if (!reportId && !loadedReportData) {
-            throw new Error('No report ID specified and no data in local storage.');
+        console.log(`Loading report ${reportId} from Supabase...`);
+        const reportApiResponse = await fetch(`/api/reports/get?reportId=${reportId}`);
+        if (!reportApiResponse.ok) {
+          throw new Error('Failed to load report from database');
         }
-
-        if (loadedReportData) {
-            setReportData(loadedReportData);
-             // Load intents if reportId is available (either from URL or potentially from loadedReportData if stored)
-            const effectiveReportId = reportId || (loadedReportData as any)?.reportId; // Adjust if reportId is stored differently
-            if (effectiveReportId) {
-                await loadIntents(effectiveReportId);
-            }
+        const result = await reportApiResponse.json();
+        if (!result.success || !result.report) {
+          throw new Error(result.error || 'Report not found in database');
         }
 
+        setReportData(result.report.data);
+        await loadIntents(reportId);
+
       } catch (err: any) {
         console.error("Error loading report results page:", err);
         setError(err.message || 'Failed to load page data');
@@ -203,14 +300,124 @@ function ReportResultsContent() {
     loadPageData();
   }, [reportId, router, loadIntents]); // Added router dependency
   
+  // Dimensions the report was grouped by, in column order
+  const dimensions = useMemo<string[]>(() => {
+    return reportData?.request?.dimensions ?? ['query'];
+  }, [reportData]);
+  const hasQueryDimension = dimensions.includes('query');
+  const isComparison = !!reportData?.request?.comparison;
+
+  // Calculated metrics of the report, by key
+  const calculatedByKey = useMemo(() => {
+    return new Map((reportData?.request?.calculatedMetrics ?? []).map(metric => [`calc_${metric.id}`, metric]));
+  }, [reportData]);
+  const getMetricLabel = useCallback((metric: string) => calculatedByKey.get(metric)?.name ?? metric, [calculatedByKey]);
+
+  // Opportunities of the report, keyed by their rows' dimension values
+  const opportunitiesByKeys = useMemo(() => {
+    return new Map<string, Opportunity>(
+      (reportData?.opportunities?.opportunities || []).map(o => [JSON.stringify(o.keys), o])
+    );
+  }, [reportData]);
+  const hasOpportunities = !!reportData?.opportunities;
+
+  const reportSiteUrl = reportData?.request?.siteUrl;
+  useEffect(() => {
+    if (!reportSiteUrl || !hasQueryDimension) {
+      setBrandRules([]);
+      return;
+    }
+    const loadBrandRules = async () => {
+      try {
+        const response = await fetch(`/api/gsc/brand-rules?siteUrl=${encodeURIComponent(reportSiteUrl)}`);
+        if (!response.ok) return;
+        const result = await response.json();
+        setBrandRules(result.rules || []);
+      } catch (err) {
+        console.error('Error loading brand rules:', err);
+      }
+    };
+    loadBrandRules();
+  }, [reportSiteUrl, hasQueryDimension]);
+
+  const reportSearchType = reportData?.request?.searchType ?? 'web';
+  const reportEndDate = reportData?.request?.timeRange?.endDate;
+  useEffect(() => {
+    if (!reportSiteUrl || !reportEndDate || !hasQueryDimension) {
+      setFirstSeen(null);
+      return;
+    }
+    const loadFirstSeen = async () => {
+      try {
+        const params = new URLSearchParams({
+          siteUrl: reportSiteUrl,
+          searchType: reportSearchType,
+          since: getMonthStart(reportEndDate),
+        });
+        const response = await fetch(`/api/gsc/query-first-seen?${params}`);
+        if (!response.ok) return;
+        const result = await response.json();
+        setFirstSeen(result.available ? result.firstSeen : null);
+      } catch (err) {
+        console.error('Error loading query first-seen dates:', err);
+      }
+    };
+    loadFirstSeen();
+  }, [reportSiteUrl, reportSearchType, reportEndDate, hasQueryDimension]);
+  const hasFirstSeen = !!firstSeen;
+
+  // Tells branded queries apart, or null when the site has no brand rules
+  const isBrandedQuery = useMemo(() => {
+    return brandRules.length > 0 ? createBrandMatcher(brandRules) : null;
+  }, [brandRules]);
+  const hasBrandSegments = !!isBrandedQuery;
+
+  // Cluster name of each query
+  const clusterLabels = useMemo(() => {
+    return reportData?.clusters ? getClusterLabels(reportData.clusters) : null;
+  }, [reportData]);
+
   // Prepare data for table
   const tableData = useMemo<ReportRow[]>(() => {
     if (!reportData?.data) return [];
     return reportData.data.map(row => {
-      const query = row.keys[0];
-      const intentData = intents.find(i => i.query === query);
+      const opportunity = opportunitiesByKeys.get(JSON.stringify(row.keys));
+      const dimensionValues = mapRowKeys(row.keys, dimensions);
+      const intentData = dimensionValues.query !== undefined
+        ? intents.find(i => i.query === dimensionValues.query)
+        : undefined;
+      // Comparison reports carry the previous range's metrics on each row
+      const comparisonFields: ComparisonFields = {};
+      if (isComparison) {
+        const previous: ComparisonMetrics | null = row.previous;
+        (['clicks', 'impressions', 'ctr', 'position'] as MetricType[]).forEach(metric => {
+          const delta = computeDelta(
+            row.status === 'lost' ? undefined : row[metric],
+            previous?.[metric]
+          );
+          comparisonFields[`${metric}_previous`] = previous?.[metric] ?? null;
+          comparisonFields[`${metric}_change`] = delta.change;
+          comparisonFields[`${metric}_change_pct`] = delta.changePercent;
+        });
+      }
+      // Calculated metrics were evaluated by the API, for both ranges when comparing
+      const calculatedFields: CalculatedFields = {};
+      calculatedByKey.forEach((_, key) => {
+        const value = row.status === 'lost' ? undefined : row.calculated?.[key];
+        calculatedFields[key as `calc_${string}`] = value;
+        if (isComparison) {
+          const previousValue = row.previous?.calculated?.[key];
+          const delta = computeDelta(value ?? undefined, previousValue ?? undefined);
+          calculatedFields[`${key}_previous` as `calc_${string}`] = previousValue ?? null;
+          calculatedFields[`${key}_change` as `calc_${string}`] = delta.change;
+          calculatedFields[`${key}_change_pct` as `calc_${string}`] = delta.changePercent;
+        }
+      });
       return {
-        query: query,
+        ...dimensionValues,
+        ...comparisonFields,
+        ...calculatedFields,
+        status: row.status,
         clicks: row.clicks,
         impressions: row.impressions,
         ctr: row.ctr,
@@ -219,9 +426,22 @@ function ReportResultsContent() {
         category: intentData?.category,
         funnel_stage: intentData?.funnel_stage,
         main_keywords: intentData?.main_keywords,
+        opportunity: opportunity?.types.map(type => OPPORTUNITY_LABELS[type]).join(', '),
+        expected_ctr: opportunity?.expectedCtr,
+        estimated_uplift: opportunity?.estimatedUplift,
+        brand_segment: isBrandedQuery && dimensionValues.query !== undefined
+          ? BRAND_SEGMENT_LABELS[getBrandSegment(dimensionValues.query, isBrandedQuery)]
+          : undefined,
+        cluster: dimensionValues.query !== undefined ? clusterLabels?.get(dimensionValues.query) : undefined,
+        first_seen: dimensionValues.query !== undefined ? firstSeen?.[dimensionValues.query] : undefined,
       };
     });
-  }, [reportData, intents]);
+  }, [reportData, dimensions, isComparison, calculatedByKey, intents, opportunitiesByKeys, isBrandedQuery, clusterLabels, firstSeen]);
+
+  // Metrics per query, summed over rows, for clustering
+  const queryMetrics = useMemo(() => {
+    return hasQueryDimension ? aggregateQueryMetrics(tableData) : [];
+  }, [tableData, hasQueryDimension]);
 
   // Define table columns
   const columns = useMemo<ColumnDef<ReportRow>[]>(() => {
@@ -234,48 +454,263 @@ function ReportResultsContent() {
           className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
           onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
         >
-          <span>{metric}</span>
+          <span>{getMetricLabel(metric)}</span>
           {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
         </button>
       ),
-      cell: info => {
-        const value = info.getValue<number | undefined>();
-        if (value === undefined || value === null) return '-';
-        if (metric === 'ctr') return `${(value * 100).toFixed(2)}%`;
-        if (metric === 'position') return value.toFixed(1);
-        return value.toLocaleString();
-      },
+      // Calculated metrics are null where the formula has no value (e.g. a division by zero)
+      ...(isCalculatedMetricKey(metric) ? { sortUndefined: 'last' as const } : {}),
+      cell: info => formatMetricValue(metric, info.getValue<number | null | undefined>(), calculatedByKey.get(metric)),
     }));
 
-    return [
-      {
-        accessorKey: 'query',
-        header: ({ column }) => (
-           <button
-             className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
-             onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
-           >
-              <span>Query</span>
-              {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
-           </button>
-        ),
-        cell: info => {
-          const query = info.getValue<string>();
-          const keywords = info.row.original.main_keywords;
+    // Comparison reports get a change column after each metric
+    const metricWithChangeColumns: ColumnDef<ReportRow>[] = !isComparison
+      ? metricColumns
+      : reportData.request.metrics.flatMap((metric, index) => [
+          metricColumns[index],
+          {
+            accessorKey: `${metric}_change`,
+            sortUndefined: 'last',
+            header: ({ column }) => (
+              <button
+                className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+              >
+                <span>{getMetricLabel(metric)} Δ</span>
+                {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
+              </button>
+            ),
+            cell: info => {
+              const change = info.getValue<number | null | undefined>();
+              if (change === null || change === undefined) return '-';
+              const row = info.row.original;
+              const changePercent = row[`${metric}_change_pct` as keyof ComparisonFields];
+              // A lower position is better, so its colours are inverted
+              const isImprovement = metric === 'position' ? change < 0 : change > 0;
+              const colorClass = change === 0
+                ? 'text-gray-500 dark:text-gray-400'
+                : isImprovement ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+              return (
+                <span
+                  className={colorClass}
+                  title={`Previous: ${formatMetricValue(metric, row[`${metric}_previous` as keyof ComparisonFields], calculatedByKey.get(metric))}`}
+                >
+                  {formatMetricChange(metric, change, calculatedByKey.get(metric))}
+                  {changePercent !== null && changePercent !== undefined && (
+                    <span className="ml-1 text-xs">({changePercent > 0 ? '+' : ''}{(changePercent * 100).toFixed(1)}%)</span>
+                  )}
+                </span>
+              );
+            },
+          } as ColumnDef<ReportRow>,
+        ]);
+
+    // Rows can be charted on their own when they have a filterable dimension
+    const focusDimensions = dimensions.filter(d => d !== 'date') as FilterDimension[];
+    const trendColumns: ColumnDef<ReportRow>[] = focusDimensions.length > 0
+      ? [{
+          id: 'trend',
+          header: '',
+          enableSorting: false,
+          cell: info => (
+            <button
+              onClick={() => {
+                setTrendFocus(focusDimensions
+                  .filter(dimension => info.row.original[dimension])
+                  .map(dimension => ({
+                    id: `focus-${dimension}`,
+                    dimension,
+                    operator: 'equals',
+                    expression: info.row.original[dimension] as string,
+                  })));
+                setShowTrend(true);
+                window.scrollTo({ top: 0, behavior: 'smooth' });
+              }}
+              className="text-gray-400 hover:text-blue-600 dark:text-gray-500 dark:hover:text-blue-400"
+              title="Show trend for this row"
+              aria-label="Show trend for this row"
+            >
+              <LineChart className="w-4 h-4" />
+            </button>
+          ),
+        }]
+      : [];
+
+    // Pages can be inspected one at a time or selected for a batch
+    const inspectionColumns: ColumnDef<ReportRow>[] = dimensions.includes('page')
+      ? [{
+          id: 'inspect',
+          header: '',
+          enableSorting: false,
+          cell: info => {
+            const page = info.row.original.page;
+            if (!page) return null;
+            const isSelected = selectedPages.includes(page);
+            return (
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  disabled={!isSelected && selectedPages.length >= MAX_INSPECTION_BATCH}
+                  onChange={() => setSelectedPages(prev =>
+                    isSelected ? prev.filter(url => url !== page) : [...prev, page]
+                  )}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+                  aria-label="Select page for inspection"
+                />
+                <button
+                  onClick={() => {
+                    setInspectionUrls([page]);
+                    window.scrollTo({ top: 0, behavior: 'smooth' });
+                  }}
+                  className="text-gray-400 hover:text-blue-600 dark:text-gray-500 dark:hover:text-blue-400"
+                  title="Inspect this URL"
+                  aria-label="Inspect this URL"
+                >
+                  <ScanSearch className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          },
+        }]
+      : [];
+
+    const statusColumns: ColumnDef<ReportRow>[] = isComparison
+      ? [{
+          accessorKey: 'status',
+          header: 'Status',
+          filterFn: 'equals',
+          cell: info => <StatusBadge status={info.getValue<ComparisonStatus | undefined>()} />,
+        }]
+      : [];
+
+    const dimensionColumns: ColumnDef<ReportRow>[] = dimensions.map(dimension => ({
+      accessorKey: dimension,
+      header: ({ column }) => (
+         <button
+           className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+           onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+         >
+            <span>{getDimensionLabel(dimension)}</span>
+            {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
+         </button>
+      ),
+      cell: info => {
+        const value = info.getValue<string | undefined>();
+        if (!value) return '-';
+        if (dimension === 'page') {
           return (
-            <div className="relative group">
-              <span className="cursor-help border-b border-dotted border-gray-400 dark:border-gray-500 dark:text-gray-300">{query}</span>
-              {keywords && keywords.length > 0 && (
-                <div className="absolute z-10 invisible group-hover:visible bg-black dark:bg-gray-700 text-white dark:text-gray-200 text-xs rounded py-1 px-2 bottom-full left-1/2 transform -translate-x-1/2 mb-1 whitespace-nowrap shadow-lg">
-                  Keywords: {keywords.join(', ')}
-                  <svg className="absolute text-black dark:text-gray-700 h-2 w-full left-0 top-full" x="0px" y="0px" viewBox="0 0 255 255" xmlSpace="preserve"><polygon className="fill-current" points="0,0 127.5,127.5 255,0"/></svg>
-                </div>
-              )}
-            </div>
+            <a href={value} target="_blank" rel="noopener noreferrer" className="block max-w-xs truncate text-blue-600 dark:text-blue-400 hover:underline" title={value}>
+              {value}
+            </a>
           );
-        },
+        }
+        if (dimension !== 'query') return value;
+
+        // Query cells show the main keywords from intent analysis on hover
+        const keywords = info.row.original.main_keywords;
+        const firstSeenDate = info.row.original.first_seen;
+        return (
+          <div className="relative group">
+            <span className="cursor-help border-b border-dotted border-gray-400 dark:border-gray-500 dark:text-gray-300">{value}</span>
+            {firstSeenDate && (
+              <span
+                className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                title={`First seen ${firstSeenDate}`}
+              >
+                New this month
+              </span>
+            )}
+            {keywords && keywords.length > 0 && (
+              <div className="absolute z-10 invisible group-hover:visible bg-black dark:bg-gray-700 text-white dark:text-gray-200 text-xs rounded py-1 px-2 bottom-full left-1/2 transform -translate-x-1/2 mb-1 whitespace-nowrap shadow-lg">
+                Keywords: {keywords.join(', ')}
+                <svg className="absolute text-black dark:text-gray-700 h-2 w-full left-0 top-full" x="0px" y="0px" viewBox="0 0 255 255" xmlSpace="preserve"><polygon className="fill-current" points="0,0 127.5,127.5 255,0"/></svg>
+              </div>
+            )}
+          </div>
+        );
       },
-      ...metricColumns,
+    }));
+
+    const segmentColumns: ColumnDef<ReportRow>[] = hasBrandSegments
+      ? [{
+          accessorKey: 'brand_segment',
+          // Used by the segment buttons above the table
+          filterFn: 'equals',
+          header: ({ column }) => (
+            <button
+              className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+              onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+            >
+              <span>Segment</span>
+              {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
+            </button>
+          ),
+          cell: info => {
+            const value = info.getValue<string | undefined>();
+            if (!value) return '-';
+            return (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                value === BRAND_SEGMENT_LABELS.branded
+                  ? 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200'
+                  : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+              }`}>
+                {value}
+              </span>
+            );
+          },
+        }]
+      : [];
+
+    const opportunityColumns: ColumnDef<ReportRow>[] = hasOpportunities
+      ? [
+          {
+            accessorKey: 'opportunity',
+            sortUndefined: 'last',
+            // Used by the "Opportunities only" toggle
+            filterFn: (row, columnId, onlyOpportunities) => !onlyOpportunities || !!row.getValue(columnId),
+            header: 'Opportunity',
+            cell: info => {
+              const value = info.getValue<string | undefined>();
+              if (!value) return <span className="text-xs text-gray-400 dark:text-gray-500">-</span>;
+              return (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                  {value}
+                </span>
+              );
+            },
+          },
+          ...([
+            { key: 'expected_ctr', label: 'Expected CTR', format: (value: number) => formatMetricValue('ctr', value) },
+            { key: 'estimated_uplift', label: 'Est. Uplift', format: (value: number) => `+${value.toLocaleString()}` },
+          ]).map(({ key, label, format }) => ({
+            accessorKey: key,
+            sortUndefined: 'last',
+            header: ({ column }) => (
+              <button
+                className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+              >
+                <span>{label}</span>
+                {column.getIsSorted() === 'asc' ? <span className="ml-1">🔼</span> : column.getIsSorted() === 'desc' ? <span className="ml-1">🔽</span> : ''}
+              </button>
+            ),
+            cell: info => {
+              const value = info.getValue<number | undefined>();
+              return value === undefined ? '-' : format(value);
+            },
+          } as ColumnDef<ReportRow>)),
+        ]
+      : [];
+
+    return [
+      ...trendColumns,
+      ...inspectionColumns,
+      ...dimensionColumns,
+      ...segmentColumns,
+      ...statusColumns,
+      ...metricWithChangeColumns,
+      ...opportunityColumns,
       {
         accessorKey: 'intent',
         header: 'Intent',
@@ -292,7 +727,46 @@ function ReportResultsContent() {
         cell: info => <span className="text-xs text-gray-600 dark:text-gray-400">{info.getValue<string>() || 'N/A'}</span>,
       },
     ];
-  }, [reportData, intents]);
+  }, [reportData, dimensions, isComparison, selectedPages, hasOpportunities, hasBrandSegments, calculatedByKey, getMetricLabel]);
+
+  // Columns included in CSV and Sheets exports, in order
+  const exportColumns = useMemo<{ header: string; key: string }[]>(() => {
+    if (!reportData?.request) return [];
+    const metrics = reportData.request.metrics || [];
+    return [
+      ...dimensions.map(dimension => ({ header: getDimensionLabel(dimension), key: dimension })),
+      ...(hasBrandSegments ? [{ header: 'Segment', key: 'brand_segment' }] : []),
+      ...(reportData.clusters ? [{ header: 'Cluster', key: 'cluster' }] : []),
+      ...(hasFirstSeen ? [{ header: 'First Seen', key: 'first_seen' }] : []),
+      ...metrics.map(metric => ({ header: getMetricLabel(metric), key: metric })),
+      ...(isComparison
+        ? [
+            { header: 'Status', key: 'status' },
+            ...metrics.flatMap(metric => [
+              { header: `${getMetricLabel(metric)} (previous)`, key: `${metric}_previous` },
+              { header: `${getMetricLabel(metric)} change`, key: `${metric}_change` },
+              { header: `${getMetricLabel(metric)} change %`, key: `${metric}_change_pct` },
+            ]),
+          ]
+        : []),
+      ...(hasOpportunities
+        ? [
+            { header: 'Opportunity', key: 'opportunity' },
+            { header: 'Expected CTR', key: 'expected_ctr' },
+            { header: 'Est. Uplift', key: 'estimated_uplift' },
+          ]
+        : []),
+      // Only include intent columns if intent data exists
+      ...(intents.length > 0
+        ? [
+            { header: 'Intent', key: 'intent' },
+            { header: 'Category', key: 'category' },
+            { header: 'Funnel Stage', key: 'funnel_stage' },
+            { header: 'Main Keywords', key: 'main_keywords' },
+          ]
+        : []),
+    ];
+  }, [reportData, dimensions, isComparison, intents, hasOpportunities, hasBrandSegments, hasFirstSeen, getMetricLabel]);
 
   // TanStack Table instance
   const table = useReactTable({
@@ -325,7 +799,10 @@ function ReportResultsContent() {
       setRateLimitInfo(null);
       setIsLoadingIntents(true);
       
-      const visibleQueries = reportData.data.slice(0, 100).map(row => row.keys[0]);
+      // With multiple dimensions the same query can appear on several rows
+      const visibleQueries = Array.from(new Set(
+        tableData.map(row => row.query).filter((query): query is string => !!query)
+      )).slice(0, 100);
       
       const intentResponse = await fetch(`/api/gemini/report-intents?reportId=${reportId}`);
       
@@ -393,80 +870,144 @@ function ReportResultsContent() {
     }
   };
   
+  // Shows analyses added to the report and saves them with the stored one. Returns false if saving failed.
+  const saveReportChanges = async (changes: Partial<ReportData>): Promise<boolean> => {
+    setReportData(current => current && { ...current, ...changes });
+
+    if (!reportId) return true;
+    const saveResponse = await fetch('/api/reports/save', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ changes, reportId }),
+    });
+    return saveResponse.ok;
+  };
+
+  // Finds opportunities in the report rows and saves them with the report
+  const handleFindOpportunities = async () => {
+    if (!reportData) return;
+
+    setIsFindingOpportunities(true);
+    setOpportunitiesError(null);
+    try {
+      const opportunities = findOpportunities(reportData.data);
+      if (!opportunities) {
+        throw new Error('Not enough clicks across positions to fit a CTR curve for this report.');
+      }
+
+      if (!await saveReportChanges({ opportunities })) {
+        throw new Error('Opportunities were found but could not be saved with the report.');
+      }
+    } catch (err: unknown) {
+      console.error('Error finding opportunities:', err);
+      setOpportunitiesError(err instanceof Error ? err.message : 'Failed to find opportunities');
+    } finally {
+      setIsFindingOpportunities(false);
+    }
+  };
+
+  // Groups the report's queries into topic clusters and saves them with the report
+  const handleClusterQueries = async () => {
+    if (!reportData) return;
+
+    setIsClustering(true);
+    setClusteringError(null);
+    try {
+      // Let the spinner render before the (synchronous) clustering starts
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const clusters = clusterQueries(queryMetrics);
+      setViewMode('clusters');
+      if (!await saveReportChanges({ clusters })) {
+        throw new Error('Queries were clustered but the clusters could not be saved with the report.');
+      }
+    } catch (err: unknown) {
+      console.error('Error clustering queries:', err);
+      setClusteringError(err instanceof Error ? err.message : 'Failed to cluster queries');
+    } finally {
+      setIsClustering(false);
+    }
+  };
+
+  // Saves merged or renamed clusters
+  const handleClustersChange = async (clusters: QueryClustering) => {
+    if (!reportData) return;
+
+    setClusteringError(null);
+    try {
+      if (!await saveReportChanges({ clusters })) {
+        throw new Error('Your cluster changes could not be saved with the report.');
+      }
+    } catch (err: unknown) {
+      console.error('Error saving clusters:', err);
+      setClusteringError(err instanceof Error ? err.message : 'Failed to save clusters');
+    }
+  };
+
+  // Value of a row for a CSV export column
+  const getCsvValue = (row: ReportRow, key: string): unknown => {
+    const value = row[key as keyof ReportRow];
+    // Calculated metrics stay empty where the formula has no value
+    if (isCalculatedMetricKey(key)) return value ?? '';
+    if (reportData?.request.metrics.includes(key)) return value || 0;
+    if (key === 'main_keywords') return ((value as string[] | undefined) || []).join(', ');
+    if (['intent', 'category', 'funnel_stage'].includes(key)) return value || 'Unknown';
+    return value ?? '';
+  };
+
+  // Export file names carry today's date in the user's timezone
+  const getExportDate = () => getToday(reportData?.request.displayTimezone ?? DEFAULT_DISPLAY_TIMEZONE);
+  
   const handleExportCSVWithIntents = () => {
     if (!reportData || intents.length === 0) return;
     
-    const headers = [
-      'Query',
-      ...reportData.request.metrics,
-      'Intent',
-      'Category',
-      'Funnel Stage',
-      'Main Keywords'
-    ];
+    const headers = exportColumns.map(column => column.header);
+    const rows = tableData.map(row => exportColumns.map(column => getCsvValue(row, column.key)));
     
-    const rows = reportData.data.map(row => {
-      const query = row.keys[0];
-      const intentData = intents.find(i => i.query === query);
-      
-      return [
-        `"${query.replace(/"/g, '""')}"`,
-        ...reportData.request.metrics.map(metric => row[metric] || 0),
-        intentData?.intent || 'Unknown',
-        intentData?.category || 'Unknown',
-        intentData?.funnel_stage || 'Unknown',
-        `"${(intentData?.main_keywords || []).join(', ')}"`
-      ];
-    });
-    
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `gsc-report-with-intents-${new Date().toISOString().slice(0, 10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(`gsc-report-with-intents-${getExportDate()}.csv`, headers, rows);
   };
   
   const handleExportCSV = () => {
     if (!reportData) return;
     
-    const headers = ['Query', ...reportData.request.metrics];
-    const rows = reportData.data.map(row => [
-      `"${row.keys[0].replace(/"/g, '""')}"`,
-      ...reportData.request.metrics.map(metric => row[metric] || 0)
-    ]);
-    
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
+    const headers = exportColumns.map(column => column.header);
+    const rows = tableData.map(row => exportColumns.map(column => getCsvValue(row, column.key)));
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `gsc-report-${new Date().toISOString().slice(0, 10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(`gsc-report-${getExportDate()}.csv`, headers, rows);
   };
   
-  // Calculate summary totals
+  // Calculate summary totals, split into branded and non-branded when the site has brand rules
   const summaryTotals = useMemo(() => {
-    if (!reportData?.data) return { totalClicks: 0, totalImpressions: 0 };
-    return reportData.data.reduce((acc, row) => {
-      acc.totalClicks += row.clicks || 0;
-      acc.totalImpressions += row.impressions || 0;
-      return acc;
-    }, { totalClicks: 0, totalImpressions: 0 });
-  }, [reportData]);
+    const totals = {
+      totalClicks: 0,
+      totalImpressions: 0,
+      segments: null as Record<BrandSegment, { clicks: number; impressions: number; ctr: number }> | null,
+    };
+    if (!reportData?.data) return totals;
+
+    const segments: Record<BrandSegment, { clicks: number; impressions: number; ctr: number }> = {
+      branded: { clicks: 0, impressions: 0, ctr: 0 },
+      non_branded: { clicks: 0, impressions: 0, ctr: 0 },
+    };
+    reportData.data.forEach(row => {
+      totals.totalClicks += row.clicks || 0;
+      totals.totalImpressions += row.impressions || 0;
+      const query = mapRowKeys(row.keys, dimensions).query;
+      if (isBrandedQuery && query !== undefined) {
+        const segment = segments[getBrandSegment(query, isBrandedQuery)];
+        segment.clicks += row.clicks || 0;
+        segment.impressions += row.impressions || 0;
+      }
+    });
+    if (isBrandedQuery) {
+      Object.values(segments).forEach(segment => {
+        segment.ctr = segment.impressions > 0 ? segment.clicks / segment.impressions : 0;
+      });
+      totals.segments = segments;
+    }
+    return totals;
+  }, [reportData, dimensions, isBrandedQuery]);
   
   // --- Handler for Exporting to Google Sheets ---
   const handleExportToSheets = async () => {
@@ -484,17 +1025,14 @@ function ReportResultsContent() {
       
       // --- Define Headers Explicitly --- 
       // Order matters! Must match the desired sheet output.
-      const explicitHeaders = [
-          'Query', 
-          ...(reportData.request.metrics || []), // Include dynamic metrics
-          // Only include intent headers if intent data exists
-          ...(intents.length > 0 ? ['Intent', 'Category', 'Funnel Stage', 'Main Keywords'] : []) 
-      ];
+      const explicitHeaders = exportColumns.map(column => column.header);
+      // Row keys matching each header, so the export doesn't have to guess from the header text
+      const exportKeys = exportColumns.map(column => column.key);
 
       // Use the currently filtered and sorted rows from the table instance for export
       const rowsToExport = table.getRowModel().rows.map(row => row.original); 
       
-      const reportTitle = `GSC Report - ${reportData.request.siteUrl} - ${new Date().toISOString().slice(0, 10)}`;
+      const reportTitle = `GSC Report - ${reportData.request.siteUrl} - ${getExportDate()}`;
 
       // 2. Call the backend API endpoint
       console.log('[handleExportToSheets] Sending headers:', explicitHeaders);
@@ -506,6 +1044,7 @@ function ReportResultsContent() {
         body: JSON.stringify({ 
             reportTitle,
             headers: explicitHeaders, // <-- Send the clean headers
+            keys: exportKeys,
             rows: rowsToExport 
          }),
       });
@@ -621,9 +1160,30 @@ function ReportResultsContent() {
             </h1>
             {reportData.request && (
                <p className="text-gray-500 dark:text-gray-400 mt-1">
-                 For site: <span className="font-medium text-gray-700 dark:text-gray-300">{reportData.request.siteUrl}</span> | Date Range: <span className="font-medium text-gray-700 dark:text-gray-300">{reportData.request.timeRange.startDate} to {reportData.request.timeRange.endDate}</span>
+                 For site: <span className="font-medium text-gray-700 dark:text-gray-300">{reportData.request.siteUrl}</span> | Date Range: <span className="font-medium text-gray-700 dark:text-gray-300">{formatCalendarDate(reportData.request.timeRange.startDate)} to {formatCalendarDate(reportData.request.timeRange.endDate)}</span> ({GSC_TIMEZONE_LABEL}) | Search Type: <span className="font-medium text-gray-700 dark:text-gray-300">{getSearchTypeOption(reportData.request.searchType || 'web')?.label}</span>
+                 {reportData.request.comparison && (
+                   <> | Compared to: <span className="font-medium text-gray-700 dark:text-gray-300">{formatCalendarDate(reportData.request.comparison.startDate)} to {formatCalendarDate(reportData.request.comparison.endDate)}</span> ({COMPARISON_MODES.find(m => m.value === reportData.request.comparison?.mode)?.label.toLowerCase()})</>
+                 )}
+                 {reportData.request.generatedAt && (
+                   <> | Generated: <span className="font-medium text-gray-700 dark:text-gray-300">{formatTimestamp(reportData.request.generatedAt, reportData.request.displayTimezone)}</span></>
+                 )}
                </p>
             )}
+            {reportData.truncated && (
+               <div className="mt-3 p-3 bg-yellow-100 dark:bg-yellow-900/50 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm flex items-center">
+                 <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                 <span>This report reached the limit of {(reportData.request?.maxRows ?? reportData.data.length).toLocaleString()} rows per range. Add filters or narrow the date range to see the rest.{reportData.request?.comparison ? ' Rows missing from a range because of the limit are marked Unknown rather than New, or left out rather than shown as Lost.' : ''}</span>
+               </div>
+            )}
+            {reportData.request?.filters && reportData.request.filters.length > 0 && (
+               <div className="flex flex-wrap gap-2 mt-2">
+                 {reportData.request.filters.map((filter, index) => (
+                   <span key={index} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                     {filter.dimension} {FILTER_OPERATORS.find(o => o.value === filter.operator)?.label.toLowerCase()} &quot;{filter.expression}&quot;
+                   </span>
+                 ))}
+               </div>
+            )}
           </div>
 
           {/* Action Buttons & Notices */}
@@ -632,7 +1192,8 @@ function ReportResultsContent() {
                 {/* Analyze Intents Button */}
                 <button
                    onClick={handleAnalyzeIntents}
-                   disabled={isLoadingIntents || isAnalyzingIntents || !reportData?.data?.length}
+                   disabled={isLoadingIntents || isAnalyzingIntents || !reportData?.data?.length || !hasQueryDimension}
+                   title={hasQueryDimension ? undefined : 'Intent analysis requires the Query dimension'}
                    className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out"
                 >
                    {isAnalyzingIntents ? (
@@ -643,6 +1204,51 @@ function ReportResultsContent() {
                    {isAnalyzingIntents ? 'Analyzing...' : intents.length > 0 ? 'Re-Analyze Intents with AI' : 'Analyze Intents with AI'}
                 </button>
 
+                {/* Opportunities Button */}
+                <button
+                   onClick={handleFindOpportunities}
+                   disabled={isFindingOpportunities || !reportData?.data?.length || !hasQueryDimension}
+                   title={hasQueryDimension ? 'Striking-distance queries and queries with a CTR below the expected CTR for their position' : 'Opportunities require the Query dimension'}
+                   className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out"
+                >
+                   {isFindingOpportunities ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Target className="mr-2 h-4 w-4" />}
+                   {hasOpportunities ? 'Refresh Opportunities' : 'Find Opportunities'}
+                </button>
+
+                {/* Query Clustering Button */}
+                <button
+                   onClick={handleClusterQueries}
+                   disabled={isClustering || !reportData?.data?.length || !hasQueryDimension}
+                   title={hasQueryDimension ? 'Group similar queries into topics' : 'Clustering requires the Query dimension'}
+                   className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out"
+                >
+                   {isClustering ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Layers className="mr-2 h-4 w-4" />}
+                   {reportData.clusters ? 'Re-cluster Queries' : 'Cluster Queries'}
+                </button>
+
+                {/* Trend Chart Toggle */}
+                <button
+                   onClick={() => setShowTrend(prev => !prev)}
+                   disabled={!reportData?.data?.length}
+                   className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out"
+                >
+                   <LineChart className="mr-2 h-4 w-4" />
+                   {showTrend ? 'Hide Trend' : 'Show Trend'}
+                </button>
+
+                {/* URL Inspection for the selected pages */}
+                {dimensions.includes('page') && (
+                  <button
+                     onClick={() => setInspectionUrls(selectedPages)}
+                     disabled={selectedPages.length === 0}
+                     title={`Select up to ${MAX_INSPECTION_BATCH} pages in the table`}
+                     className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out"
+                  >
+                     <ScanSearch className="mr-2 h-4 w-4" />
+                     Inspect Selected ({selectedPages.length})
+                  </button>
+                )}
+
                 {/* Export Buttons */} 
                 <button
                    onClick={intents.length > 0 ? handleExportCSVWithIntents : handleExportCSV}
@@ -675,6 +1281,18 @@ function ReportResultsContent() {
                  <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
                  <span>{intentsError}</span>
               </div>
+          )}
+          {clusteringError && (
+              <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+                 <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+                 <span>{clusteringError}</span>
+              </div>
+          )}
+          {opportunitiesError && (
+              <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+                 <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+                 <span>{opportunitiesError}</span>
+              </div>
           )}
            {/* Google Sheets Export Status */}
            {exportSheetError && (
@@ -693,107 +1311,246 @@ function ReportResultsContent() {
              </div>
            )}
 
-          {/* TanStack Table */}
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-              <thead className="bg-gray-50 dark:bg-slate-700">
-                {table.getHeaderGroups().map(headerGroup => (
-                  <tr key={headerGroup.id}>
-                    {headerGroup.headers.map(header => (
-                      <th
-                        key={header.id}
-                        scope="col"
-                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
-                      >
-                        {header.isPlaceholder
-                          ? null
-                          : flexRender(
-                              header.column.columnDef.header,
-                              header.getContext()
-                            )}
-                      </th>
-                    ))}
-                  </tr>
-                ))}
-              </thead>
-              <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {table.getRowModel().rows.map(row => (
-                  <tr key={row.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors duration-150">
-                    {row.getVisibleCells().map(cell => (
-                      <td key={cell.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-                 {table.getRowModel().rows.length === 0 && (
-                    <tr>
-                       <td colSpan={columns.length} className="text-center py-10 text-gray-500 dark:text-gray-400">
-                          No data available for this report.
-                       </td>
-                    </tr>
-                 )}
-              </tbody>
-            </table>
-          </div>
+          {/* Trend Chart */}
+          {showTrend && (
+            <TrendPanel
+              siteUrl={reportData.request.siteUrl}
+              startDate={reportData.request.timeRange.startDate}
+              endDate={reportData.request.timeRange.endDate}
+              filters={reportData.request.filters || []}
+              searchType={reportData.request.searchType || 'web'}
+              focus={trendFocus}
+              onClearFocus={() => setTrendFocus([])}
+            />
+          )}
 
-           {/* Pagination Controls */}
-           <div className="py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 mt-4">
-              <div className="flex-1 flex justify-between sm:hidden">
-                 <button
-                    onClick={() => table.previousPage()}
-                    disabled={!table.getCanPreviousPage()}
-                    className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
-                 >
-                    Previous
-                 </button>
-                 <button
-                    onClick={() => table.nextPage()}
-                    disabled={!table.getCanNextPage()}
-                    className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
-                 >
-                    Next
-                 </button>
+          {/* URL Inspection results */}
+          {inspectionUrls && inspectionUrls.length > 0 && (
+            <UrlInspectionPanel
+              siteUrl={reportData.request.siteUrl}
+              urls={inspectionUrls}
+              onClose={() => setInspectionUrls(null)}
+            />
+          )}
+
+          {/* New / lost row filter for comparison reports */}
+          {isComparison && (
+            <div className="mb-4 flex items-center gap-2 text-sm">
+              <span className="text-gray-500 dark:text-gray-400">Show:</span>
+              {([
+                { value: undefined, label: 'All rows' },
+                { value: 'new', label: 'New' },
+                { value: 'lost', label: 'Lost' },
+                { value: 'existing', label: 'In both periods' },
+                ...(reportData.truncated ? [{ value: 'unknown', label: 'Unknown' }] : []),
+              ] as { value: ComparisonStatus | undefined; label: string }[]).map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => table.getColumn('status')?.setFilterValue(option.value)}
+                  className={`px-3 py-1 rounded-md border transition-colors ${
+                    table.getColumn('status')?.getFilterValue() === option.value
+                      ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Branded / non-branded totals and filter */}
+          {summaryTotals.segments && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-4 text-sm">
+              <div className="flex flex-wrap gap-6">
+                {(Object.keys(summaryTotals.segments) as BrandSegment[]).map(segment => {
+                  const totals = summaryTotals.segments![segment];
+                  return (
+                    <div key={segment} className="text-gray-600 dark:text-gray-400">
+                      <span className="font-medium text-gray-800 dark:text-gray-200">{BRAND_SEGMENT_LABELS[segment]}:</span>{' '}
+                      {totals.clicks.toLocaleString()} clicks
+                      {summaryTotals.totalClicks > 0 && ` (${((totals.clicks / summaryTotals.totalClicks) * 100).toFixed(1)}%)`}
+                      {' · '}{totals.impressions.toLocaleString()} impressions
+                      {' · '}CTR {formatMetricValue('ctr', totals.ctr)}
+                    </div>
+                  );
+                })}
               </div>
-              <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-                 <div>
-                    <p className="text-sm text-gray-700 dark:text-gray-400">
-                       Showing <span className="font-medium">{table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1}</span>
-                       {' '}to{' '}
-                       <span className="font-medium">{Math.min((table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize, table.getFilteredRowModel().rows.length)}</span>
-                       {' '}of{' '}
-                       <span className="font-medium">{table.getFilteredRowModel().rows.length}</span> results
-                    </p>
-                 </div>
-                 <div>
-                    <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
-                       <button
-                          onClick={() => table.previousPage()}
-                          disabled={!table.getCanPreviousPage()}
-                          className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
-                       >
-                          <span className="sr-only">Previous</span>
-                          {/* Heroicon name: solid/chevron-left */}
-                          <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                             <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
-                          </svg>
-                       </button>
-                       {/* Current page indicator could be added here if needed */}
-                       <button
-                          onClick={() => table.nextPage()}
-                          disabled={!table.getCanNextPage()}
-                          className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
-                       >
-                          <span className="sr-only">Next</span>
-                          {/* Heroicon name: solid/chevron-right */}
-                          <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                             <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
-                          </svg>
-                       </button>
-                    </nav>
-                 </div>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-500 dark:text-gray-400">Show:</span>
+                {[undefined, BRAND_SEGMENT_LABELS.branded, BRAND_SEGMENT_LABELS.non_branded].map(value => (
+                  <button
+                    key={value ?? 'all'}
+                    onClick={() => table.getColumn('brand_segment')?.setFilterValue(value)}
+                    className={`px-3 py-1 rounded-md border transition-colors ${
+                      table.getColumn('brand_segment')?.getFilterValue() === value
+                        ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                    }`}
+                  >
+                    {value ?? 'All queries'}
+                  </button>
+                ))}
               </div>
-           </div>
+            </div>
+          )}
+
+          {/* Opportunities summary and filter */}
+          {reportData.opportunities && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">
+                {reportData.opportunities.opportunities.length.toLocaleString()} opportunities worth an estimated{' '}
+                <span className="font-medium text-gray-800 dark:text-gray-200">
+                  +{reportData.opportunities.opportunities.reduce((sum, o) => sum + o.estimatedUplift, 0).toLocaleString()} clicks
+                </span>
+                {' '}(expected CTR at position 1: {formatMetricValue('ctr', getExpectedCtr(reportData.opportunities.curve, 1))})
+              </span>
+              <label className="inline-flex items-center text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!table.getColumn('opportunity')?.getFilterValue()}
+                  onChange={(e) => table.getColumn('opportunity')?.setFilterValue(e.target.checked || undefined)}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+                />
+                Opportunities only
+              </label>
+            </div>
+          )}
+
+          {/* Rows / clusters view toggle */}
+          {reportData.clusters && (
+            <div className="mb-4 flex items-center gap-2 text-sm">
+              <span className="text-gray-500 dark:text-gray-400">View:</span>
+              {([
+                { value: 'rows', label: 'Rows' },
+                { value: 'clusters', label: 'Clusters' },
+              ] as { value: 'rows' | 'clusters'; label: string }[]).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setViewMode(option.value)}
+                  className={`px-3 py-1 rounded-md border transition-colors ${
+                    viewMode === option.value
+                      ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {viewMode === 'clusters' && reportData.clusters ? (
+            <ClusterView
+              clustering={reportData.clusters}
+              queries={queryMetrics}
+              onChange={handleClustersChange}
+            />
+          ) : (
+            <>
+              {/* TanStack Table */}
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-slate-700">
+                    {table.getHeaderGroups().map(headerGroup => (
+                      <tr key={headerGroup.id}>
+                        {headerGroup.headers.map(header => (
+                          <th
+                            key={header.id}
+                            scope="col"
+                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                          >
+                            {header.isPlaceholder
+                              ? null
+                              : flexRender(
+                                  header.column.columnDef.header,
+                                  header.getContext()
+                                )}
+                          </th>
+                        ))}
+                      </tr>
+                    ))}
+                  </thead>
+                  <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {table.getRowModel().rows.map(row => (
+                      <tr key={row.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors duration-150">
+                        {row.getVisibleCells().map(cell => (
+                          <td key={cell.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                     {table.getRowModel().rows.length === 0 && (
+                        <tr>
+                           <td colSpan={columns.length} className="text-center py-10 text-gray-500 dark:text-gray-400">
+                              No data available for this report.
+                           </td>
+                        </tr>
+                     )}
+                  </tbody>
+                </table>
+              </div>
+
+               {/* Pagination Controls */}
+               <div className="py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 mt-4">
+                  <div className="flex-1 flex justify-between sm:hidden">
+                     <button
+                        onClick={() => table.previousPage()}
+                        disabled={!table.getCanPreviousPage()}
+                        className="relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
+                     >
+                        Previous
+                     </button>
+                     <button
+                        onClick={() => table.nextPage()}
+                        disabled={!table.getCanNextPage()}
+                        className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
+                     >
+                        Next
+                     </button>
+                  </div>
+                  <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
+                     <div>
+                        <p className="text-sm text-gray-700 dark:text-gray-400">
+                           Showing <span className="font-medium">{table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1}</span>
+                           {' '}to{' '}
+                           <span className="font-medium">{Math.min((table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize, table.getFilteredRowModel().rows.length)}</span>
+                           {' '}of{' '}
+                           <span className="font-medium">{table.getFilteredRowModel().rows.length}</span> results
+                        </p>
+                     </div>
+                     <div>
+                        <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
+                           <button
+                              onClick={() => table.previousPage()}
+                              disabled={!table.getCanPreviousPage()}
+                              className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
+                           >
+                              <span className="sr-only">Previous</span>
+                              {/* Heroicon name: solid/chevron-left */}
+                              <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                                 <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
+                              </svg>
+                           </button>
+                           {/* Current page indicator could be added here if needed */}
+                           <button
+                              onClick={() => table.nextPage()}
+                              disabled={!table.getCanNextPage()}
+                              className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 text-sm font-medium text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-600 disabled:opacity-50"
+                           >
+                              <span className="sr-only">Next</span>
+                              {/* Heroicon name: solid/chevron-right */}
+                              <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                                 <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                              </svg>
+                           </button>
+                        </nav>
+                     </div>
+                  </div>
+               </div>
+            </>
+          )}
         </motion.div>
       </AnimatedPageWrapper>
     </div>
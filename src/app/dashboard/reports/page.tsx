@@ -14,6 +14,7 @@ interface Report {
   reportId: string;
   siteUrl: string;
   dateRange: string; // Assuming this is pre-formatted string like "Last 7 Days" or "Jan 1 - Jan 7"
+  type: 'query' | 'decay';
   created_at: string;
 }
 
@@ -23,6 +24,11 @@ interface UserProfile {
   avatar?: string;
 }
 
+// Saved content decay reports open on the site's decay page
+const getReportHref = (report: Report) => report.type === 'decay'
+  ? `/dashboard/site/decay?url=${encodeURIComponent(report.siteUrl)}&reportId=${report.reportId}`
+  : `/dashboard/report-results?reportId=${report.reportId}`;
+
 export default function ReportListPage() {
   const router = useRouter();
   const [reports, setReports] = useState<Report[]>([]);
@@ -224,13 +230,18 @@ export default function ReportListPage() {
                     variants={{ hidden: { opacity: 0, y: 10 }, show: { opacity: 1, y: 0 } }}
                   >
                     <Link
-                      href={`/dashboard/report-results?reportId=${report.reportId}`}
+                      href={getReportHref(report)}
                       className="block hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors duration-150"
                     >
                       <div className="px-4 py-4 sm:px-6">
                         <div className="flex items-center justify-between">
                           <p className="text-sm font-medium text-blue-600 dark:text-blue-400 truncate">
                             {report.siteUrl}
+                            {report.type === 'decay' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+                                Content Decay
+                              </span>
+                            )}
                           </p>
                           <div className="ml-2 flex-shrink-0 flex">
                             <p className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
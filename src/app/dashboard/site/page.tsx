@@ -8,8 +8,26 @@ import { Loader2, AlertTriangle, ArrowLeft } from 'lucide-react';
 
 import { ReportBuilderProvider } from '@/context/ReportBuilderContext';
 import { ReportBuilder } from '@/components/ReportBuilder/ReportBuilder';
+import { SitemapsManager } from '@/components/Sitemaps/SitemapsManager';
+import { CannibalizationAnalysis } from '@/components/Analysis/CannibalizationAnalysis';
+import { QueryLifecycleAnalysis } from '@/components/Analysis/QueryLifecycleAnalysis';
+import { ForecastAnalysis } from '@/components/Analysis/ForecastAnalysis';
+import { BrandRulesSettings } from '@/components/Brand/BrandRulesSettings';
 import AnimatedPageWrapper from '@/components/ui/AnimatedPageWrapper';
 import DashboardHeader from '@/components/ui/DashboardHeader';
+import { getPermissionLabel } from '@/lib/permissions';
+import { PermissionLevel } from '@/lib/types';
+
+type SiteTab = 'report' | 'forecast' | 'cannibalization' | 'lifecycle' | 'sitemaps' | 'brand';
+
+const SITE_TABS: { value: SiteTab; label: string }[] = [
+  { value: 'report', label: 'Report Builder' },
+  { value: 'forecast', label: 'Forecast' },
+  { value: 'cannibalization', label: 'Cannibalization' },
+  { value: 'lifecycle', label: 'Query Lifecycle' },
+  { value: 'sitemaps', label: 'Sitemaps' },
+  { value: 'brand', label: 'Brand Terms' },
+];
 
 type UserProfile = {
   name: string;
@@ -26,6 +44,8 @@ function SiteDashboardContent() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [permissionLevel, setPermissionLevel] = useState<PermissionLevel | null>(null);
+  const [activeTab, setActiveTab] = useState<SiteTab>('report');
 
   useEffect(() => {
     if (!siteUrl) {
@@ -50,8 +70,13 @@ function SiteDashboardContent() {
         const profileData = await profileResponse.json();
         setUserProfile(profileData);
 
-        // No need to explicitly save selected site here if API call is robust
-        // The primary action is displaying the builder for the given siteUrl
+        // Check the user can actually use this property in Search Console
+        const propertyResponse = await fetch(`/api/gsc/property?siteUrl=${encodeURIComponent(siteUrl)}`);
+        const propertyData = await propertyResponse.json();
+        if (!propertyResponse.ok) {
+          throw new Error(propertyData.error || 'Failed to load property');
+        }
+        setPermissionLevel(propertyData.permissionLevel);
 
       } catch (err: any) {
         console.error("Site Dashboard fetch error:", err);
@@ -152,6 +177,11 @@ function SiteDashboardContent() {
            className="text-2xl font-bold tracking-tight text-gray-900 dark:text-white mb-4 truncate"
          >
            Report Builder: <span className="font-medium text-gray-700 dark:text-gray-300">{siteUrl}</span>
+           {permissionLevel && (
+             <span className="ml-3 align-middle inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+               {getPermissionLabel(permissionLevel)}
+             </span>
+           )}
          </motion.h1>
 
          {error && userProfile && (
@@ -166,16 +196,55 @@ function SiteDashboardContent() {
            </motion.div>
          )}
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-          className="bg-white dark:bg-gray-800 shadow-xl rounded-lg p-6 md:p-8 border border-gray-200 dark:border-gray-700"
-        >
-          <ReportBuilderProvider siteUrl={siteUrl}>
-            <ReportBuilder siteUrl={siteUrl} />
-          </ReportBuilderProvider>
-        </motion.div>
+        {/* The builder needs a property the user has access to */}
+        {permissionLevel && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-white dark:bg-gray-800 shadow-xl rounded-lg p-6 md:p-8 border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex space-x-6 border-b border-gray-200 dark:border-gray-700 mb-6">
+              {SITE_TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => setActiveTab(tab.value)}
+                  className={`pb-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+                    activeTab === tab.value
+                      ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+              {/* Landing pages and content decay have their own routes */}
+              <Link
+                href={`/dashboard/site/pages?url=${encodeURIComponent(siteUrl)}`}
+                className="pb-2 -mb-px text-sm font-medium border-b-2 border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+              >
+                Landing Pages
+              </Link>
+              <Link
+                href={`/dashboard/site/decay?url=${encodeURIComponent(siteUrl)}`}
+                className="pb-2 -mb-px text-sm font-medium border-b-2 border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+              >
+                Content Decay
+              </Link>
+            </div>
+
+            {activeTab === 'report' && (
+              <ReportBuilderProvider siteUrl={siteUrl}>
+                <ReportBuilder siteUrl={siteUrl} />
+              </ReportBuilderProvider>
+            )}
+            {activeTab === 'forecast' && <ForecastAnalysis siteUrl={siteUrl} />}
+            {activeTab === 'cannibalization' && <CannibalizationAnalysis siteUrl={siteUrl} />}
+            {activeTab === 'lifecycle' && <QueryLifecycleAnalysis siteUrl={siteUrl} />}
+            {activeTab === 'sitemaps' && <SitemapsManager siteUrl={siteUrl} />}
+            {activeTab === 'brand' && <BrandRulesSettings siteUrl={siteUrl} />}
+          </motion.div>
+        )}
       </AnimatedPageWrapper>
     </div>
   );
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Download, Sheet, CheckCircle, XCircle } from 'lucide-react';
+import { downloadCsv } from '@/lib/csv';
+import { toCalendarDate } from '@/lib/date-ranges';
+import { ExportColumn, exportRowsToSheet } from '@/lib/sheets-export';
+
+interface AnalysisExportButtonsProps {
+  // Used for the CSV file name, e.g. "cannibalization"
+  name: string;
+  // Title of the exported Google Sheet
+  reportTitle: string;
+  columns: ExportColumn[];
+  rows: Record<string, unknown>[];
+}
+
+const buttonClasses = "inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150 ease-in-out";
+
+export const AnalysisExportButtons: React.FC<AnalysisExportButtonsProps> = ({ name, reportTitle, columns, rows }) => {
+  const [isExportingSheet, setIsExportingSheet] = useState(false);
+  const [exportSheetError, setExportSheetError] = useState<string | null>(null);
+  const [exportSheetSuccessUrl, setExportSheetSuccessUrl] = useState<string | null>(null);
+
+  const handleExportCSV = () => {
+    downloadCsv(
+      `gsc-${name}-${toCalendarDate(new Date())}.csv`,
+      columns.map(column => column.header),
+      rows.map(row => columns.map(column => row[column.key]))
+    );
+  };
+
+  const handleExportToSheets = async () => {
+    setIsExportingSheet(true);
+    setExportSheetError(null);
+    setExportSheetSuccessUrl(null);
+    try {
+      setExportSheetSuccessUrl(await exportRowsToSheet(reportTitle, columns, rows));
+    } catch (err: unknown) {
+      console.error('Error exporting to Google Sheets:', err);
+      setExportSheetError(err instanceof Error ? err.message : 'An unknown error occurred during export.');
+    } finally {
+      setIsExportingSheet(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleExportCSV} disabled={rows.length === 0} className={buttonClasses}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </button>
+        <button onClick={handleExportToSheets} disabled={isExportingSheet || rows.length === 0} className={buttonClasses}>
+          {isExportingSheet ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sheet className="mr-2 h-4 w-4" />}
+          {isExportingSheet ? 'Exporting...' : 'Export to Google Sheet'}
+        </button>
+      </div>
+
+      {exportSheetError && (
+        <div className="mt-3 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <XCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>Sheets Export Failed: {exportSheetError}</span>
+        </div>
+      )}
+      {exportSheetSuccessUrl && (
+        <div className="mt-3 p-3 bg-green-100 dark:bg-green-900/50 border border-green-300 dark:border-green-700 rounded-md text-green-700 dark:text-green-300 text-sm flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>Successfully exported to Google Sheets!</span>
+          <a href={exportSheetSuccessUrl} target="_blank" rel="noopener noreferrer" className="ml-2 font-medium underline hover:text-green-600 dark:hover:text-green-200">
+            Open Sheet
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, ChevronDown, ChevronRight, Play } from 'lucide-react';
+import { SearchType } from '@/lib/types';
+import { SEARCH_TYPES } from '@/lib/search-types';
+import { getRecentApiRange } from '@/lib/date-ranges';
+import {
+  CannibalizationFinding,
+  DEFAULT_CANNIBALIZATION_OPTIONS,
+  flattenCannibalization,
+} from '@/lib/analysis/cannibalization';
+import { ExportColumn } from '@/lib/sheets-export';
+import { AnalysisExportButtons } from './AnalysisExportButtons';
+
+interface CannibalizationAnalysisProps {
+  siteUrl: string;
+}
+
+const RANGE_OPTIONS = [
+  { days: 28, label: 'Last 28 days' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 180, label: 'Last 6 months' },
+];
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Query', key: 'query' },
+  { header: 'Page', key: 'page' },
+  { header: 'Clicks', key: 'clicks' },
+  { header: 'Impressions', key: 'impressions' },
+  { header: 'CTR', key: 'ctr' },
+  { header: 'Position', key: 'position' },
+  { header: 'Click Share %', key: 'click_share' },
+  { header: 'Impression Share %', key: 'impression_share' },
+  { header: 'Competing Pages', key: 'competing_pages' },
+];
+
+// Only query-level search types can be analyzed
+const QUERY_SEARCH_TYPES = SEARCH_TYPES.filter(option => !option.unsupportedDimensions.includes('query'));
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+export const CannibalizationAnalysis: React.FC<CannibalizationAnalysisProps> = ({ siteUrl }) => {
+  const [days, setDays] = useState(90);
+  const [searchType, setSearchType] = useState<SearchType>('web');
+  const [minImpressions, setMinImpressions] = useState(DEFAULT_CANNIBALIZATION_OPTIONS.minImpressions);
+  const [minSharePercent, setMinSharePercent] = useState(DEFAULT_CANNIBALIZATION_OPTIONS.minImpressionShare * 100);
+  const [findings, setFindings] = useState<CannibalizationFinding[] | null>(null);
+  const [range, setRange] = useState<{ startDate: string; endDate: string } | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const recentRange = getRecentApiRange(days);
+      const response = await fetch('/api/gsc/analysis/cannibalization', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          siteUrl,
+          ...recentRange,
+          searchType,
+          minImpressions,
+          minImpressionShare: minSharePercent / 100,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.status === 'queued'
+          ? `${result.error} Try again in ${result.retryAfter}s.`
+          : result.error || 'Failed to run the analysis');
+      }
+      setFindings(result.findings || []);
+      setTruncated(!!result.truncated);
+      setRange(recentRange);
+      setExpanded([]);
+    } catch (err: unknown) {
+      console.error('Error detecting keyword cannibalization:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run the analysis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleExpanded = (query: string) => {
+    setExpanded(prev => prev.includes(query) ? prev.filter(q => q !== query) : [...prev, query]);
+  };
+
+  const exportRows = useMemo(() => flattenCannibalization(findings || []), [findings]);
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Keyword Cannibalization</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Queries where two or more of your pages get meaningful impressions or clicks, with each page&apos;s share.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Date range</span>
+          <select className={inputClasses} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Search type</span>
+          <select className={inputClasses} value={searchType} onChange={(e) => setSearchType(e.target.value as SearchType)}>
+            {QUERY_SEARCH_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Min. impressions per page</span>
+          <input
+            type="number"
+            min={0}
+            className={`${inputClasses} w-32`}
+            value={minImpressions}
+            onChange={(e) => setMinImpressions(Math.max(0, Number(e.target.value)))}
+          />
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Min. impression share %</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className={`${inputClasses} w-32`}
+            value={minSharePercent}
+            onChange={(e) => setMinSharePercent(Math.min(100, Math.max(0, Number(e.target.value))))}
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {isLoading ? 'Analyzing...' : 'Run Analysis'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {findings && range && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {findings.length.toLocaleString()} {findings.length === 1 ? 'query has' : 'queries have'} competing pages between {range.startDate} and {range.endDate}.
+            </p>
+            <AnalysisExportButtons
+              name="cannibalization"
+              reportTitle={`GSC Cannibalization - ${siteUrl} - ${range.startDate} to ${range.endDate}`}
+              columns={EXPORT_COLUMNS}
+              rows={exportRows}
+            />
+          </div>
+
+          {truncated && (
+            <div className="mb-4 p-3 bg-yellow-100 dark:bg-yellow-900/50 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              <span>The analysis reached the row limit, so low-traffic queries may be missing. Narrow the date range to see them.</span>
+            </div>
+          )}
+
+          {findings.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Query', 'Pages', 'Clicks', 'Impressions', 'Avg. Position'].map(header => (
+                      <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {findings.map(finding => {
+                    const isExpanded = expanded.includes(finding.query);
+                    return (
+                      <React.Fragment key={finding.query}>
+                        <tr
+                          onClick={() => toggleExpanded(finding.query)}
+                          className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                        >
+                          <td className="px-3 py-2 text-gray-900 dark:text-gray-200">
+                            <span className="inline-flex items-center">
+                              {isExpanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                              {finding.query}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{finding.pages.length}</td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{finding.clicks.toLocaleString()}</td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{finding.impressions.toLocaleString()}</td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{finding.position.toFixed(1)}</td>
+                        </tr>
+                        {isExpanded && finding.pages.map(page => (
+                          <tr key={page.page} className="bg-gray-50 dark:bg-gray-900/40">
+                            <td className="pl-9 pr-3 py-2 max-w-md truncate text-gray-700 dark:text-gray-300" title={page.page}>
+                              {page.page}
+                            </td>
+                            <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                              <div className="w-24 h-2 rounded-full bg-gray-200 dark:bg-gray-700" title={`${formatShare(page.impressionShare)} of impressions`}>
+                                <div className="h-2 rounded-full bg-blue-500" style={{ width: formatShare(page.impressionShare) }} />
+                              </div>
+                            </td>
+                            <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                              {page.clicks.toLocaleString()} <span className="text-xs text-gray-500">({formatShare(page.clickShare)})</span>
+                            </td>
+                            <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                              {page.impressions.toLocaleString()} <span className="text-xs text-gray-500">({formatShare(page.impressionShare)})</span>
+                            </td>
+                            <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{page.position.toFixed(1)}</td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
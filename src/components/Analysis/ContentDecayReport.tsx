@@ -0,0 +1,325 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, ChevronDown, ChevronRight, Play, RefreshCw } from 'lucide-react';
+import { SearchType } from '@/lib/types';
+import { SEARCH_TYPES } from '@/lib/search-types';
+import {
+  DECAY_CAUSE_LABELS,
+  DecayCause,
+  DecayReport,
+  DEFAULT_DECAY_OPTIONS,
+  flattenDecay,
+} from '@/lib/analysis/decay';
+import { ExportColumn } from '@/lib/sheets-export';
+import { AnalysisExportButtons } from './AnalysisExportButtons';
+
+interface ContentDecayReportProps {
+  siteUrl: string;
+  // Saved decay report to show, if any
+  reportId: string | null;
+  // Called with the id each new run is saved under
+  onReportSaved: (reportId: string) => void;
+}
+
+const MONTH_OPTIONS = [6, 9, 12, 16];
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Page', key: 'page' },
+  { header: 'Earlier Clicks / Window', key: 'earlier_clicks' },
+  { header: 'Recent Clicks / Window', key: 'recent_clicks' },
+  { header: 'Clicks Lost / Window', key: 'clicks_lost' },
+  { header: 'Decline %', key: 'decline_pct' },
+  { header: 'Trend', key: 'trend' },
+  { header: 'Top Losing Query', key: 'top_query' },
+  { header: 'Query Clicks Lost / Window', key: 'top_query_clicks_lost' },
+  { header: 'Query Position Change', key: 'top_query_position_change' },
+  { header: 'Query Cause', key: 'top_query_cause' },
+];
+
+const CAUSE_COLORS: Record<DecayCause, string> = {
+  position: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  ctr: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  demand: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  lost: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+};
+
+const formatClicks = (clicks: number) => Math.round(clicks).toLocaleString();
+
+// Clicks per window as small bars, oldest first
+const WindowBars: React.FC<{ clicks: number[] }> = ({ clicks }) => {
+  const max = Math.max(...clicks, 1);
+  return (
+    <span className="inline-flex items-end h-6 gap-px" title={clicks.map(formatClicks).join(' → ')}>
+      {clicks.map((value, index) => (
+        <span
+          key={index}
+          className="w-1.5 bg-blue-400 dark:bg-blue-500 rounded-sm"
+          style={{ height: `${Math.max(4, (value / max) * 100)}%` }}
+        />
+      ))}
+    </span>
+  );
+};
+
+export const ContentDecayReport: React.FC<ContentDecayReportProps> = ({ siteUrl, reportId, onReportSaved }) => {
+  const [months, setMonths] = useState(DEFAULT_DECAY_OPTIONS.months);
+  const [searchType, setSearchType] = useState<SearchType>('web');
+  const [report, setReport] = useState<DecayReport | null>(null);
+  const [loadedReportId, setLoadedReportId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Loads a saved report, unless it's the run that was just saved
+  useEffect(() => {
+    if (!reportId || reportId === loadedReportId) return;
+
+    const loadReport = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/reports/get?reportId=${reportId}`);
+        const result = await response.json();
+        if (!response.ok || !result.report) {
+          throw new Error(result.error || 'Failed to load the saved report');
+        }
+        if (result.report.data?.type !== 'decay') {
+          throw new Error('This saved report is not a content decay report');
+        }
+        const saved: DecayReport = result.report.data;
+        setReport(saved);
+        setMonths(saved.request.options.months);
+        setSearchType(saved.request.searchType);
+        setLoadedReportId(reportId);
+      } catch (err: unknown) {
+        console.error('Error loading decay report:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the saved report');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [reportId, loadedReportId]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gsc/analysis/decay', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          siteUrl,
+          searchType,
+          // A re-run keeps the saved report's thresholds
+          options: { ...report?.request.options, months },
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.status === 'queued'
+          ? `${result.error} Try again in ${result.retryAfter}s.`
+          : result.error || 'Failed to run the content decay analysis');
+      }
+      setReport(result);
+      setExpanded([]);
+
+      // Every run is saved as a new report, so earlier runs stay around to compare
+      const newReportId = Date.now().toString();
+      const saveResponse = await fetch('/api/reports/save', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reportData: result, reportId: newReportId }),
+      });
+      if (saveResponse.ok) {
+        setLoadedReportId(newReportId);
+        onReportSaved(newReportId);
+      } else {
+        console.error('Failed to save decay report');
+      }
+    } catch (err: unknown) {
+      console.error('Error running content decay analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run the content decay analysis');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const exportRows = useMemo(() => flattenDecay(report?.pages ?? []), [report]);
+  const totalClicksLost = useMemo(() => (report?.pages ?? []).reduce((sum, page) => sum + page.clicksLost, 0), [report]);
+
+  const toggleExpanded = (page: string) => {
+    setExpanded(prev => prev.includes(page) ? prev.filter(p => p !== page) : [...prev, page]);
+  };
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+  const headerClasses = "px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+  const cellClasses = "px-3 py-2 text-gray-700 dark:text-gray-300";
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading saved report...
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Look back</span>
+          <select className={inputClasses} value={months} onChange={(e) => setMonths(Number(e.target.value))}>
+            {MONTH_OPTIONS.map(option => (
+              <option key={option} value={option}>Last {option} months</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Search type</span>
+          <select className={inputClasses} value={searchType} onChange={(e) => setSearchType(e.target.value as SearchType)}>
+            {SEARCH_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : report ? <RefreshCw className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+          {isRunning ? 'Analyzing...' : report ? 'Re-run Analysis' : 'Run Analysis'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {report.pages.length.toLocaleString()} of {report.pagesAnalyzed.toLocaleString()} pages are decaying between {report.request.timeRange.startDate} and {report.request.timeRange.endDate},
+              losing {formatClicks(totalClicksLost)} clicks per {report.request.options.windowDays} days in total.
+              Queries compare {report.earlierRange.startDate} – {report.earlierRange.endDate} with {report.recentRange.startDate} – {report.recentRange.endDate}.
+            </p>
+            <AnalysisExportButtons
+              name="content-decay"
+              reportTitle={`GSC Content Decay - ${siteUrl} - ${report.request.timeRange.startDate} to ${report.request.timeRange.endDate}`}
+              columns={EXPORT_COLUMNS}
+              rows={exportRows}
+            />
+          </div>
+
+          {report.truncated && (
+            <div className="mb-4 p-3 bg-yellow-100 dark:bg-yellow-900/50 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              <span>The analysis reached the row limit, so low-traffic pages or queries may be missing. A shorter look-back covers more of them.</span>
+            </div>
+          )}
+
+          {report.pages.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No page has lost clicks steadily over this period.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Page', 'Clicks Over Time', 'Earlier', 'Recent', 'Clicks Lost', 'Decline'].map(header => (
+                      <th key={header} className={headerClasses}>{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {report.pages.map(page => {
+                    const isExpanded = expanded.includes(page.page);
+                    return (
+                      <React.Fragment key={page.page}>
+                        <tr
+                          onClick={() => report.hasQueries && toggleExpanded(page.page)}
+                          className={report.hasQueries ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50' : ''}
+                        >
+                          <td className="px-3 py-2 max-w-md text-gray-900 dark:text-gray-200">
+                            <span className="flex items-center">
+                              {report.hasQueries && (isExpanded ? <ChevronDown className="w-4 h-4 mr-1 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 mr-1 flex-shrink-0" />)}
+                              <span className="truncate" title={page.page}>{page.page}</span>
+                            </span>
+                          </td>
+                          <td className={cellClasses}><WindowBars clicks={page.windowClicks} /></td>
+                          <td className={cellClasses}>{formatClicks(page.earlierClicks)}</td>
+                          <td className={cellClasses}>{formatClicks(page.recentClicks)}</td>
+                          <td className="px-3 py-2 font-medium text-red-600 dark:text-red-400">-{formatClicks(page.clicksLost)}</td>
+                          <td className={cellClasses}>{(page.decline * 100).toFixed(0)}%</td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-gray-50 dark:bg-gray-900/40">
+                            <td colSpan={6} className="pl-9 pr-3 py-3">
+                              {page.queries.length === 0 ? (
+                                <p className="text-gray-500 dark:text-gray-400">No query lost clicks on this page; its searches may be anonymized.</p>
+                              ) : (
+                                <table className="min-w-full text-sm">
+                                  <thead>
+                                    <tr>
+                                      {['Query', 'Clicks', 'Position', 'CTR', 'Cause'].map(header => (
+                                        <th key={header} className="pr-4 pb-1 text-left text-xs font-medium text-gray-500 dark:text-gray-400">{header}</th>
+                                      ))}
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {page.queries.map(query => (
+                                      <tr key={query.query} className="text-gray-700 dark:text-gray-300">
+                                        <td className="pr-4 py-1">{query.query}</td>
+                                        <td className="pr-4 py-1 whitespace-nowrap">
+                                          {formatClicks(query.earlier.clicks)} → {query.recent ? formatClicks(query.recent.clicks) : 0}
+                                        </td>
+                                        <td className="pr-4 py-1 whitespace-nowrap">
+                                          {query.earlier.position.toFixed(1)} → {query.recent ? query.recent.position.toFixed(1) : '-'}
+                                        </td>
+                                        <td className="pr-4 py-1 whitespace-nowrap">
+                                          {(query.earlier.ctr * 100).toFixed(2)}% → {query.recent ? `${(query.recent.ctr * 100).toFixed(2)}%` : '-'}
+                                        </td>
+                                        <td className="py-1">
+                                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${CAUSE_COLORS[query.cause]}`}>
+                                            {DECAY_CAUSE_LABELS[query.cause]}
+                                          </span>
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                Clicks are per {report.request.options.windowDays} days. Earlier is the first half of the period, recent its last windows.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
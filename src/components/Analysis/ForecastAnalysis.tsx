@@ -0,0 +1,345 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, AlertTriangle, Play } from 'lucide-react';
+import { DimensionFilter, FilterDimension, FilterOperator, SearchType } from '@/lib/types';
+import { SEARCH_TYPES } from '@/lib/search-types';
+import { FILTER_DIMENSIONS, FILTER_OPERATORS } from '@/lib/filters';
+import {
+  DEFAULT_FORECAST_HORIZON,
+  flattenForecast,
+  FORECAST_HORIZONS,
+  ForecastMetric,
+  sumForecast,
+} from '@/lib/analysis/forecast';
+import type { ForecastWithActuals, SavedForecast } from '@/lib/forecasts';
+import { ExportColumn } from '@/lib/sheets-export';
+import { AnalysisExportButtons } from './AnalysisExportButtons';
+import { ForecastChart } from './ForecastChart';
+
+interface ForecastAnalysisProps {
+  siteUrl: string;
+}
+
+// A whole property, a segment of it, or a set of queries
+type ForecastScope = 'property' | 'segment' | 'queries';
+
+const SCOPE_OPTIONS: { value: ForecastScope; label: string }[] = [
+  { value: 'property', label: 'Whole property' },
+  { value: 'segment', label: 'Segment' },
+  { value: 'queries', label: 'Set of queries' },
+];
+
+const METRIC_LABELS: Record<ForecastMetric, string> = {
+  clicks: 'Clicks',
+  impressions: 'Impressions',
+};
+
+// Segments are pages, countries or devices; queries have their own scope
+const SEGMENT_DIMENSIONS = FILTER_DIMENSIONS.filter(d => d.value === 'page' || d.value === 'country' || d.value === 'device');
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Date', key: 'date' },
+  { header: 'Clicks Forecast', key: 'clicks_forecast' },
+  { header: 'Clicks Lower 80%', key: 'clicks_lower_80' },
+  { header: 'Clicks Upper 80%', key: 'clicks_upper_80' },
+  { header: 'Clicks Lower 95%', key: 'clicks_lower_95' },
+  { header: 'Clicks Upper 95%', key: 'clicks_upper_95' },
+  { header: 'Actual Clicks', key: 'clicks_actual' },
+  { header: 'Impressions Forecast', key: 'impressions_forecast' },
+  { header: 'Impressions Lower 80%', key: 'impressions_lower_80' },
+  { header: 'Impressions Upper 80%', key: 'impressions_upper_80' },
+  { header: 'Impressions Lower 95%', key: 'impressions_lower_95' },
+  { header: 'Impressions Upper 95%', key: 'impressions_upper_95' },
+  { header: 'Actual Impressions', key: 'impressions_actual' },
+];
+
+const formatNumber = (value: number) => Math.round(value).toLocaleString();
+
+// Short description of what a forecast covers, for the saved forecasts list
+const describeScope = (forecast: SavedForecast) => forecast.filters.length === 0
+  ? 'Whole property'
+  : forecast.filters.map(f => `${f.dimension} ${FILTER_OPERATORS.find(o => o.value === f.operator)?.label.toLowerCase() ?? f.operator} "${f.expression}"`).join(', ');
+
+export const ForecastAnalysis: React.FC<ForecastAnalysisProps> = ({ siteUrl }) => {
+  const [scope, setScope] = useState<ForecastScope>('property');
+  const [segmentDimension, setSegmentDimension] = useState<FilterDimension>('page');
+  const [operator, setOperator] = useState<FilterOperator>('contains');
+  const [expression, setExpression] = useState('');
+  const [horizonDays, setHorizonDays] = useState(DEFAULT_FORECAST_HORIZON);
+  const [searchType, setSearchType] = useState<SearchType>('web');
+  const [name, setName] = useState('');
+  const [savedForecasts, setSavedForecasts] = useState<SavedForecast[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [result, setResult] = useState<ForecastWithActuals | null>(null);
+  const [metric, setMetric] = useState<ForecastMetric>('clicks');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedForecasts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/gsc/analysis/forecast?siteUrl=${encodeURIComponent(siteUrl)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load saved forecasts');
+      }
+      setSavedForecasts(data.forecasts || []);
+    } catch (err: unknown) {
+      console.error('Error loading saved forecasts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved forecasts');
+    }
+  }, [siteUrl]);
+
+  useEffect(() => {
+    loadSavedForecasts();
+  }, [loadSavedForecasts]);
+
+  // Saved forecasts are reloaded with the actual data that has come in since
+  const handleOpen = async (id: string) => {
+    setSelectedId(id);
+    if (!id) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/gsc/analysis/forecast?siteUrl=${encodeURIComponent(siteUrl)}&id=${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.status === 'queued'
+          ? `${data.error} Try again in ${data.retryAfter}s.`
+          : data.error || 'Failed to load the forecast');
+      }
+      setResult(data);
+    } catch (err: unknown) {
+      console.error('Error loading forecast:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the forecast');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const filters: Omit<DimensionFilter, 'id'>[] = scope === 'property'
+        ? []
+        : [{ dimension: scope === 'queries' ? 'query' : segmentDimension, operator, expression: expression.trim() }];
+
+      const response = await fetch('/api/gsc/analysis/forecast', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          siteUrl,
+          horizonDays,
+          filters: filters.map((filter, i) => ({ id: String(i), ...filter })),
+          searchType,
+          name: name.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.status === 'queued'
+          ? `${data.error} Try again in ${data.retryAfter}s.`
+          : data.error || 'Failed to create the forecast');
+      }
+      setResult(data);
+      setSelectedId(data.forecast.id);
+      setSavedForecasts(previous => [data.forecast, ...previous]);
+    } catch (err: unknown) {
+      console.error('Error creating forecast:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the forecast');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const exportRows = useMemo(
+    () => (result ? flattenForecast(result.forecast.metrics, result.actuals) : []),
+    [result]
+  );
+
+  const points = result?.forecast.metrics[metric].points ?? [];
+  const accuracy = result?.accuracy[metric];
+  // Totals for each standard horizon the forecast reaches
+  const totals = FORECAST_HORIZONS
+    .filter(days => days <= points.length)
+    .map(days => ({ days, ...sumForecast(points, days) }));
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Forecast</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Projects daily clicks and impressions with a seasonal (Holt-Winters) model fitted on the last 16 months.
+          Forecasts are saved, so you can come back and check them against what actually happened.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Forecast</span>
+          <select className={inputClasses} value={scope} onChange={(e) => setScope(e.target.value as ForecastScope)}>
+            {SCOPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {scope !== 'property' && (
+          <>
+            {scope === 'segment' && (
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                <span className="block mb-1">Dimension</span>
+                <select className={inputClasses} value={segmentDimension} onChange={(e) => setSegmentDimension(e.target.value as FilterDimension)}>
+                  {SEGMENT_DIMENSIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="block mb-1">{scope === 'queries' ? 'Queries that' : 'Match'}</span>
+              <select className={inputClasses} value={operator} onChange={(e) => setOperator(e.target.value as FilterOperator)}>
+                {FILTER_OPERATORS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="block mb-1">Expression</span>
+              <input
+                type="text"
+                className={`${inputClasses} w-56`}
+                placeholder={scope === 'queries' ? 'e.g. pricing|cost' : 'e.g. /blog/'}
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+              />
+            </label>
+          </>
+        )}
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Horizon</span>
+          <select className={inputClasses} value={horizonDays} onChange={(e) => setHorizonDays(Number(e.target.value))}>
+            {FORECAST_HORIZONS.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Search type</span>
+          <select className={inputClasses} value={searchType} onChange={(e) => setSearchType(e.target.value as SearchType)}>
+            {SEARCH_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Name (optional)</span>
+          <input
+            type="text"
+            maxLength={100}
+            className={`${inputClasses} w-48`}
+            placeholder="e.g. Q3 plan"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isLoading || (scope !== 'property' && !expression.trim())}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {isLoading ? 'Forecasting...' : 'Forecast'}
+        </button>
+      </div>
+
+      {savedForecasts.length > 0 && (
+        <div className="mb-6">
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Saved forecasts</span>
+            <select className={`${inputClasses} min-w-[20rem]`} value={selectedId} onChange={(e) => handleOpen(e.target.value)}>
+              <option value="">Open a saved forecast...</option>
+              {savedForecasts.map(forecast => (
+                <option key={forecast.id} value={forecast.id}>
+                  {forecast.name ? `${forecast.name}: ` : ''}{describeScope(forecast)}, {forecast.horizonDays} days from {forecast.historyEnd}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-2 text-sm">
+              {(Object.keys(METRIC_LABELS) as ForecastMetric[]).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setMetric(value)}
+                  className={`px-3 py-1 rounded-md border transition-colors ${
+                    metric === value
+                      ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {METRIC_LABELS[value]}
+                </button>
+              ))}
+            </div>
+            <AnalysisExportButtons
+              name="forecast"
+              reportTitle={`GSC Forecast - ${siteUrl} - ${describeScope(result.forecast)} - ${result.forecast.horizonDays} days from ${result.forecast.historyEnd}`}
+              columns={EXPORT_COLUMNS}
+              rows={exportRows}
+            />
+          </div>
+
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {describeScope(result.forecast)}, fitted on {result.forecast.historyStart} to {result.forecast.historyEnd}
+            {' '}(made {format(parseISO(result.forecast.createdAt), 'MMM d, yyyy')}). Shaded bands are the 80% and 95% confidence ranges.
+          </p>
+
+          <ForecastChart actuals={result.actuals[metric]} forecast={points} formatValue={formatNumber} />
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6">
+            {totals.map(total => (
+              <div key={total.days} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                <p className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">Next {total.days} days</p>
+                <p className="mt-1 text-xl font-semibold text-gray-900 dark:text-gray-200">{formatNumber(total.value)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {METRIC_LABELS[metric].toLowerCase()}, 80% range {formatNumber(total.lower80)} to {formatNumber(total.upper80)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {accuracy && accuracy.days > 0 && (
+            <div className="mt-6 p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-700 dark:text-gray-300">
+              <p className="font-medium text-gray-900 dark:text-gray-200 mb-1">Forecast vs actual ({accuracy.days} days of final data)</p>
+              <p>
+                Forecast {formatNumber(accuracy.forecastTotal)} {METRIC_LABELS[metric].toLowerCase()}, actual {formatNumber(accuracy.actualTotal)}
+                {accuracy.forecastTotal > 0 && ` (${accuracy.actualTotal >= accuracy.forecastTotal ? '+' : ''}${(((accuracy.actualTotal - accuracy.forecastTotal) / accuracy.forecastTotal) * 100).toFixed(1)}%)`}.
+                {accuracy.mape !== null && ` Average daily error ${(accuracy.mape * 100).toFixed(1)}%.`}
+                {' '}{(accuracy.within80 * 100).toFixed(0)}% of days fell inside the 80% band and {(accuracy.within95 * 100).toFixed(0)}% inside the 95% band.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ForecastActualPoint, ForecastPoint } from '@/lib/analysis/forecast';
+
+interface ForecastChartProps {
+  actuals: ForecastActualPoint[];
+  forecast: ForecastPoint[];
+  formatValue: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+/**
+ * SVG chart of actual daily values with a forecast line and its 80% and 95%
+ * confidence bands. Actual values that came in after the forecast was made
+ * are drawn over it, so the two can be compared.
+ */
+export const ForecastChart: React.FC<ForecastChartProps> = ({ actuals, forecast, formatValue, height = 280 }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const dates = Array.from(new Set([...actuals.map(p => p.date), ...forecast.map(p => p.date)])).sort();
+  if (dates.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ height }}>
+        No data to chart.
+      </div>
+    );
+  }
+
+  const indexByDate = new Map(dates.map((date, index) => [date, index]));
+  const actualByDate = new Map(actuals.map(p => [p.date, p.value]));
+  const forecastByDate = new Map(forecast.map(p => [p.date, p]));
+
+  const values = [...actuals.map(p => p.value), ...forecast.map(p => p.upper95), ...forecast.map(p => p.lower95)];
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (dates.length === 1 ? plotWidth / 2 : (index / (dates.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - min) / span) * plotHeight;
+  const xOf = (date: string) => x(indexByDate.get(date)!);
+
+  const linePath = (points: { date: string; value: number }[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xOf(p.date).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  // Upper bound left to right, then the lower bound back
+  const bandPath = (lower: keyof ForecastPoint, upper: keyof ForecastPoint) => [
+    ...forecast.map(p => `${xOf(p.date).toFixed(1)},${y(p[upper] as number).toFixed(1)}`),
+    ...[...forecast].reverse().map(p => `${xOf(p.date).toFixed(1)},${y(p[lower] as number).toFixed(1)}`),
+  ].join(' ');
+
+  const labelIndexes = Array.from(new Set([0, Math.floor((dates.length - 1) / 2), dates.length - 1]));
+  const forecastStart = forecast.length > 0 ? xOf(forecast[0].date) : null;
+
+  // Map the mouse position to the nearest day
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (svgX - PADDING.left) / plotWidth;
+    const index = Math.round(ratio * (dates.length - 1));
+    setHoverIndex(Math.max(0, Math.min(dates.length - 1, index)));
+  };
+
+  const hoveredDate = hoverIndex !== null ? dates[hoverIndex] : null;
+  const hoveredActual = hoveredDate ? actualByDate.get(hoveredDate) : undefined;
+  const hoveredForecast = hoveredDate ? forecastByDate.get(hoveredDate) : undefined;
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full text-blue-600 dark:text-blue-400"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Y axis labels: top and bottom of the range */}
+        <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[11px]">
+          {formatValue(max)}
+        </text>
+        <text x={PADDING.left - 8} y={PADDING.top + plotHeight} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[11px]">
+          {formatValue(min)}
+        </text>
+        <line
+          x1={PADDING.left} x2={WIDTH - PADDING.right}
+          y1={PADDING.top + plotHeight} y2={PADDING.top + plotHeight}
+          className="stroke-gray-200 dark:stroke-gray-700"
+        />
+
+        {/* X axis labels */}
+        {labelIndexes.map(index => (
+          <text
+            key={index}
+            x={x(index)}
+            y={height - 8}
+            textAnchor={index === 0 ? 'start' : index === dates.length - 1 ? 'end' : 'middle'}
+            className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+          >
+            {format(parseISO(dates[index]), 'MMM d, yyyy')}
+          </text>
+        ))}
+
+        {forecast.length > 0 && (
+          <g className="text-violet-500 dark:text-violet-400">
+            <polygon points={bandPath('lower95', 'upper95')} fill="currentColor" fillOpacity={0.12} />
+            <polygon points={bandPath('lower80', 'upper80')} fill="currentColor" fillOpacity={0.2} />
+            <path d={linePath(forecast)} fill="none" stroke="currentColor" strokeWidth={2} strokeDasharray="6 4" />
+          </g>
+        )}
+
+        {forecastStart !== null && (
+          <line
+            x1={forecastStart} x2={forecastStart}
+            y1={PADDING.top} y2={PADDING.top + plotHeight}
+            className="stroke-gray-300 dark:stroke-gray-600"
+          />
+        )}
+
+        <path d={linePath(actuals)} fill="none" stroke="currentColor" strokeWidth={2} />
+
+        {hoverIndex !== null && (
+          <>
+            <line
+              x1={x(hoverIndex)} x2={x(hoverIndex)}
+              y1={PADDING.top} y2={PADDING.top + plotHeight}
+              className="stroke-gray-300 dark:stroke-gray-600"
+              strokeDasharray="4 4"
+            />
+            {hoveredActual !== undefined && <circle cx={x(hoverIndex)} cy={y(hoveredActual)} r={4} fill="currentColor" />}
+            {hoveredForecast && (
+              <circle cx={x(hoverIndex)} cy={y(hoveredForecast.value)} r={4} className="fill-violet-500 dark:fill-violet-400" />
+            )}
+          </>
+        )}
+      </svg>
+
+      {hoveredDate && (
+        <div className="absolute top-0 right-0 px-2 py-1 rounded bg-black/80 dark:bg-gray-700 text-white text-xs shadow">
+          {format(parseISO(hoveredDate), 'MMM d, yyyy')}
+          {hoveredActual !== undefined && <>: <span className="font-medium">{formatValue(hoveredActual)}</span> actual</>}
+          {hoveredForecast && (
+            <>
+              {hoveredActual !== undefined ? ', ' : ': '}
+              <span className="font-medium">{formatValue(hoveredForecast.value)}</span> forecast
+              ({formatValue(hoveredForecast.lower80)} to {formatValue(hoveredForecast.upper80)})
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
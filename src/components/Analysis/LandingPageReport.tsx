@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, ChevronDown, ChevronRight, Play } from 'lucide-react';
+import { SearchType } from '@/lib/types';
+import { SEARCH_TYPES } from '@/lib/search-types';
+import { getRecentApiRange } from '@/lib/date-ranges';
+import { flattenLandingPages, LandingPage, rollupContentGroups } from '@/lib/analysis/landing-pages';
+import { ExportColumn } from '@/lib/sheets-export';
+import { AnalysisExportButtons } from './AnalysisExportButtons';
+
+interface LandingPageReportProps {
+  siteUrl: string;
+}
+
+type ReportView = 'pages' | 'groups';
+
+const RANGE_OPTIONS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 28, label: 'Last 28 days' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 180, label: 'Last 6 months' },
+];
+
+const PAGE_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Page', key: 'page' },
+  { header: 'Content Group', key: 'content_group' },
+  { header: 'Clicks', key: 'clicks' },
+  { header: 'Impressions', key: 'impressions' },
+  { header: 'CTR', key: 'ctr' },
+  { header: 'Position', key: 'position' },
+  { header: 'Queries', key: 'queries' },
+  { header: 'Top Query', key: 'top_query' },
+  { header: 'Top Query Click Share %', key: 'top_query_click_share' },
+];
+
+const GROUP_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Content Group', key: 'prefix' },
+  { header: 'Pages', key: 'pageCount' },
+  { header: 'Clicks', key: 'clicks' },
+  { header: 'Impressions', key: 'impressions' },
+  { header: 'CTR', key: 'ctr' },
+  { header: 'Position', key: 'position' },
+];
+
+// Pages rendered at once; large sites have tens of thousands
+const PAGE_SIZE = 100;
+
+const formatCtr = (ctr: number) => `${(ctr * 100).toFixed(2)}%`;
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+export const LandingPageReport: React.FC<LandingPageReportProps> = ({ siteUrl }) => {
+  const [days, setDays] = useState(28);
+  const [searchType, setSearchType] = useState<SearchType>('web');
+  const [pages, setPages] = useState<LandingPage[] | null>(null);
+  const [hasQueries, setHasQueries] = useState(true);
+  const [range, setRange] = useState<{ startDate: string; endDate: string } | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [view, setView] = useState<ReportView>('pages');
+  const [groupDepth, setGroupDepth] = useState(1);
+  const [pageFilter, setPageFilter] = useState('');
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const recentRange = getRecentApiRange(days);
+      const response = await fetch('/api/gsc/analysis/landing-pages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          siteUrl,
+          ...recentRange,
+          searchType,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.status === 'queued'
+          ? `${result.error} Try again in ${result.retryAfter}s.`
+          : result.error || 'Failed to build the landing page report');
+      }
+      setPages(result.pages || []);
+      setHasQueries(!!result.hasQueries);
+      setTruncated(!!result.truncated);
+      setRange(recentRange);
+      setExpanded([]);
+      setVisibleCount(PAGE_SIZE);
+    } catch (err: unknown) {
+      console.error('Error building landing page report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to build the landing page report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredPages = useMemo(() => {
+    const needle = pageFilter.trim().toLowerCase();
+    return (pages || []).filter(page => !needle || page.page.toLowerCase().includes(needle));
+  }, [pages, pageFilter]);
+
+  const contentGroups = useMemo(() => rollupContentGroups(filteredPages, groupDepth), [filteredPages, groupDepth]);
+  const pageExportRows = useMemo(() => flattenLandingPages(filteredPages, groupDepth), [filteredPages, groupDepth]);
+  const groupExportRows = useMemo(() => contentGroups.map(group => ({ ...group })), [contentGroups]);
+
+  const toggleExpanded = (page: string) => {
+    setExpanded(prev => prev.includes(page) ? prev.filter(p => p !== page) : [...prev, page]);
+  };
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+  const headerClasses = "px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+  const cellClasses = "px-3 py-2 text-gray-700 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Date range</span>
+          <select className={inputClasses} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Search type</span>
+          <select className={inputClasses} value={searchType} onChange={(e) => setSearchType(e.target.value as SearchType)}>
+            {SEARCH_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isLoading}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {isLoading ? 'Loading...' : 'Run Report'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {pages && range && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {([
+                { value: 'pages', label: 'Pages' },
+                { value: 'groups', label: 'Content groups' },
+              ] as { value: ReportView; label: string }[]).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setView(option.value)}
+                  className={`px-3 py-1 rounded-md border transition-colors ${
+                    view === option.value
+                      ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <select
+                className={`${inputClasses} py-1`}
+                value={groupDepth}
+                onChange={(e) => setGroupDepth(Number(e.target.value))}
+                title="How many path segments make up a content group"
+              >
+                <option value={1}>Group by /section/</option>
+                <option value={2}>Group by /section/subsection/</option>
+              </select>
+              <input
+                type="text"
+                className={`${inputClasses} py-1 w-56`}
+                placeholder="Filter pages by URL"
+                value={pageFilter}
+                onChange={(e) => {
+                  setPageFilter(e.target.value);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+              />
+            </div>
+            <AnalysisExportButtons
+              name={view === 'pages' ? 'landing-pages' : 'content-groups'}
+              reportTitle={`GSC ${view === 'pages' ? 'Landing Pages' : 'Content Groups'} - ${siteUrl} - ${range.startDate} to ${range.endDate}`}
+              columns={view === 'pages' ? PAGE_EXPORT_COLUMNS : GROUP_EXPORT_COLUMNS}
+              rows={view === 'pages' ? pageExportRows : groupExportRows}
+            />
+          </div>
+
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {filteredPages.length.toLocaleString()} landing pages in {contentGroups.length.toLocaleString()} content groups between {range.startDate} and {range.endDate}.
+            {!hasQueries && ' This search type has no query data, so pages are shown without their top queries.'}
+          </p>
+
+          {truncated && (
+            <div className="mb-4 p-3 bg-yellow-100 dark:bg-yellow-900/50 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              <span>The report reached the row limit, so low-traffic pages or queries may be missing. Narrow the date range to see them.</span>
+            </div>
+          )}
+
+          {view === 'pages' ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Page', 'Clicks', 'Impressions', 'CTR', 'Avg. Position', 'Queries'].map(header => (
+                      <th key={header} className={headerClasses}>{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredPages.slice(0, visibleCount).map(page => {
+                    const isExpanded = expanded.includes(page.page);
+                    return (
+                      <React.Fragment key={page.page}>
+                        <tr
+                          onClick={() => hasQueries && toggleExpanded(page.page)}
+                          className={hasQueries ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50' : ''}
+                        >
+                          <td className="px-3 py-2 max-w-md text-gray-900 dark:text-gray-200">
+                            <span className="flex items-center">
+                              {hasQueries && (isExpanded ? <ChevronDown className="w-4 h-4 mr-1 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 mr-1 flex-shrink-0" />)}
+                              <span className="truncate" title={page.page}>{page.page}</span>
+                            </span>
+                          </td>
+                          <td className={cellClasses}>{page.clicks.toLocaleString()}</td>
+                          <td className={cellClasses}>{page.impressions.toLocaleString()}</td>
+                          <td className={cellClasses}>{formatCtr(page.ctr)}</td>
+                          <td className={cellClasses}>{page.position.toFixed(1)}</td>
+                          <td className={cellClasses}>{hasQueries ? page.queryCount.toLocaleString() : '-'}</td>
+                        </tr>
+                        {isExpanded && page.topQueries.map(query => (
+                          <tr key={query.query} className="bg-gray-50 dark:bg-gray-900/40">
+                            <td className="pl-9 pr-3 py-2 text-gray-700 dark:text-gray-300">
+                              <span className="flex items-center gap-3">
+                                <span className="w-16 h-2 flex-shrink-0 rounded-full bg-gray-200 dark:bg-gray-700" title={`${formatShare(query.clickShare)} of the page's clicks`}>
+                                  <span className="block h-2 rounded-full bg-blue-500" style={{ width: formatShare(query.clickShare) }} />
+                                </span>
+                                {query.query}
+                              </span>
+                            </td>
+                            <td className={cellClasses}>
+                              {query.clicks.toLocaleString()} <span className="text-xs text-gray-500">({formatShare(query.clickShare)})</span>
+                            </td>
+                            <td className={cellClasses}>{query.impressions.toLocaleString()}</td>
+                            <td className={cellClasses}>{formatCtr(query.ctr)}</td>
+                            <td className={cellClasses}>{query.position.toFixed(1)}</td>
+                            <td />
+                          </tr>
+                        ))}
+                        {isExpanded && page.topQueries.length === 0 && (
+                          <tr className="bg-gray-50 dark:bg-gray-900/40">
+                            <td colSpan={6} className="pl-9 pr-3 py-2 text-gray-500 dark:text-gray-400">
+                              No query data for this page; its searches may all be anonymized.
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {filteredPages.length > visibleCount && (
+                <div className="mt-3 text-center">
+                  <button
+                    onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Show more pages ({(filteredPages.length - visibleCount).toLocaleString()} left)
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Content Group', 'Pages', 'Clicks', 'Impressions', 'CTR', 'Avg. Position'].map(header => (
+                      <th key={header} className={headerClasses}>{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {contentGroups.map(group => (
+                    <tr key={group.prefix} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-3 py-2 font-medium text-gray-900 dark:text-gray-200">{group.prefix}</td>
+                      <td className={cellClasses}>{group.pageCount.toLocaleString()}</td>
+                      <td className={cellClasses}>{group.clicks.toLocaleString()}</td>
+                      <td className={cellClasses}>{group.impressions.toLocaleString()}</td>
+                      <td className={cellClasses}>{formatCtr(group.ctr)}</td>
+                      <td className={cellClasses}>{group.position.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
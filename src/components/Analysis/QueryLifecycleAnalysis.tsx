@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, Play } from 'lucide-react';
+import { SearchType } from '@/lib/types';
+import { SEARCH_TYPES } from '@/lib/search-types';
+import { getComparisonRange, getRecentApiRange, RelativeComparisonMode } from '@/lib/date-ranges';
+import {
+  DEFAULT_LIFECYCLE_OPTIONS,
+  flattenLifecycle,
+  LIFECYCLE_LABELS,
+  LIFECYCLE_STATUSES,
+  LifecycleStatus,
+  QueryLifecycle,
+} from '@/lib/analysis/lifecycle';
+import { ExportColumn } from '@/lib/sheets-export';
+import { AnalysisExportButtons } from './AnalysisExportButtons';
+
+interface QueryLifecycleAnalysisProps {
+  siteUrl: string;
+}
+
+type LifecycleSource = 'periods' | 'reports';
+
+interface SavedQueryReport {
+  reportId: string;
+  startDate: string;
+  endDate: string;
+  searchType: SearchType;
+  createdAt: string;
+}
+
+interface ComparedRange {
+  startDate: string;
+  endDate: string;
+}
+
+const RANGE_OPTIONS = [
+  { days: 28, label: 'Last 28 days' },
+  { days: 90, label: 'Last 3 months' },
+];
+
+const COMPARE_OPTIONS: { value: RelativeComparisonMode; label: string }[] = [
+  { value: 'previousPeriod', label: 'Previous period' },
+  { value: 'previousYear', label: 'Same period last year' },
+];
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Status', key: 'status' },
+  { header: 'Query', key: 'query' },
+  { header: 'Clicks', key: 'clicks' },
+  { header: 'Previous Clicks', key: 'previous_clicks' },
+  { header: 'Clicks Change', key: 'clicks_change' },
+  { header: 'Impressions', key: 'impressions' },
+  { header: 'Previous Impressions', key: 'previous_impressions' },
+  { header: 'Position', key: 'position' },
+  { header: 'Previous Position', key: 'previous_position' },
+  { header: 'Position Change', key: 'position_change' },
+];
+
+const STATUS_COLORS: Record<LifecycleStatus, string> = {
+  new: 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900 dark:border-green-700 dark:text-green-200',
+  lost: 'bg-red-100 border-red-300 text-red-800 dark:bg-red-900 dark:border-red-700 dark:text-red-200',
+  improved: 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200',
+  declined: 'bg-orange-100 border-orange-300 text-orange-800 dark:bg-orange-900 dark:border-orange-700 dark:text-orange-200',
+};
+
+// Only query-level search types can be analyzed
+const QUERY_SEARCH_TYPES = SEARCH_TYPES.filter(option => !option.unsupportedDimensions.includes('query'));
+
+// Rows rendered per list; long lists are exported rather than scrolled
+const MAX_VISIBLE_ROWS = 200;
+
+export const QueryLifecycleAnalysis: React.FC<QueryLifecycleAnalysisProps> = ({ siteUrl }) => {
+  const [source, setSource] = useState<LifecycleSource>('periods');
+  const [days, setDays] = useState(28);
+  const [compareMode, setCompareMode] = useState<RelativeComparisonMode>('previousPeriod');
+  const [searchType, setSearchType] = useState<SearchType>('web');
+  const [savedReports, setSavedReports] = useState<SavedQueryReport[]>([]);
+  const [reportId, setReportId] = useState('');
+  const [minImpressions, setMinImpressions] = useState(DEFAULT_LIFECYCLE_OPTIONS.minImpressions);
+  const [minPositionChange, setMinPositionChange] = useState(DEFAULT_LIFECYCLE_OPTIONS.minPositionChange);
+  const [lifecycle, setLifecycle] = useState<QueryLifecycle | null>(null);
+  const [compared, setCompared] = useState<{ current: ComparedRange; previous: ComparedRange } | null>(null);
+  const [activeStatus, setActiveStatus] = useState<LifecycleStatus>('new');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSavedReports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/gsc/analysis/lifecycle?siteUrl=${encodeURIComponent(siteUrl)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load saved reports');
+      }
+      setSavedReports(result.reports || []);
+      // The latest report is compared with the one before it by default
+      setReportId(result.reports?.[0]?.reportId ?? '');
+    } catch (err: unknown) {
+      console.error('Error loading saved query reports:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load saved reports');
+    }
+  }, [siteUrl]);
+
+  useEffect(() => {
+    if (source === 'reports') {
+      loadSavedReports();
+    }
+  }, [source, loadSavedReports]);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const options = { minImpressions, minPositionChange };
+      let body: Record<string, unknown>;
+      if (source === 'reports') {
+        body = { siteUrl, reportId, options };
+      } else {
+        const currentRange = getRecentApiRange(days);
+        const previousRange = getComparisonRange(compareMode, currentRange.startDate, currentRange.endDate);
+        body = {
+          siteUrl,
+          ...currentRange,
+          previousStartDate: previousRange.startDate,
+          previousEndDate: previousRange.endDate,
+          searchType,
+          options,
+        };
+      }
+
+      const response = await fetch('/api/gsc/analysis/lifecycle', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.status === 'queued'
+          ? `${result.error} Try again in ${result.retryAfter}s.`
+          : result.error || 'Failed to run the analysis');
+      }
+      setLifecycle(result.lifecycle);
+      setCompared({ current: result.current, previous: result.previous });
+    } catch (err: unknown) {
+      console.error('Error running query lifecycle analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run the analysis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const exportRows = useMemo(() => (lifecycle ? flattenLifecycle(lifecycle) : []), [lifecycle]);
+  const entries = lifecycle?.[activeStatus] ?? [];
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+  const headerClasses = "px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider";
+  const cellClasses = "px-3 py-2 text-gray-700 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Query Lifecycle</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Queries that appeared, disappeared, or moved up or down between two periods or two saved reports.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Compare</span>
+          <select className={inputClasses} value={source} onChange={(e) => setSource(e.target.value as LifecycleSource)}>
+            <option value="periods">Two periods</option>
+            <option value="reports">Saved reports</option>
+          </select>
+        </label>
+        {source === 'periods' ? (
+          <>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="block mb-1">Date range</span>
+              <select className={inputClasses} value={days} onChange={(e) => setDays(Number(e.target.value))}>
+                {RANGE_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="block mb-1">Compared with</span>
+              <select className={inputClasses} value={compareMode} onChange={(e) => setCompareMode(e.target.value as RelativeComparisonMode)}>
+                {COMPARE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="block mb-1">Search type</span>
+              <select className={inputClasses} value={searchType} onChange={(e) => setSearchType(e.target.value as SearchType)}>
+                {QUERY_SEARCH_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        ) : (
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Report (compared with the one saved before it)</span>
+            <select className={`${inputClasses} min-w-[16rem]`} value={reportId} onChange={(e) => setReportId(e.target.value)}>
+              {savedReports.length === 0 && <option value="">No saved query reports</option>}
+              {savedReports.map(report => (
+                <option key={report.reportId} value={report.reportId}>
+                  {report.startDate} to {report.endDate} (saved {new Date(report.createdAt).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Min. impressions</span>
+          <input
+            type="number"
+            min={0}
+            className={`${inputClasses} w-24`}
+            value={minImpressions}
+            onChange={(e) => setMinImpressions(Number(e.target.value))}
+          />
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1">Min. position change</span>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            className={`${inputClasses} w-24`}
+            value={minPositionChange}
+            onChange={(e) => setMinPositionChange(Number(e.target.value))}
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isLoading || (source === 'reports' && !reportId)}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {isLoading ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {lifecycle && compared && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {LIFECYCLE_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => setActiveStatus(status)}
+                  className={`px-3 py-1 rounded-md border transition-colors ${
+                    activeStatus === status
+                      ? STATUS_COLORS[status]
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {LIFECYCLE_LABELS[status]} ({lifecycle[status].length.toLocaleString()})
+                </button>
+              ))}
+            </div>
+            <AnalysisExportButtons
+              name="query-lifecycle"
+              reportTitle={`GSC Query Lifecycle - ${siteUrl} - ${compared.current.startDate} to ${compared.current.endDate} vs ${compared.previous.startDate} to ${compared.previous.endDate}`}
+              columns={EXPORT_COLUMNS}
+              rows={exportRows}
+            />
+          </div>
+
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            {compared.current.startDate} to {compared.current.endDate} compared with {compared.previous.startDate} to {compared.previous.endDate}.
+          </p>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No {LIFECYCLE_LABELS[activeStatus].toLowerCase()} queries.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Query', 'Clicks', 'Impressions', 'Position'].map(header => (
+                      <th key={header} className={headerClasses}>{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {entries.slice(0, MAX_VISIBLE_ROWS).map(entry => (
+                    <tr key={entry.query} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-3 py-2 text-gray-900 dark:text-gray-200">{entry.query}</td>
+                      <td className={cellClasses}>
+                        {(entry.previous?.clicks ?? 0).toLocaleString()} → {(entry.current?.clicks ?? 0).toLocaleString()}
+                      </td>
+                      <td className={cellClasses}>
+                        {(entry.previous?.impressions ?? 0).toLocaleString()} → {(entry.current?.impressions ?? 0).toLocaleString()}
+                      </td>
+                      <td className={cellClasses}>
+                        {entry.previous ? entry.previous.position.toFixed(1) : '-'} → {entry.current ? entry.current.position.toFixed(1) : '-'}
+                        {entry.positionChange !== null && (
+                          <span className={`ml-2 text-xs ${entry.positionChange < 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            ({entry.positionChange > 0 ? '+' : ''}{entry.positionChange.toFixed(1)})
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {entries.length > MAX_VISIBLE_ROWS && (
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                  Showing the first {MAX_VISIBLE_ROWS} of {entries.length.toLocaleString()} queries; export to see them all.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, Plus, Trash2, Save, CheckCircle } from 'lucide-react';
+import {
+  BRAND_SEGMENT_LABELS,
+  BrandRule,
+  BrandRuleType,
+  createBrandMatcher,
+  getBrandSegment,
+  MAX_BRAND_RULES,
+  validateBrandRules,
+} from '@/lib/brand';
+
+interface BrandRulesSettingsProps {
+  siteUrl: string;
+}
+
+export const BrandRulesSettings: React.FC<BrandRulesSettingsProps> = ({ siteUrl }) => {
+  const [rules, setRules] = useState<BrandRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [testQuery, setTestQuery] = useState('');
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/gsc/brand-rules?siteUrl=${encodeURIComponent(siteUrl)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load brand rules');
+      }
+      setRules(result.rules || []);
+    } catch (err: unknown) {
+      console.error('Error loading brand rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load brand rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [siteUrl]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateRule = (index: number, update: Partial<BrandRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...update } : rule)));
+    setSaved(false);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+    setSaved(false);
+  };
+
+  const addRule = () => {
+    setRules(prev => [...prev, { type: 'term', value: '' }]);
+    setSaved(false);
+  };
+
+  // Empty rows are dropped on save
+  const filledRules = useMemo(() => rules.filter(rule => rule.value.trim()), [rules]);
+  const validationError = useMemo(() => validateBrandRules(filledRules), [filledRules]);
+
+  const testSegment = useMemo(() => {
+    if (!testQuery.trim() || validationError) return null;
+    return getBrandSegment(testQuery, createBrandMatcher(filledRules));
+  }, [testQuery, filledRules, validationError]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gsc/brand-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ siteUrl, rules: filledRules }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save brand rules');
+      }
+      setRules(result.rules || []);
+      setSaved(true);
+    } catch (err: unknown) {
+      console.error('Error saving brand rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save brand rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Brand Terms</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Queries matching any of these rules count as branded in query reports. Add common misspellings as extra terms,
+          or use a regex to cover several at once.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading brand rules...
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2 mb-4">
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No brand terms yet, so every query counts as non-branded.</p>
+            )}
+            {rules.map((rule, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  className={inputClasses}
+                  value={rule.type}
+                  onChange={(e) => updateRule(index, { type: e.target.value as BrandRuleType })}
+                >
+                  <option value="term">Term</option>
+                  <option value="regex">Regex</option>
+                </select>
+                <input
+                  type="text"
+                  className={`${inputClasses} flex-1 max-w-md`}
+                  placeholder={rule.type === 'term' ? 'e.g. acme' : 'e.g. ac?me?\\s*corp'}
+                  value={rule.value}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                />
+                <button
+                  onClick={() => removeRule(index)}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:text-gray-500 dark:hover:text-red-400"
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <button
+              onClick={addRule}
+              disabled={rules.length >= MAX_BRAND_RULES}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !!validationError}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </button>
+            {validationError && <span className="text-sm text-red-600 dark:text-red-400">{validationError}</span>}
+            {saved && !validationError && (
+              <span className="inline-flex items-center text-sm text-green-600 dark:text-green-400">
+                <CheckCircle className="mr-1 h-4 w-4" />
+                Saved. Reports of this site use the new rules.
+              </span>
+            )}
+          </div>
+
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Try a query</span>
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                className={`${inputClasses} w-full max-w-md`}
+                value={testQuery}
+                onChange={(e) => setTestQuery(e.target.value)}
+              />
+              {testSegment && (
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                  testSegment === 'branded'
+                    ? 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200'
+                    : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                }`}>
+                  {BRAND_SEGMENT_LABELS[testSegment]}
+                </span>
+              )}
+            </div>
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
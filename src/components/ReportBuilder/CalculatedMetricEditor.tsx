@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+import {
+  CALCULATED_METRIC_FORMATS,
+  CalculatedMetric,
+  CalculatedMetricFormat,
+  FORMULA_FUNCTION_NAMES,
+  FORMULA_VARIABLES,
+  FormulaError,
+  MAX_FORMULA_LENGTH,
+  parseFormula,
+} from '@/lib/formulas';
+
+// Starting points for common calculated metrics
+const EXAMPLES: { name: string; formula: string; format: CalculatedMetricFormat }[] = [
+  { name: 'Traffic value', formula: 'clicks * 1.50', format: 'decimal' },
+  { name: 'Click share', formula: 'clicks / total_clicks', format: 'percent' },
+  { name: 'Impressions per word', formula: 'impressions / query_words', format: 'decimal' },
+  { name: 'Visibility', formula: 'impressions / position', format: 'integer' },
+];
+
+const EMPTY_FORM = { name: '', formula: '', format: 'decimal' as CalculatedMetricFormat, description: '' };
+
+export const CalculatedMetricEditor: React.FC = () => {
+  const { calculatedMetrics, saveCalculatedMetric, deleteCalculatedMetric } = useReportBuilder();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Checked as the user types; the API checks again before saving
+  let formulaError: string | null = null;
+  if (form.formula.trim()) {
+    try {
+      parseFormula(form.formula);
+    } catch (err: unknown) {
+      formulaError = err instanceof FormulaError ? err.message : 'Invalid formula';
+    }
+  }
+
+  const openForm = (metric?: CalculatedMetric) => {
+    setEditingId(metric?.id ?? null);
+    setForm(metric
+      ? { name: metric.name, formula: metric.formula, format: metric.format, description: metric.description ?? '' }
+      : EMPTY_FORM);
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveCalculatedMetric({ ...form, id: editingId ?? undefined, description: form.description || null });
+      setIsOpen(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save calculated metric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (metric: CalculatedMetric) => {
+    if (!confirm(`Delete the calculated metric "${metric.name}"? Saved reports keep their values.`)) return;
+    try {
+      await deleteCalculatedMetric(metric.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete calculated metric');
+    }
+  };
+
+  const inputClasses = "w-full px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-200">Calculated Metrics</h3>
+        {!isOpen && (
+          <button
+            onClick={() => openForm()}
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            + New metric
+          </button>
+        )}
+      </div>
+
+      {calculatedMetrics.length > 0 && !isOpen && (
+        <ul className="space-y-1 mb-2 text-sm">
+          {calculatedMetrics.map(metric => (
+            <li key={metric.id} className="flex items-center justify-between gap-2">
+              <span className="truncate text-gray-700 dark:text-gray-300">
+                {metric.name} <code className="text-xs text-gray-500 dark:text-gray-400">{metric.formula}</code>
+              </span>
+              <span className="flex-shrink-0 space-x-2">
+                <button onClick={() => openForm(metric)} className="text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(metric)} className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300">
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {calculatedMetrics.length === 0 && !isOpen && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Define your own metrics from a formula, such as traffic value or click share.
+        </p>
+      )}
+
+      {isOpen && (
+        <form onSubmit={handleSave} className="space-y-3">
+          {!editingId && (
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLES.map(example => (
+                <button
+                  key={example.name}
+                  type="button"
+                  onClick={() => setForm({ ...form, ...example })}
+                  className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600"
+                >
+                  {example.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <input
+            type="text"
+            className={inputClasses}
+            placeholder="Name"
+            maxLength={60}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <div>
+            <input
+              type="text"
+              className={`${inputClasses} font-mono`}
+              placeholder="Formula, e.g. clicks / total_clicks"
+              maxLength={MAX_FORMULA_LENGTH}
+              value={form.formula}
+              onChange={(e) => setForm({ ...form, formula: e.target.value })}
+            />
+            {formulaError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{formulaError}</p>}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Use numbers, + - * / and parentheses with{' '}
+              {FORMULA_VARIABLES.map((variable, index) => (
+                <React.Fragment key={variable.name}>
+                  {index > 0 && ', '}
+                  <code title={variable.description}>{variable.name}</code>
+                </React.Fragment>
+              ))}
+              {' '}and the functions {FORMULA_FUNCTION_NAMES.map(name => `${name}()`).join(', ')}.
+            </p>
+          </div>
+          <select
+            className={inputClasses}
+            value={form.format}
+            onChange={(e) => setForm({ ...form, format: e.target.value as CalculatedMetricFormat })}
+          >
+            {CALCULATED_METRIC_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className={inputClasses}
+            placeholder="Description (optional)"
+            maxLength={200}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !form.name.trim() || !form.formula.trim() || !!formulaError}
+              className="px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save changes' : 'Add metric'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
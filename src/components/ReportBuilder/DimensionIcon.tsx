@@ -0,0 +1,22 @@
+'use client';
+
+import React from 'react';
+import { Search, FileText, Globe, Smartphone, Calendar, Sparkles } from 'lucide-react';
+import { DimensionType } from '@/lib/types';
+
+interface DimensionIconProps {
+  type: DimensionType;
+  className?: string;
+}
+
+export const DimensionIcon: React.FC<DimensionIconProps> = ({ type, className = 'h-5 w-5' }) => {
+  switch (type) {
+    case 'query': return <Search className={className} />;
+    case 'page': return <FileText className={className} />;
+    case 'country': return <Globe className={className} />;
+    case 'device': return <Smartphone className={className} />;
+    case 'date': return <Calendar className={className} />;
+    case 'searchAppearance': return <Sparkles className={className} />;
+    default: return null;
+  }
+};
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import { DraggableDimension } from './DraggableDimension';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+
+export const DimensionSelector: React.FC = () => {
+  const { availableDimensions, isDimensionSelected } = useReportBuilder();
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Available Dimensions</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Drag dimensions to the selected panel to group your report by them.
+      </p>
+      
+      <div className="space-y-2 mt-4">
+        {availableDimensions.map(dimension => (
+          <DraggableDimension 
+            key={dimension.id} 
+            dimension={dimension} 
+            isSelected={isDimensionSelected(dimension.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
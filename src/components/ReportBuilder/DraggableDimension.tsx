@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { useDraggable } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { Dimension } from '@/lib/types';
+import { DimensionIcon } from './DimensionIcon';
+
+interface DraggableDimensionProps {
+  dimension: Dimension;
+  isSelected?: boolean;
+}
+
+export const DraggableDimension: React.FC<DraggableDimensionProps> = ({ 
+  dimension, 
+  isSelected = false,
+}) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `dimension-${dimension.id}`,
+    data: {
+      type: 'dimension',
+      dimension,
+    },
+  });
+
+  const style = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  const baseClasses = "flex items-center p-3 mb-2 rounded-lg border transition-all";
+  const selectedClasses = isSelected
+    ? "bg-emerald-50 border-emerald-300 shadow dark:bg-emerald-900/50 dark:border-emerald-700"
+    : "bg-white border-gray-200 hover:border-gray-300 hover:shadow-sm cursor-grab dark:bg-slate-700 dark:border-gray-600 dark:hover:border-gray-500 dark:hover:bg-slate-600";
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className={`${baseClasses} ${selectedClasses}`}
+    >
+      <div className="flex-shrink-0 mr-3 h-5 w-5 text-gray-500 dark:text-gray-400">
+        <DimensionIcon type={dimension.type} />
+      </div>
+      
+      <div className="flex-grow">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-200">{dimension.name}</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{dimension.description}</p>
+      </div>
+    </div>
+  );
+};
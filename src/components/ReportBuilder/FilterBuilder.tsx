@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+import { FILTER_DIMENSIONS, FILTER_OPERATORS } from '@/lib/filters';
+import { FilterDimension, FilterOperator } from '@/lib/types';
+
+export const FilterBuilder: React.FC = () => {
+  const { filters, addFilter, updateFilter, removeFilter } = useReportBuilder();
+  const [dimension, setDimension] = useState<FilterDimension>('query');
+  const [operator, setOperator] = useState<FilterOperator>('contains');
+  const [expression, setExpression] = useState('');
+
+  const handleAddFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expression.trim()) return;
+
+    addFilter({ dimension, operator, expression: expression.trim() });
+    setExpression('');
+  };
+
+  const selectClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+  const inputClasses = "flex-grow px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Filters</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Narrow the report to matching rows. All filters must match.
+      </p>
+
+      {filters.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {filters.map(filter => (
+            <div key={filter.id} className="flex flex-wrap items-center gap-2">
+              <select
+                className={selectClasses}
+                value={filter.dimension}
+                onChange={(e) => updateFilter(filter.id, { dimension: e.target.value as FilterDimension })}
+              >
+                {FILTER_DIMENSIONS.map(d => (
+                  <option key={d.value} value={d.value}>{d.label}</option>
+                ))}
+              </select>
+              <select
+                className={selectClasses}
+                value={filter.operator}
+                onChange={(e) => updateFilter(filter.id, { operator: e.target.value as FilterOperator })}
+              >
+                {FILTER_OPERATORS.map(o => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+              <input
+                className={inputClasses}
+                value={filter.expression}
+                onChange={(e) => updateFilter(filter.id, { expression: e.target.value })}
+              />
+              <button
+                onClick={() => removeFilter(filter.id)}
+                className="ml-2 text-gray-400 hover:text-gray-600 focus:outline-none dark:hover:text-gray-200"
+                aria-label="Remove filter"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAddFilter} className="flex flex-wrap items-center gap-2">
+        <select
+          className={selectClasses}
+          value={dimension}
+          onChange={(e) => setDimension(e.target.value as FilterDimension)}
+        >
+          {FILTER_DIMENSIONS.map(d => (
+            <option key={d.value} value={d.value}>{d.label}</option>
+          ))}
+        </select>
+        <select
+          className={selectClasses}
+          value={operator}
+          onChange={(e) => setOperator(e.target.value as FilterOperator)}
+        >
+          {FILTER_OPERATORS.map(o => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+        <input
+          className={inputClasses}
+          placeholder={dimension === 'page' ? 'e.g. /blog/' : 'e.g. pricing'}
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!expression.trim()}
+          className="px-4 py-2 text-sm rounded-md border border-blue-300 bg-blue-50 text-blue-800 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200"
+        >
+          Add Filter
+        </button>
+      </form>
+    </div>
+  );
+};
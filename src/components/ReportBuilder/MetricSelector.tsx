@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { DraggableMetric } from './DraggableMetric';
+import { CalculatedMetricEditor } from './CalculatedMetricEditor';
 import { useReportBuilder } from '@/context/ReportBuilderContext';
 
 export const MetricSelector: React.FC = () => {
@@ -23,6 +24,8 @@ export const MetricSelector: React.FC = () => {
           />
         ))}
       </div>
+
+      <CalculatedMetricEditor />
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   DndContext, 
   DragEndEvent,
@@ -21,15 +21,29 @@ import {
 } from '@dnd-kit/sortable';
 import { useReportBuilder } from '@/context/ReportBuilderContext';
 import { Metric } from '@/lib/types';
+import { getSearchTypeConflicts } from '@/lib/search-types';
+import { readNdjson } from '@/lib/ndjson';
+import { getFormulaMetrics } from '@/lib/formulas';
 
 import { MetricSelector } from './MetricSelector';
 import { SelectedMetricsPanel } from './SelectedMetricsPanel';
 import { TimeRangeSelector } from './TimeRangeSelector';
+import { FilterBuilder } from './FilterBuilder';
+import { DimensionSelector } from './DimensionSelector';
+import { SelectedDimensionsPanel } from './SelectedDimensionsPanel';
+import { SearchTypeSelector } from './SearchTypeSelector';
+import { ReportTemplateManager } from './ReportTemplateManager';
 
 interface ReportBuilderProps {
   siteUrl: string | null;
 }
 
+// Lines streamed back by /api/gsc/generate-report
+type GenerateReportMessage =
+  | { type: 'progress'; rowsFetched: number }
+  | { type: 'result'; reportId: string; rowCount: number; truncated: boolean }
+  | { type: 'error'; error: string; details?: string; status?: 'queued'; retryAfter?: number };
+
 export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
   const { 
     selectedMetrics, 
@@ -37,11 +51,32 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
     removeMetric, 
     availableMetrics,
     reorderSelectedMetrics,
+    selectedDimensions,
+    addDimension,
+    reorderSelectedDimensions,
+    filters,
+    searchType,
     getReportConfig
   } = useReportBuilder();
   
   const [activeId, setActiveId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rowsFetched, setRowsFetched] = useState<number | null>(null);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  // Seconds until a rate-limited report is tried again
+  const [retryIn, setRetryIn] = useState<number | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The latest handleGenerateReport, so a retry sends the config as it is when the timer fires
+  const generateReportRef = useRef<() => Promise<void>>(async () => {});
+
+  // Discover and Google News reject some dimensions and metrics, so block those combinations up front
+  // (calculated metrics count as the metrics their formulas read)
+  const searchTypeConflicts = getSearchTypeConflicts(
+    searchType,
+    selectedDimensions.map(d => d.type),
+    selectedMetrics.flatMap(m => m.formula ? getFormulaMetrics(m.formula) : [m.type]),
+    filters.map(f => f.dimension)
+  );
 
   // Configure the sensors
   const sensors = useSensors(
@@ -84,6 +119,14 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
         addMetric(metric);
       }
     }
+    
+    // If dropping a dimension into the selected dimensions panel
+    if (
+      active.data.current?.type === 'dimension' &&
+      over?.id === 'selected-dimensions-droppable'
+    ) {
+      addDimension(active.data.current.dimension);
+    }
   };
 
   // When drag ends
@@ -105,10 +148,44 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
       // Reorder the metrics
       reorderSelectedMetrics(oldIndex, newIndex);
     }
+    
+    // If dropping to reorder within the selected dimensions
+    const dimensionIndex = (id: string | number | undefined) =>
+      selectedDimensions.findIndex(d => `selected-dimension-${d.id}` === id);
+    
+    if (over && active.id !== over.id) {
+      const oldIndex = dimensionIndex(active.id);
+      const newIndex = dimensionIndex(over.id);
+      
+      if (oldIndex !== -1 && newIndex !== -1) {
+        reorderSelectedDimensions(oldIndex, newIndex);
+      }
+    }
+  };
+
+  const clearRetry = () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  };
+
+  // Search Console is rate limiting us, so generate the report again once the wait is over
+  const queueRetry = (retryAfter: number) => {
+    clearRetry();
+    setRetryIn(retryAfter);
+    retryTimerRef.current = setTimeout(() => {
+      retryTimerRef.current = null;
+      generateReportRef.current();
+    }, retryAfter * 1000);
   };
 
   const handleGenerateReport = async () => {
+    clearRetry();
     setIsSubmitting(true);
+    setRetryIn(null);
+    // Stays submitting while a retry is pending
+    let queued = false;
     try {
       const config = getReportConfig();
       
@@ -119,6 +196,12 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
         return;
       }
       
+      if (searchTypeConflicts.length > 0) {
+        alert(searchTypeConflicts.join('\n'));
+        setIsSubmitting(false);
+        return;
+      }
+      
       if (!config.siteUrl) {
         alert('No site URL selected');
         setIsSubmitting(false);
@@ -130,12 +213,23 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
       // Format the data for the API request
       const requestData = {
         siteUrl: config.siteUrl,
-        metrics: config.selectedMetrics.map(m => m.type),
+        // Calculated metrics are sent by key and evaluated by the API
+        metrics: config.selectedMetrics.map(m => m.type === 'calculated' ? m.id : m.type),
         timeRange: {
-          startDate: config.timeRange.startDate.toISOString().split('T')[0],
-          endDate: config.timeRange.endDate.toISOString().split('T')[0]
+          startDate: config.timeRange.startDate,
+          endDate: config.timeRange.endDate
         },
-        dimensions: ['query']
+        comparison: config.comparison.startDate && config.comparison.endDate
+          ? {
+              mode: config.comparison.mode,
+              startDate: config.comparison.startDate,
+              endDate: config.comparison.endDate
+            }
+          : undefined,
+        dimensions: config.selectedDimensions.map(d => d.type),
+        filters: config.filters,
+        searchType: config.searchType,
+        forceRefresh
       };
       
       // Call the API endpoint
@@ -147,57 +241,69 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
         body: JSON.stringify(requestData),
       });
       
+      // Validation errors come back as plain JSON before streaming starts
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.status === 'queued') {
+          queued = true;
+          queueRetry(errorData.retryAfter);
+          return;
+        }
         throw new Error(errorData.error || 'Failed to generate report');
       }
       
-      const reportData = await response.json();
-      
-      // Save report data to localStorage for the results page to use
-      localStorage.setItem('lastReportData', JSON.stringify(reportData));
+      let reportId: string | null = null;
+      let queuedFor: number | null = null;
+      await readNdjson<GenerateReportMessage>(response, (message) => {
+        if (message.type === 'progress') {
+          setRowsFetched(message.rowsFetched);
+        } else if (message.type === 'error') {
+          if (message.status === 'queued') {
+            queuedFor = message.retryAfter ?? 1;
+            return;
+          }
+          throw new Error(message.details || message.error);
+        } else {
+          reportId = message.reportId;
+        }
+      });
       
-      // Generate a unique report ID based on timestamp
-      const reportId = Date.now().toString();
+      if (queuedFor !== null) {
+        queued = true;
+        queueRetry(queuedFor);
+        return;
+      }
       
-      // Also save the report to Supabase for future reference
-      await saveReportToSupabase(reportData, reportId);
+      if (!reportId) {
+        throw new Error('Report stream ended without a result');
+      }
       
-      // Redirect to the results page
+      // The report was saved by the API; the results page loads it by id
       window.location.href = `/dashboard/report-results?reportId=${reportId}`;
       
     } catch (error) {
       console.error('Error generating report:', error);
       alert('Error generating report. Please try again.');
     } finally {
-      setIsSubmitting(false);
+      if (!queued) setIsSubmitting(false);
+      setRowsFetched(null);
     }
   };
+  
+  useEffect(() => {
+    generateReportRef.current = handleGenerateReport;
+  });
+  
+  // A pending retry must not fire after leaving the builder
+  useEffect(() => clearRetry, []);
 
-  // Function to save the report to Supabase
-  const saveReportToSupabase = async (reportData: any, reportId: string) => {
-    try {
-      const saveResponse = await fetch('/api/reports/save', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          reportData,
-          reportId
-        }),
-      });
-      
-      if (!saveResponse.ok) {
-        console.error('Failed to save report to Supabase');
-      } else {
-        console.log('Report saved to Supabase successfully');
-      }
-    } catch (error) {
-      console.error('Error saving report to Supabase:', error);
-      // Don't throw error here, as we don't want to block the report generation flow
-    }
-  };
+  // Counts down the wait of a queued report
+  useEffect(() => {
+    if (!retryIn) return;
+    
+    const timer = setTimeout(() => setRetryIn(retryIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryIn]);
 
   return (
     <DndContext
@@ -211,7 +317,7 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
         <div className="mb-8">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-200">Build Your GSC Report</h1>
           <p className="text-gray-600 dark:text-gray-400 mt-2">
-            Drag and drop metrics, select a time range, and generate your custom report.
+            Drag and drop metrics and dimensions, select a time range, and generate your custom report.
             {siteUrl && (
               <span className="block mt-1 text-sm">
                 Site: <span className="font-medium text-gray-800 dark:text-gray-300">{siteUrl}</span>
@@ -220,28 +326,66 @@ export const ReportBuilder: React.FC<ReportBuilderProps> = ({ siteUrl }) => {
           </p>
         </div>
 
+        <div className="mb-6">
+          <ReportTemplateManager />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <MetricSelector />
           <SelectedMetricsPanel />
         </div>
 
-        <div className="mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <DimensionSelector />
+          <SelectedDimensionsPanel />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           <TimeRangeSelector />
+          <FilterBuilder />
         </div>
 
-        <div className="flex justify-end">
+        <div className="mb-8">
+          <SearchTypeSelector conflicts={searchTypeConflicts} />
+        </div>
+
+        {retryIn !== null && (
+          <p className="mb-4 text-sm text-right text-yellow-700 dark:text-yellow-400">
+            Search Console is busy right now. Your report is queued and will be retried in {retryIn}s.
+          </p>
+        )}
+
+        <div className="flex items-center justify-end gap-4">
+          <label
+            className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300"
+            title="Skip cached Search Console data and fetch it again"
+          >
+            <input
+              type="checkbox"
+              checked={forceRefresh}
+              onChange={(e) => setForceRefresh(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+            />
+            Force refresh
+          </label>
           <button
             onClick={handleGenerateReport}
-            disabled={isSubmitting || selectedMetrics.length === 0}
+            disabled={isSubmitting || retryIn !== null || selectedMetrics.length === 0 || searchTypeConflicts.length > 0}
             className={`
               px-6 py-3 rounded-lg text-white font-medium transition-colors
-              ${isSubmitting || selectedMetrics.length === 0
+              ${isSubmitting || retryIn !== null || selectedMetrics.length === 0 || searchTypeConflicts.length > 0
                 ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700'
               }
             `}
           >
-            {isSubmitting ? 'Generating...' : 'Generate Report'}
+            {retryIn !== null
+              ? 'Queued…'
+              : isSubmitting
+              ? rowsFetched
+                ? `Fetched ${rowsFetched.toLocaleString()} rows…`
+                : 'Generating...'
+              : 'Generate Report'}
           </button>
         </div>
       </div>
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+import { ReportTemplate } from '@/lib/types';
+
+const EMPTY_FORM = { name: '', siteOnly: true, isDefault: false };
+
+export const ReportTemplateManager: React.FC = () => {
+  const {
+    templates,
+    activeTemplate,
+    loadTemplate,
+    saveTemplate,
+    duplicateTemplate,
+    setDefaultTemplate,
+    deleteTemplate,
+  } = useReportBuilder();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs a template action, showing its error instead of throwing
+  const run = async (action: () => Promise<unknown>, fallbackError: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (template) loadTemplate(template);
+  };
+
+  const handleSaveNew = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => saveTemplate({ ...form, name: form.name.trim() }), 'Failed to save template');
+    if (saved) {
+      setIsFormOpen(false);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  // Overwrite the loaded template with the builder's current setup
+  const handleUpdate = (template: ReportTemplate) => run(
+    () => saveTemplate({ id: template.id, name: template.name, siteOnly: !!template.siteUrl, isDefault: template.isDefault }),
+    'Failed to save template'
+  );
+
+  const handleDelete = (template: ReportTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    run(() => deleteTemplate(template.id), 'Failed to delete template');
+  };
+
+  const inputClasses = "px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+  const linkClasses = "text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Templates</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Save this setup to run it again later. Relative ranges like &quot;Last 28 Days&quot; are worked out again each time the report runs.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className={`${inputClasses} min-w-[14rem]`}
+          value={activeTemplate?.id ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={templates.length === 0}
+        >
+          <option value="" disabled>
+            {templates.length === 0 ? 'No saved templates' : 'Load a template…'}
+          </option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}{template.siteUrl ? '' : ' (all sites)'}{template.isDefault ? ' — default' : ''}
+            </option>
+          ))}
+        </select>
+
+        {activeTemplate && (
+          <>
+            <button onClick={() => handleUpdate(activeTemplate)} disabled={isSaving} className={linkClasses}>
+              Save changes
+            </button>
+            <button onClick={() => run(() => duplicateTemplate(activeTemplate), 'Failed to duplicate template')} disabled={isSaving} className={linkClasses}>
+              Duplicate
+            </button>
+            <button
+              onClick={() => run(() => setDefaultTemplate(activeTemplate, !activeTemplate.isDefault), 'Failed to update template')}
+              disabled={isSaving}
+              className={linkClasses}
+            >
+              {activeTemplate.isDefault ? 'Unset default' : 'Set as default'}
+            </button>
+            <button
+              onClick={() => handleDelete(activeTemplate)}
+              disabled={isSaving}
+              className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </>
+        )}
+
+        {!isFormOpen && (
+          <button onClick={() => setIsFormOpen(true)} className={`${linkClasses} ml-auto`}>
+            + Save as new template
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSaveNew} className="mt-4 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            className={`${inputClasses} flex-1 min-w-[12rem]`}
+            placeholder="Template name"
+            maxLength={100}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.siteOnly}
+              onChange={(e) => setForm({ ...form, siteOnly: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+            />
+            Only for this site
+          </label>
+          <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.isDefault}
+              onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+            />
+            Open by default
+          </label>
+          <button
+            type="button"
+            onClick={() => setIsFormOpen(false)}
+            className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !form.name.trim()}
+            className="px-3 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save template'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+import { SEARCH_TYPES } from '@/lib/search-types';
+
+interface SearchTypeSelectorProps {
+  // Combinations the selected search type doesn't support, computed by the builder
+  conflicts: string[];
+}
+
+export const SearchTypeSelector: React.FC<SearchTypeSelectorProps> = ({ conflicts }) => {
+  const { searchType, setSearchType } = useReportBuilder();
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Search Type</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Choose which Google surface the report covers.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {SEARCH_TYPES.map(option => (
+          <button
+            key={option.value}
+            title={option.description}
+            className={`px-4 py-2 text-sm rounded-md border transition-colors ${
+              searchType === option.value
+                ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+            }`}
+            onClick={() => setSearchType(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm">
+          <div className="flex items-center font-medium mb-1">
+            <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+            Unsupported combination
+          </div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {conflicts.map(conflict => (
+              <li key={conflict}>{conflict}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { useReportBuilder } from '@/context/ReportBuilderContext';
+import { SortableDimension } from './SortableDimension';
+
+export const SelectedDimensionsPanel: React.FC = () => {
+  const { selectedDimensions, removeDimension } = useReportBuilder();
+  const { setNodeRef, isOver } = useDroppable({
+    id: 'selected-dimensions-droppable',
+  });
+
+  const isEmpty = selectedDimensions.length === 0;
+  const dropIndicatorClasses = isOver
+    ? 'border-emerald-300 bg-emerald-50 dark:border-emerald-500 dark:bg-emerald-900/20'
+    : 'border-dashed border-gray-300 dark:border-gray-600';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Selected Dimensions</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {isEmpty
+          ? 'Drag dimensions here. Without dimensions the report shows site totals.'
+          : 'Each dimension becomes a column. Drag to reorder. Click × to remove.'}
+      </p>
+
+      <div
+        ref={setNodeRef}
+        className={`min-h-[200px] rounded-lg border-2 p-4 transition-colors ${dropIndicatorClasses}`}
+      >
+        {isEmpty ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm text-gray-400 dark:text-gray-500">Drop dimensions here</p>
+          </div>
+        ) : (
+          <SortableContext
+            items={selectedDimensions.map(d => `selected-dimension-${d.id}`)}
+            strategy={verticalListSortingStrategy}
+          >
+            {selectedDimensions.map(dimension => (
+              <SortableDimension
+                key={dimension.id}
+                dimension={dimension}
+                onRemove={() => removeDimension(dimension.id)}
+              />
+            ))}
+          </SortableContext>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Dimension } from '@/lib/types';
+import { DimensionIcon } from './DimensionIcon';
+
+interface SortableDimensionProps {
+  dimension: Dimension;
+  onRemove: () => void;
+}
+
+export const SortableDimension: React.FC<SortableDimensionProps> = ({ dimension, onRemove }) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: `selected-dimension-${dimension.id}` });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className="flex items-center p-3 mb-2 rounded-lg border border-emerald-300 bg-emerald-50 dark:bg-emerald-900/50 dark:border-emerald-700 shadow cursor-grab"
+    >
+      {/* Drag handle */}
+      <div className="flex-shrink-0 mr-2 text-gray-400 dark:text-gray-500">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" />
+        </svg>
+      </div>
+
+      <div className="flex-shrink-0 mr-3 h-5 w-5 text-emerald-500 dark:text-emerald-400">
+        <DimensionIcon type={dimension.type} />
+      </div>
+      
+      <div className="flex-grow">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-200">{dimension.name}</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{dimension.description}</p>
+      </div>
+      
+      <button 
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+        className="ml-2 text-gray-400 hover:text-gray-600 focus:outline-none dark:text-gray-500 dark:hover:text-gray-300"
+        aria-label={`Remove ${dimension.name}`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -1,71 +1,66 @@
 'use client';
 
 import React, { useState } from 'react';
-import { format } from 'date-fns';
-import { DateRange } from 'react-date-range';
+import { AlertTriangle } from 'lucide-react';
+import { DateRange, RangeKeyDict } from 'react-date-range';
 import { useReportBuilder } from '@/context/ReportBuilderContext';
-import { TimeRange, TimeRangeType } from '@/lib/types';
+import { TimeRange, TimeRangeType, ComparisonMode } from '@/lib/types';
+import {
+  COMPARISON_MODES,
+  countIncompleteDays,
+  formatCalendarDate,
+  fromCalendarDate,
+  getComparisonRange,
+  getPresetTimeRange,
+  GSC_TIMEZONE_LABEL,
+  TIME_RANGE_PRESETS,
+  toCalendarDate,
+} from '@/lib/date-ranges';
 
-// Helper function to get predefined ranges
-const getLast7Days = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 7);
-  
-  return {
-    type: 'last7days',
-    name: 'Last 7 Days',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
-
-const getLast28Days = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 28);
-  
-  return {
-    type: 'last28days',
-    name: 'Last 28 Days',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
-
-const getLast3Months = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setMonth(startDate.getMonth() - 3);
-  
-  return {
-    type: 'last3months',
-    name: 'Last 3 Months',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
+// Timezones the runtime knows, for the display timezone picker
+const TIMEZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
 
 export const TimeRangeSelector: React.FC = () => {
-  const { timeRange, setTimeRange, setCustomDateRange } = useReportBuilder();
+  const {
+    timeRange,
+    resolvedTimeRange,
+    latestCompleteDate,
+    dataFreshness,
+    displayTimezone,
+    setDisplayTimezone,
+    setTimeRange,
+    setCustomDateRange,
+    comparisonMode,
+    setComparisonMode,
+    customComparisonRange,
+    setCustomComparisonRange,
+  } = useReportBuilder();
   const [showCalendar, setShowCalendar] = useState(false);
+  const [showComparisonCalendar, setShowComparisonCalendar] = useState(false);
+  const [timezoneError, setTimezoneError] = useState<string | null>(null);
+  
+  // The range the report will be compared against, for display
+  const comparisonRange = getComparisonRange(
+    comparisonMode,
+    resolvedTimeRange.startDate,
+    resolvedTimeRange.endDate,
+    customComparisonRange ?? undefined
+  );
+  
+  // Days at the end of the range that Search Console hasn't finished processing
+  const incompleteDays = countIncompleteDays(resolvedTimeRange.startDate, resolvedTimeRange.endDate, latestCompleteDate);
 
   // Predefined time range options
-  const timeRangeOptions: { type: TimeRangeType; name: string; range: TimeRange }[] = [
-    { type: 'last7days', name: 'Last 7 Days', range: getLast7Days() },
-    { type: 'last28days', name: 'Last 28 Days', range: getLast28Days() },
-    { type: 'last3months', name: 'Last 3 Months', range: getLast3Months() },
+  const timeRangeOptions: { type: TimeRangeType; name: string; description?: string; range: TimeRange }[] = [
+    ...TIME_RANGE_PRESETS.map(preset => ({ ...preset, range: getPresetTimeRange(preset.type, latestCompleteDate) })),
     { 
       type: 'custom', 
       name: 'Custom Range', 
       range: {
         type: 'custom',
         name: 'Custom Range',
-        startDate: timeRange.startDate,
-        endDate: timeRange.endDate,
+        startDate: resolvedTimeRange.startDate,
+        endDate: resolvedTimeRange.endDate,
         isCustom: true,
       }
     },
@@ -73,7 +68,7 @@ export const TimeRangeSelector: React.FC = () => {
 
   const handleDateRangeChange = (ranges: any) => {
     const { startDate, endDate } = ranges.selection;
-    setCustomDateRange(startDate, endDate);
+    setCustomDateRange(toCalendarDate(startDate), toCalendarDate(endDate));
   };
 
   const handleSelectTimeRange = (rangeOption: TimeRange) => {
@@ -86,24 +81,54 @@ export const TimeRangeSelector: React.FC = () => {
     }
   };
 
+  const handleComparisonRangeChange = (ranges: RangeKeyDict) => {
+    const { startDate, endDate } = ranges.selection;
+    if (startDate && endDate) setCustomComparisonRange(toCalendarDate(startDate), toCalendarDate(endDate));
+  };
+
+  const handleSelectComparisonMode = (mode: ComparisonMode) => {
+    setComparisonMode(mode);
+    
+    if (mode === 'custom') {
+      // Seed the custom range with the previous period so the calendar has a sensible start
+      if (!customComparisonRange) {
+        const previous = getComparisonRange('previousPeriod', resolvedTimeRange.startDate, resolvedTimeRange.endDate);
+        setCustomComparisonRange(previous.startDate, previous.endDate);
+      }
+      setShowComparisonCalendar(true);
+    } else {
+      setShowComparisonCalendar(false);
+    }
+  };
+
   const formatDateRange = (timeRange: TimeRange) => {
     const { startDate, endDate } = timeRange;
-    if (!timeRange.isCustom) return timeRange.name;
+    const dates = `${formatCalendarDate(startDate)} - ${formatCalendarDate(endDate)}`;
     
-    return `${format(startDate, 'MMM d, yyyy')} - ${format(endDate, 'MMM d, yyyy')}`;
+    return timeRange.isCustom ? dates : `${timeRange.name} (${dates})`;
+  };
+
+  const handleDisplayTimezoneChange = async (timeZone: string) => {
+    setTimezoneError(null);
+    try {
+      await setDisplayTimezone(timeZone);
+    } catch (err: unknown) {
+      setTimezoneError(err instanceof Error ? err.message : 'Failed to save timezone');
+    }
   };
 
   return (
     <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow">
       <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200 mb-4">Select Time Range</h2>
       <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-        Choose a time period for your report data.
+        Choose a time period for your report data. Dates are Search Console days in {GSC_TIMEZONE_LABEL}.
       </p>
 
       <div className="grid grid-cols-2 gap-3 mb-4">
         {timeRangeOptions.map((option) => (
           <button
             key={option.type}
+            title={option.description}
             className={`px-4 py-2 text-sm rounded-md border transition-colors ${
               timeRange.type === option.type
                 ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
@@ -117,16 +142,44 @@ export const TimeRangeSelector: React.FC = () => {
       </div>
 
       <div className="mt-2 text-sm text-gray-700 dark:text-gray-300">
-        Current selection: <span className="font-medium">{formatDateRange(timeRange)}</span>
+        Current selection: <span className="font-medium">{formatDateRange(resolvedTimeRange)}</span>
+      </div>
+      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Complete data up to {formatCalendarDate(latestCompleteDate)}
+        {dataFreshness?.source === 'probe' ? '' : ' (estimated)'}
       </div>
+      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 flex flex-wrap items-center gap-2">
+        <label htmlFor="display-timezone">Show report times in</label>
+        <select
+          id="display-timezone"
+          className="px-2 py-1 text-xs rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300"
+          value={displayTimezone}
+          onChange={(e) => handleDisplayTimezoneChange(e.target.value)}
+        >
+          {(TIMEZONES.includes(displayTimezone) ? TIMEZONES : [displayTimezone, ...TIMEZONES]).map(timeZone => (
+            <option key={timeZone} value={timeZone}>{timeZone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+        {timezoneError && <span className="text-red-600 dark:text-red-400">{timezoneError}</span>}
+      </div>
+
+      {incompleteDays > 0 && (
+        <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 rounded-md text-yellow-800 dark:text-yellow-300 text-sm flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            The last {incompleteDays === 1 ? 'day' : `${incompleteDays} days`} of this range {incompleteDays === 1 ? 'is' : 'are'} still
+            being processed by Search Console, so {incompleteDays === 1 ? 'its' : 'their'} clicks and impressions will look lower than they end up.
+          </span>
+        </div>
+      )}
 
       {showCalendar && (
         <div className="mt-4 border dark:border-gray-600 rounded-md p-2 bg-gray-50 dark:bg-slate-700">
           <DateRange
             ranges={[
               {
-                startDate: timeRange.startDate,
-                endDate: timeRange.endDate,
+                startDate: fromCalendarDate(resolvedTimeRange.startDate),
+                endDate: fromCalendarDate(resolvedTimeRange.endDate),
                 key: 'selection',
               },
             ]}
@@ -146,6 +199,56 @@ export const TimeRangeSelector: React.FC = () => {
           </div>
         </div>
       )}
+
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-200 mt-6 mb-3">Compare To</h3>
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        {COMPARISON_MODES.map((option) => (
+          <button
+            key={option.value}
+            className={`px-4 py-2 text-sm rounded-md border transition-colors ${
+              comparisonMode === option.value
+                ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+            }`}
+            onClick={() => handleSelectComparisonMode(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {comparisonRange && (
+        <div className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+          Comparing with: <span className="font-medium">{formatCalendarDate(comparisonRange.startDate)} - {formatCalendarDate(comparisonRange.endDate)}</span>
+        </div>
+      )}
+
+      {showComparisonCalendar && customComparisonRange && (
+        <div className="mt-4 border dark:border-gray-600 rounded-md p-2 bg-gray-50 dark:bg-slate-700">
+          <DateRange
+            ranges={[
+              {
+                startDate: fromCalendarDate(customComparisonRange.startDate),
+                endDate: fromCalendarDate(customComparisonRange.endDate),
+                key: 'selection',
+              },
+            ]}
+            onChange={handleComparisonRangeChange}
+            moveRangeOnFirstSelection={false}
+            months={1}
+            direction="horizontal"
+            className="w-full rdrDarkMode"
+          />
+          <div className="flex justify-end mt-2">
+            <button
+              className="px-3 py-1 text-xs text-gray-700 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+              onClick={() => setShowComparisonCalendar(false)}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Merge, Pencil, Check, X } from 'lucide-react';
+import {
+  ClusterSummary,
+  mergeClusters,
+  OTHER_CLUSTER_ID,
+  QueryClustering,
+  QueryMetrics,
+  renameCluster,
+  summarizeClusters,
+} from '@/lib/analysis/clustering';
+
+interface ClusterViewProps {
+  clustering: QueryClustering;
+  queries: QueryMetrics[];
+  onChange: (clustering: QueryClustering) => void;
+}
+
+type ClusterSortKey = 'queries' | 'clicks' | 'impressions' | 'ctr' | 'position';
+
+const SORT_COLUMNS: { key: ClusterSortKey; label: string }[] = [
+  { key: 'queries', label: 'Queries' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'impressions', label: 'Impressions' },
+  { key: 'ctr', label: 'CTR' },
+  { key: 'position', label: 'Avg. Position' },
+];
+
+// Clusters rendered at once; large reports can have thousands
+const PAGE_SIZE = 100;
+
+const getSortValue = (cluster: ClusterSummary, key: ClusterSortKey) =>
+  key === 'queries' ? cluster.members.length : cluster[key];
+
+export const ClusterView: React.FC<ClusterViewProps> = ({ clustering, queries, onChange }) => {
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ id: string; label: string } | null>(null);
+  const [sort, setSort] = useState<{ key: ClusterSortKey; desc: boolean }>({ key: 'clicks', desc: true });
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const summaries = useMemo(() => {
+    const sorted = summarizeClusters(clustering, queries).sort((a, b) => {
+      const difference = getSortValue(a, sort.key) - getSortValue(b, sort.key);
+      return sort.desc ? -difference : difference;
+    });
+    // "Other" always goes last
+    return [
+      ...sorted.filter(cluster => cluster.id !== OTHER_CLUSTER_ID),
+      ...sorted.filter(cluster => cluster.id === OTHER_CLUSTER_ID),
+    ];
+  }, [clustering, queries, sort]);
+
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter(i => i !== id) : [...list, id]);
+
+  const handleMerge = () => {
+    onChange(mergeClusters(clustering, selected));
+    setSelected([]);
+  };
+
+  const handleRename = () => {
+    if (editing && editing.label.trim()) {
+      onChange(renameCluster(clustering, editing.id, editing.label.trim()));
+    }
+    setEditing(null);
+  };
+
+  const canMerge = selected.filter(id => id !== OTHER_CLUSTER_ID).length >= 1 && selected.length >= 2;
+
+  return (
+    <div className="mb-6">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="text-gray-600 dark:text-gray-400">
+          {queries.length.toLocaleString()} queries in {summaries.filter(c => c.id !== OTHER_CLUSTER_ID).length.toLocaleString()} topic clusters.
+          Select clusters to merge them; the first selected keeps its name.
+        </span>
+        <button
+          onClick={handleMerge}
+          disabled={!canMerge}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Merge className="mr-2 h-4 w-4" />
+          Merge Selected ({selected.length})
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-slate-700">
+            <tr>
+              <th className="px-3 py-3 w-8" />
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Cluster</th>
+              {SORT_COLUMNS.map(column => (
+                <th key={column.key} className="px-3 py-3 text-left">
+                  <button
+                    className="flex items-center space-x-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                    onClick={() => setSort(prev => ({ key: column.key, desc: prev.key === column.key ? !prev.desc : true }))}
+                  >
+                    <span>{column.label}</span>
+                    {sort.key === column.key && <span className="ml-1">{sort.desc ? '🔽' : '🔼'}</span>}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {summaries.slice(0, visibleCount).map(cluster => {
+              const isExpanded = expanded.includes(cluster.id);
+              const isEditing = editing?.id === cluster.id;
+              return (
+                <React.Fragment key={cluster.id}>
+                  <tr className="hover:bg-gray-50 dark:hover:bg-slate-700/50">
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(cluster.id)}
+                        onChange={() => setSelected(prev => toggle(prev, cluster.id))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-slate-700"
+                        aria-label="Select cluster"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-200">
+                      {isEditing ? (
+                        <span className="inline-flex items-center gap-1">
+                          <input
+                            type="text"
+                            autoFocus
+                            value={editing.label}
+                            onChange={(e) => setEditing({ id: cluster.id, label: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename();
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            className="px-2 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300"
+                          />
+                          <button onClick={handleRename} className="p-1 text-green-600 dark:text-green-400" aria-label="Save name">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setEditing(null)} className="p-1 text-gray-400" aria-label="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center group">
+                          <button
+                            onClick={() => setExpanded(prev => toggle(prev, cluster.id))}
+                            className="inline-flex items-center font-medium"
+                          >
+                            {isExpanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                            {cluster.label}
+                          </button>
+                          <button
+                            onClick={() => setEditing({ id: cluster.id, label: cluster.label })}
+                            className="ml-2 p-1 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-blue-600 dark:hover:text-blue-400"
+                            aria-label="Rename cluster"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{cluster.members.length.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{cluster.clicks.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{cluster.impressions.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{(cluster.ctr * 100).toFixed(2)}%</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{cluster.position.toFixed(1)}</td>
+                  </tr>
+                  {isExpanded && cluster.members.map(member => (
+                    <tr key={member.query} className="bg-gray-50 dark:bg-gray-900/40">
+                      <td />
+                      <td className="pl-8 pr-3 py-1.5 text-gray-700 dark:text-gray-300">{member.query}</td>
+                      <td />
+                      <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">{member.clicks.toLocaleString()}</td>
+                      <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">{member.impressions.toLocaleString()}</td>
+                      <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">
+                        {member.impressions > 0 ? `${((member.clicks / member.impressions) * 100).toFixed(2)}%` : '-'}
+                      </td>
+                      <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">{member.position.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {summaries.length > visibleCount && (
+        <div className="mt-3 text-center">
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Show more clusters ({(summaries.length - visibleCount).toLocaleString()} left)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+
+export interface ChartPoint {
+  date: string;
+  value: number;
+}
+
+interface TrendChartProps {
+  points: ChartPoint[];
+  formatValue: (value: number) => string;
+  // Draw lower values higher up (used for average position)
+  invertY?: boolean;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+/**
+ * Lightweight SVG line chart for daily / weekly / monthly metric series
+ */
+export const TrendChart: React.FC<TrendChartProps> = ({ points, formatValue, invertY = false, height = 240 }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  if (points.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ height }}>
+        No data for this range.
+      </div>
+    );
+  }
+
+  const values = points.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) => {
+    const ratio = (value - min) / span;
+    return PADDING.top + (invertY ? ratio : 1 - ratio) * plotHeight;
+  };
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const labelIndexes = Array.from(new Set([0, Math.floor((points.length - 1) / 2), points.length - 1]));
+
+  // Map the mouse position to the nearest point
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (svgX - PADDING.left) / plotWidth;
+    const index = Math.round(ratio * (points.length - 1));
+    setHoverIndex(Math.max(0, Math.min(points.length - 1, index)));
+  };
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full text-blue-600 dark:text-blue-400"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Y axis labels: top and bottom of the range */}
+        <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[11px]">
+          {formatValue(invertY ? min : max)}
+        </text>
+        <text x={PADDING.left - 8} y={PADDING.top + plotHeight} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[11px]">
+          {formatValue(invertY ? max : min)}
+        </text>
+        <line
+          x1={PADDING.left} x2={WIDTH - PADDING.right}
+          y1={PADDING.top + plotHeight} y2={PADDING.top + plotHeight}
+          className="stroke-gray-200 dark:stroke-gray-700"
+        />
+
+        {/* X axis labels */}
+        {labelIndexes.map(index => (
+          <text
+            key={index}
+            x={x(index)}
+            y={height - 8}
+            textAnchor={index === 0 ? 'start' : index === points.length - 1 ? 'end' : 'middle'}
+            className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+          >
+            {format(parseISO(points[index].date), 'MMM d, yyyy')}
+          </text>
+        ))}
+
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+
+        {hovered && hoverIndex !== null && (
+          <>
+            <line
+              x1={x(hoverIndex)} x2={x(hoverIndex)}
+              y1={PADDING.top} y2={PADDING.top + plotHeight}
+              className="stroke-gray-300 dark:stroke-gray-600"
+              strokeDasharray="4 4"
+            />
+            <circle cx={x(hoverIndex)} cy={y(hovered.value)} r={4} fill="currentColor" />
+          </>
+        )}
+      </svg>
+
+      {hovered && (
+        <div className="absolute top-0 right-0 px-2 py-1 rounded bg-black/80 dark:bg-gray-700 text-white text-xs shadow">
+          {format(parseISO(hovered.date), 'MMM d, yyyy')}: <span className="font-medium">{formatValue(hovered.value)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
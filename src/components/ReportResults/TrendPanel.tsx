@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, AlertTriangle, X } from 'lucide-react';
+import { DimensionFilter, MetricType, SearchType } from '@/lib/types';
+import { getSearchTypeOption } from '@/lib/search-types';
+import { rollupTrend, TrendGranularity, TREND_GRANULARITIES } from '@/lib/trends';
+import { getDimensionLabel } from '@/lib/dimensions';
+import { TrendChart } from './TrendChart';
+
+interface TrendPanelProps {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  filters: DimensionFilter[];
+  searchType: SearchType;
+  // Extra equals-filters narrowing the trend to a single row of the report
+  focus: DimensionFilter[];
+  onClearFocus: () => void;
+}
+
+const TREND_METRICS: { value: MetricType; label: string }[] = [
+  { value: 'clicks', label: 'Clicks' },
+  { value: 'impressions', label: 'Impressions' },
+  { value: 'ctr', label: 'CTR' },
+  { value: 'position', label: 'Position' },
+];
+
+const formatTrendValue = (metric: MetricType, value: number): string => {
+  if (metric === 'ctr') return `${(value * 100).toFixed(2)}%`;
+  if (metric === 'position') return value.toFixed(1);
+  return Math.round(value).toLocaleString();
+};
+
+export const TrendPanel: React.FC<TrendPanelProps> = ({
+  siteUrl,
+  startDate,
+  endDate,
+  filters,
+  searchType,
+  focus,
+  onClearFocus,
+}) => {
+  const [rows, setRows] = useState<{ keys: string[]; clicks?: number; impressions?: number; position?: number }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<MetricType>('clicks');
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+
+  // Some search types don't report every metric
+  const availableMetrics = useMemo(() => {
+    const unsupported = getSearchTypeOption(searchType)?.unsupportedMetrics ?? [];
+    return TREND_METRICS.filter(m => !unsupported.includes(m.value));
+  }, [searchType]);
+
+  // Serialized so the effect only re-runs when the filters actually change
+  const requestFilters = JSON.stringify([...filters, ...focus]);
+
+  useEffect(() => {
+    const fetchTrend = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/gsc/fetchData', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            siteUrl,
+            startDate,
+            endDate,
+            metrics: availableMetrics.map(m => m.value),
+            dimensions: ['date'],
+            filters: JSON.parse(requestFilters),
+            searchType,
+          }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load trend data');
+        }
+        setRows(result.data || []);
+      } catch (err: unknown) {
+        console.error('Error loading trend data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load trend data');
+        setRows([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTrend();
+  }, [siteUrl, startDate, endDate, searchType, requestFilters, availableMetrics]);
+
+  const points = useMemo(() => {
+    return rollupTrend(rows, granularity).map(point => ({ date: point.date, value: point[metric] }));
+  }, [rows, granularity, metric]);
+
+  const buttonClasses = (isActive: boolean) => `px-3 py-1 text-sm rounded-md border transition-colors ${
+    isActive
+      ? 'bg-blue-100 border-blue-300 text-blue-800 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200'
+      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600'
+  }`;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex flex-wrap gap-2">
+          {availableMetrics.map(option => (
+            <button key={option.value} onClick={() => setMetric(option.value)} className={buttonClasses(metric === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TREND_GRANULARITIES.map(option => (
+            <button key={option.value} onClick={() => setGranularity(option.value)} className={buttonClasses(granularity === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {focus.length > 0 && (
+        <div className="mb-3 flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <span className="mr-2">Trend for</span>
+          {focus.map(f => (
+            <span key={f.id} className="mr-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 max-w-xs truncate">
+              {getDimensionLabel(f.dimension)}: {f.expression}
+            </span>
+          ))}
+          <button onClick={onClearFocus} className="inline-flex items-center text-xs text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200">
+            <X className="w-3 h-3 mr-1" /> Show whole report
+          </button>
+        </div>
+      )}
+
+      {error ? (
+        <div className="p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-60">
+          <Loader2 className="animate-spin h-8 w-8 text-blue-600 dark:text-blue-400" />
+        </div>
+      ) : (
+        <TrendChart
+          points={points}
+          formatValue={(value) => formatTrendValue(metric, value)}
+          invertY={metric === 'position'}
+        />
+      )}
+    </div>
+  );
+};
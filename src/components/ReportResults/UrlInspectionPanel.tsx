@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, AlertTriangle, X, ExternalLink, RefreshCw } from 'lucide-react';
+import type { InspectionQuota, UrlInspectionResult } from '@/lib/url-inspection';
+
+interface UrlInspectionPanelProps {
+  siteUrl: string;
+  urls: string[];
+  onClose: () => void;
+}
+
+const verdictClasses: Record<string, string> = {
+  PASS: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  PARTIAL: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  FAIL: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  default: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const VerdictBadge: React.FC<{ verdict: string | null }> = ({ verdict }) => {
+  if (!verdict) return <span className="text-gray-400">-</span>;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${verdictClasses[verdict] || verdictClasses.default}`}>
+      {verdict}
+    </span>
+  );
+};
+
+export const UrlInspectionPanel: React.FC<UrlInspectionPanelProps> = ({ siteUrl, urls, onClose }) => {
+  const [results, setResults] = useState<UrlInspectionResult[]>([]);
+  const [quota, setQuota] = useState<InspectionQuota | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inspect = useCallback(async (forceRefresh: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gsc/inspect', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ siteUrl, urls, forceRefresh }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to inspect URLs');
+      }
+      setResults(result.results || []);
+      setQuota(result.quota || null);
+    } catch (err: unknown) {
+      console.error('Error inspecting URLs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to inspect URLs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [siteUrl, urls]);
+
+  useEffect(() => {
+    inspect(false);
+  }, [inspect]);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">
+          URL Inspection ({urls.length} {urls.length === 1 ? 'URL' : 'URLs'})
+        </h2>
+        <div className="flex items-center gap-3">
+          {quota && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {quota.remaining.toLocaleString()} of {quota.limit.toLocaleString()} inspections left today
+            </span>
+          )}
+          <button
+            onClick={() => inspect(true)}
+            disabled={isLoading}
+            className="inline-flex items-center px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600"
+            title="Inspect again instead of using cached results"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" /> Re-inspect
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close URL inspection"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="animate-spin h-8 w-8 text-blue-600 dark:text-blue-400" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                {['URL', 'Verdict', 'Coverage', 'Canonical', 'Last Crawl', 'Mobile Usability', 'Rich Results', ''].map(header => (
+                  <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {results.map(({ url, summary, cached, error: resultError }) => (
+                <tr key={url} className="align-top">
+                  <td className="px-3 py-2 max-w-xs truncate text-gray-900 dark:text-gray-200" title={url}>{url}</td>
+                  {!summary ? (
+                    <td colSpan={7} className="px-3 py-2 text-red-600 dark:text-red-400">{resultError || 'No result'}</td>
+                  ) : (
+                    <>
+                      <td className="px-3 py-2"><VerdictBadge verdict={summary.verdict} /></td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        {summary.coverageState || '-'}
+                        {summary.robotsTxtState === 'DISALLOWED' && (
+                          <span className="block text-xs text-red-600 dark:text-red-400">Blocked by robots.txt</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 max-w-xs text-gray-700 dark:text-gray-300">
+                        <span className="block truncate" title={summary.googleCanonical || undefined}>
+                          {summary.googleCanonical || '-'}
+                        </span>
+                        {/* Google picking a different canonical than the page declares is worth flagging */}
+                        {summary.userCanonical && summary.googleCanonical && summary.userCanonical !== summary.googleCanonical && (
+                          <span className="block truncate text-xs text-yellow-700 dark:text-yellow-400" title={summary.userCanonical}>
+                            Declared: {summary.userCanonical}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                        {summary.lastCrawlTime ? format(parseISO(summary.lastCrawlTime), 'MMM d, yyyy HH:mm') : 'Never'}
+                        {summary.crawledAs && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{summary.crawledAs.toLowerCase()}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        <VerdictBadge verdict={summary.mobileUsabilityVerdict} />
+                        {summary.mobileUsabilityIssues.map(issue => (
+                          <span key={issue} className="block text-xs text-gray-500 dark:text-gray-400">{issue}</span>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        <VerdictBadge verdict={summary.richResultsVerdict} />
+                        {summary.richResultTypes.length > 0 && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{summary.richResultTypes.join(', ')}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {summary.inspectionResultLink && (
+                          <a
+                            href={summary.inspectionResultLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            GSC <ExternalLink className="w-3 h-3 ml-1" />
+                          </a>
+                        )}
+                        {cached && <span className="block text-xs text-gray-400">cached</span>}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
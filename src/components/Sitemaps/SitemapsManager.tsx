@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, AlertTriangle, Trash2, RefreshCw, KeyRound } from 'lucide-react';
+import type { SitemapSummary } from '@/lib/sitemaps';
+
+interface SitemapsManagerProps {
+  siteUrl: string;
+}
+
+const formatDate = (value: string | null) => (value ? format(parseISO(value), 'MMM d, yyyy HH:mm') : '-');
+
+export const SitemapsManager: React.FC<SitemapsManagerProps> = ({ siteUrl }) => {
+  const [sitemaps, setSitemaps] = useState<SitemapSummary[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [hasWriteScope, setHasWriteScope] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newSitemap, setNewSitemap] = useState('');
+
+  const loadSitemaps = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/gsc/sitemaps?siteUrl=${encodeURIComponent(siteUrl)}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load sitemaps');
+      }
+      setSitemaps(result.sitemaps || []);
+      setCanManage(!!result.canManage);
+      setHasWriteScope(!!result.hasWriteScope);
+    } catch (err: unknown) {
+      console.error('Error loading sitemaps:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load sitemaps');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [siteUrl]);
+
+  useEffect(() => {
+    loadSitemaps();
+  }, [loadSitemaps]);
+
+  // Sends the user through Google consent again, this time asking for write access
+  const handleGrantWriteAccess = async () => {
+    try {
+      const returnTo = `${window.location.pathname}${window.location.search}`;
+      const response = await fetch(`/api/auth/google?write=1&returnTo=${encodeURIComponent(returnTo)}`);
+      const data = await response.json();
+      if (data.url) {
+        window.location.href = data.url;
+      }
+    } catch (err) {
+      console.error('Error starting OAuth flow:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSitemap.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/gsc/sitemaps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ siteUrl, feedpath: newSitemap.trim() }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to submit sitemap');
+      }
+      setNewSitemap('');
+      await loadSitemaps();
+    } catch (err: unknown) {
+      console.error('Error submitting sitemap:', err);
+      setError(err instanceof Error ? err.message : 'Failed to submit sitemap');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (path: string) => {
+    if (!confirm(`Remove ${path} from Search Console?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/gsc/sitemaps?siteUrl=${encodeURIComponent(siteUrl)}&feedpath=${encodeURIComponent(path)}`,
+        { method: 'DELETE' }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete sitemap');
+      }
+      await loadSitemaps();
+    } catch (err: unknown) {
+      console.error('Error deleting sitemap:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete sitemap');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "flex-grow px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-200">Sitemaps</h2>
+        <button
+          onClick={loadSitemaps}
+          disabled={isLoading}
+          className="inline-flex items-center px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-slate-600"
+        >
+          <RefreshCw className="w-4 h-4 mr-1" /> Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/50 border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 text-sm flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Submitting needs the opt-in write scope and full access to the property */}
+      {!isLoading && (canManage ? (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-6">
+          <input
+            className={inputClasses}
+            placeholder="https://example.com/sitemap.xml"
+            value={newSitemap}
+            onChange={(e) => setNewSitemap(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !newSitemap.trim()}
+            className="px-4 py-2 text-sm rounded-md border border-blue-300 bg-blue-50 text-blue-800 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200"
+          >
+            {isSaving ? 'Saving...' : 'Submit Sitemap'}
+          </button>
+        </form>
+      ) : !hasWriteScope ? (
+        <div className="mb-6 p-3 rounded-md border border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-400 flex flex-wrap items-center justify-between gap-2">
+          <span>Submitting and removing sitemaps needs write access to Search Console.</span>
+          <button
+            onClick={handleGrantWriteAccess}
+            className="inline-flex items-center px-3 py-1 rounded-md border border-blue-300 bg-blue-50 text-blue-800 hover:bg-blue-100 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200"
+          >
+            <KeyRound className="w-4 h-4 mr-1" /> Grant write access
+          </button>
+        </div>
+      ) : (
+        <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+          Only owners and full users of this property can submit or remove sitemaps.
+        </p>
+      ))}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="animate-spin h-8 w-8 text-blue-600 dark:text-blue-400" />
+        </div>
+      ) : sitemaps.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No sitemaps have been submitted for this property.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                {['Sitemap', 'Status', 'Submitted', 'Indexed', 'Warnings', 'Errors', 'Last Downloaded', ''].map(header => (
+                  <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sitemaps.map(sitemap => (
+                <tr key={sitemap.path}>
+                  <td className="px-3 py-2 max-w-sm truncate text-gray-900 dark:text-gray-200" title={sitemap.path}>
+                    {sitemap.path}
+                    {sitemap.isSitemapsIndex && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">index</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{sitemap.isPending ? 'Pending' : 'Processed'}</td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{sitemap.submitted.toLocaleString()}</td>
+                  <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{sitemap.indexed.toLocaleString()}</td>
+                  <td className={`px-3 py-2 ${sitemap.warnings > 0 ? 'text-yellow-700 dark:text-yellow-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {sitemap.warnings.toLocaleString()}
+                  </td>
+                  <td className={`px-3 py-2 ${sitemap.errors > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {sitemap.errors.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{formatDate(sitemap.lastDownloaded)}</td>
+                  <td className="px-3 py-2">
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(sitemap.path)}
+                        disabled={isSaving}
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50 dark:hover:text-red-400"
+                        aria-label={`Delete ${sitemap.path}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 // import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './tooltip'; // Removed complex tooltip
 import { Avatar, AvatarFallback, AvatarImage } from './avatar';
+import NotificationsMenu from './NotificationsMenu';
 import { clsx } from 'clsx';
 
 interface DashboardHeaderProps {
@@ -64,6 +65,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({ userName, userEmail,
           </div>
           {/* Right Side: User Info & Actions */}
           <div className="flex items-center">
+            <NotificationsMenu />
             <div className="flex items-center mr-4">
               <span className="text-gray-700 dark:text-gray-300 mr-3 hidden sm:inline">{userName || userEmail}</span>
               <Avatar>
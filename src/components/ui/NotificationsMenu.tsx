@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Bell, Settings, TrendingDown, TrendingUp, Loader2 } from 'lucide-react';
+import { describeAnomaly, isNegativeAnomaly, SiteAnomaly } from '@/lib/analysis/anomalies';
+
+const formatSiteUrl = (siteUrl: string) => siteUrl.replace(/^sc-domain:/, '').replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+const NotificationsMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [anomalies, setAnomalies] = useState<SiteAnomaly[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [showSettings, setShowSettings] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [email, setEmail] = useState('');
+  const [emailAvailable, setEmailAvailable] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) return;
+      const result = await response.json();
+      setAnomalies(result.anomalies || []);
+      setUnreadCount(result.unreadCount || 0);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  // Close the menu on clicks outside it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      if (response.ok) {
+        const readAt = new Date().toISOString();
+        setAnomalies(prev => prev.map(anomaly => ({ ...anomaly, read_at: anomaly.read_at ?? readAt })));
+        setUnreadCount(0);
+      }
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  const handleToggleSettings = async () => {
+    const next = !showSettings;
+    setShowSettings(next);
+    setSettingsMessage(null);
+    if (!next) return;
+    try {
+      const response = await fetch('/api/user/alert-settings');
+      const result = await response.json();
+      if (response.ok) {
+        setWebhookUrl(result.webhookUrl || '');
+        setEmail(result.email || '');
+        setEmailAvailable(!!result.emailAvailable);
+      }
+    } catch (err) {
+      console.error('Error loading alert settings:', err);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSettingsMessage(null);
+    try {
+      const response = await fetch('/api/user/alert-settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ webhookUrl, email }),
+      });
+      const result = await response.json();
+      setSettingsMessage(response.ok ? 'Alert settings saved.' : result.error || 'Failed to save alert settings');
+    } catch (err) {
+      console.error('Error saving alert settings:', err);
+      setSettingsMessage('Failed to save alert settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClasses = "w-full px-2 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700 dark:bg-slate-700 dark:border-gray-600 dark:text-gray-300";
+
+  return (
+    <div className="relative mr-4" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 z-20">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-semibold text-gray-900 dark:text-gray-200">Alerts</span>
+            <div className="flex items-center space-x-3">
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={handleToggleSettings}
+                className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                aria-label="Alert settings"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {showSettings && (
+            <form onSubmit={handleSaveSettings} className="px-4 py-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+              <label className="block text-xs text-gray-600 dark:text-gray-400">
+                <span className="block mb-1">Webhook URL</span>
+                <input
+                  type="url"
+                  className={inputClasses}
+                  placeholder="https://example.com/hooks/gsc"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                />
+              </label>
+              <label className="block text-xs text-gray-600 dark:text-gray-400">
+                <span className="block mb-1">Email</span>
+                <input
+                  type="email"
+                  className={inputClasses}
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </label>
+              {!emailAvailable && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Email alerts need an SMTP server configured on the server.</p>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-600 dark:text-gray-400">{settingsMessage}</span>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="inline-flex items-center px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSaving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Save
+                </button>
+              </div>
+            </form>
+          )}
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {anomalies.length === 0 && (
+              <li className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                No unusual changes found in your sites&apos; daily traffic.
+              </li>
+            )}
+            {anomalies.map(anomaly => {
+              const negative = isNegativeAnomaly(anomaly);
+              const Icon = anomaly.direction === 'drop' ? TrendingDown : TrendingUp;
+              return (
+                <li key={anomaly.id} className={`px-4 py-3 flex items-start ${anomaly.read_at ? '' : 'bg-blue-50 dark:bg-blue-900/20'}`}>
+                  <Icon className={`h-4 w-4 mt-0.5 mr-3 flex-shrink-0 ${negative ? 'text-red-500' : 'text-green-500'}`} />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-gray-200">{describeAnomaly(anomaly)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {formatSiteUrl(anomaly.site_url)} · {format(parseISO(anomaly.date), 'EEE, MMM d')}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsMenu;
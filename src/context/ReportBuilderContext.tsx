@@ -1,7 +1,18 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Metric, TimeRange, ReportConfig, MetricType } from '@/lib/types';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Metric, Dimension, TimeRange, CalendarDate, ReportConfig, DimensionFilter, SearchType, ComparisonMode, ReportTemplate, ReportTemplateConfig } from '@/lib/types';
+import { DEFAULT_SEARCH_TYPE } from '@/lib/search-types';
+import {
+  DEFAULT_DISPLAY_TIMEZONE,
+  getComparisonRange,
+  getEstimatedLatestCompleteDate,
+  getPresetTimeRange,
+  resolveTimeRange,
+} from '@/lib/date-ranges';
+import { CalculatedMetric, getCalculatedMetricKey, isCalculatedMetricKey } from '@/lib/formulas';
+import type { ReportTemplateInput } from '@/lib/report-templates';
+import type { DataFreshness } from '@/lib/google';
 
 // Define available metrics
 const AVAILABLE_METRICS: Metric[] = [
@@ -35,63 +46,105 @@ const AVAILABLE_METRICS: Metric[] = [
   },
 ];
 
-// Get last 7 days range
-const getLast7Days = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 7);
-  
-  return {
-    type: 'last7days',
-    name: 'Last 7 Days',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
+// Calculated metrics are dragged and ordered like the built-in ones
+const toMetric = (calculated: CalculatedMetric): Metric => ({
+  id: getCalculatedMetricKey(calculated.id),
+  type: 'calculated',
+  name: calculated.name,
+  description: calculated.description || calculated.formula,
+  formula: calculated.formula,
+});
 
-// Get last 28 days range
-const getLast28Days = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 28);
-  
-  return {
-    type: 'last28days',
-    name: 'Last 28 Days',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
+// Define available dimensions
+const AVAILABLE_DIMENSIONS: Dimension[] = [
+  {
+    id: 'query',
+    type: 'query',
+    name: 'Query',
+    description: 'Search query entered by the user',
+  },
+  {
+    id: 'page',
+    type: 'page',
+    name: 'Page',
+    description: 'Landing page URL shown in search results',
+  },
+  {
+    id: 'country',
+    type: 'country',
+    name: 'Country',
+    description: 'Country the search came from (ISO 3166-1 alpha-3)',
+  },
+  {
+    id: 'device',
+    type: 'device',
+    name: 'Device',
+    description: 'Device type: desktop, mobile or tablet',
+  },
+  {
+    id: 'date',
+    type: 'date',
+    name: 'Date',
+    description: 'Day the search happened (Pacific Time)',
+  },
+  {
+    id: 'searchAppearance',
+    type: 'searchAppearance',
+    name: 'Search Appearance',
+    description: 'Search result feature, e.g. rich results or AMP',
+  },
+];
 
-// Get last 3 months range
-const getLast3Months = (): TimeRange => {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setMonth(startDate.getMonth() - 3);
-  
-  return {
-    type: 'last3months',
-    name: 'Last 3 Months',
-    startDate,
-    endDate,
-    isCustom: false,
-  };
-};
+// Templates are listed by name, like the API returns them
+const sortTemplates = (templates: ReportTemplate[]) =>
+  [...templates].sort((a, b) => a.name.localeCompare(b.name));
 
 interface ReportBuilderContextProps {
   availableMetrics: Metric[];
   selectedMetrics: Metric[];
+  calculatedMetrics: CalculatedMetric[];
+  saveCalculatedMetric: (metric: Omit<CalculatedMetric, 'id'> & { id?: string }) => Promise<CalculatedMetric>;
+  deleteCalculatedMetric: (id: string) => Promise<void>;
+  availableDimensions: Dimension[];
+  selectedDimensions: Dimension[];
   timeRange: TimeRange;
+  // The selected range with preset dates worked out against the latest complete day
+  resolvedTimeRange: TimeRange;
+  // Newest day with complete data for the site; estimated until the property has been checked
+  latestCompleteDate: CalendarDate;
+  dataFreshness: DataFreshness | null;
+  // Timezone report times are shown in; dates and ranges stay Search Console (Pacific Time) days
+  displayTimezone: string;
+  setDisplayTimezone: (timeZone: string) => Promise<void>;
   addMetric: (metric: Metric) => void;
   removeMetric: (metricId: string) => void;
   setTimeRange: (range: TimeRange) => void;
-  setCustomDateRange: (startDate: Date, endDate: Date) => void;
+  setCustomDateRange: (startDate: CalendarDate, endDate: CalendarDate) => void;
+  filters: DimensionFilter[];
+  addFilter: (filter: Omit<DimensionFilter, 'id'>) => void;
+  updateFilter: (filterId: string, changes: Partial<Omit<DimensionFilter, 'id'>>) => void;
+  removeFilter: (filterId: string) => void;
+  searchType: SearchType;
+  setSearchType: (searchType: SearchType) => void;
+  comparisonMode: ComparisonMode;
+  setComparisonMode: (mode: ComparisonMode) => void;
+  customComparisonRange: { startDate: CalendarDate; endDate: CalendarDate } | null;
+  setCustomComparisonRange: (startDate: CalendarDate, endDate: CalendarDate) => void;
   resetConfig: () => void;
   getReportConfig: () => ReportConfig;
+  templates: ReportTemplate[];
+  activeTemplate: ReportTemplate | null;
+  loadTemplate: (template: ReportTemplate) => void;
+  saveTemplate: (template: { id?: string; name: string; siteOnly: boolean; isDefault: boolean }) => Promise<ReportTemplate>;
+  duplicateTemplate: (template: ReportTemplate) => Promise<ReportTemplate>;
+  setDefaultTemplate: (template: ReportTemplate, isDefault: boolean) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
   isMetricSelected: (metricId: string) => boolean;
   reorderSelectedMetrics: (startIndex: number, endIndex: number) => void;
+  addDimension: (dimension: Dimension) => void;
+  removeDimension: (dimensionId: string) => void;
+  isDimensionSelected: (dimensionId: string) => boolean;
+  reorderSelectedDimensions: (startIndex: number, endIndex: number) => void;
 }
 
 const ReportBuilderContext = createContext<ReportBuilderContextProps | undefined>(undefined);
@@ -106,7 +159,23 @@ export const ReportBuilderProvider: React.FC<ReportBuilderProviderProps> = ({
   siteUrl
 }) => {
   const [selectedMetrics, setSelectedMetrics] = useState<Metric[]>([]);
-  const [timeRange, setTimeRange] = useState<TimeRange>(getLast7Days());
+  const [calculatedMetrics, setCalculatedMetrics] = useState<CalculatedMetric[]>([]);
+  const [selectedDimensions, setSelectedDimensions] = useState<Dimension[]>([AVAILABLE_DIMENSIONS[0]]);
+  const [timeRange, setTimeRange] = useState<TimeRange>(getPresetTimeRange('last7days'));
+  const [filters, setFilters] = useState<DimensionFilter[]>([]);
+  const [searchType, setSearchType] = useState<SearchType>(DEFAULT_SEARCH_TYPE);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
+  const [customComparisonRange, setCustomComparisonRangeState] = useState<{ startDate: CalendarDate; endDate: CalendarDate } | null>(null);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [dataFreshness, setDataFreshness] = useState<DataFreshness | null>(null);
+  
+  const [displayTimezone, setDisplayTimezoneState] = useState<string>(DEFAULT_DISPLAY_TIMEZONE);
+  
+  const latestCompleteDate = dataFreshness?.latestCompleteDate ?? getEstimatedLatestCompleteDate();
+  const resolvedTimeRange = timeRange.type === 'custom'
+    ? timeRange
+    : getPresetTimeRange(timeRange.type, latestCompleteDate);
   
   // Check if a metric is already selected
   const isMetricSelected = (metricId: string): boolean => {
@@ -125,13 +194,74 @@ export const ReportBuilderProvider: React.FC<ReportBuilderProviderProps> = ({
     setSelectedMetrics(prev => prev.filter(metric => metric.id !== metricId));
   };
   
+  // Keep selected calculated metrics in step with the saved ones, dropping deleted ones
+  const syncSelectedCalculatedMetrics = useCallback((metrics: CalculatedMetric[]) => {
+    const byKey = new Map(metrics.map(metric => [getCalculatedMetricKey(metric.id), toMetric(metric)]));
+    setSelectedMetrics(prev => prev
+      .filter(metric => !isCalculatedMetricKey(metric.id) || byKey.has(metric.id))
+      .map(metric => byKey.get(metric.id) ?? metric));
+  }, []);
+  
+  // Save a new or edited calculated metric
+  const saveCalculatedMetric = async (metric: Omit<CalculatedMetric, 'id'> & { id?: string }): Promise<CalculatedMetric> => {
+    const response = await fetch('/api/user/calculated-metrics', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(metric),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save calculated metric');
+    }
+    
+    const saved: CalculatedMetric = result.metric;
+    const updated = metric.id
+      ? calculatedMetrics.map(existing => existing.id === saved.id ? saved : existing)
+      : [...calculatedMetrics, saved];
+    setCalculatedMetrics(updated);
+    syncSelectedCalculatedMetrics(updated);
+    return saved;
+  };
+  
+  // Delete a calculated metric
+  const deleteCalculatedMetric = async (id: string) => {
+    const response = await fetch(`/api/user/calculated-metrics?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to delete calculated metric');
+    }
+    
+    const updated = calculatedMetrics.filter(metric => metric.id !== id);
+    setCalculatedMetrics(updated);
+    syncSelectedCalculatedMetrics(updated);
+  };
+  
+  // Check if a dimension is already selected
+  const isDimensionSelected = (dimensionId: string): boolean => {
+    return selectedDimensions.some(dimension => dimension.id === dimensionId);
+  };
+  
+  // Add a dimension to selection
+  const addDimension = (dimension: Dimension) => {
+    if (!isDimensionSelected(dimension.id)) {
+      setSelectedDimensions(prev => [...prev, dimension]);
+    }
+  };
+  
+  // Remove a dimension from selection
+  const removeDimension = (dimensionId: string) => {
+    setSelectedDimensions(prev => prev.filter(dimension => dimension.id !== dimensionId));
+  };
+  
   // Set a predefined time range
   const handleSetTimeRange = (range: TimeRange) => {
     setTimeRange(range);
   };
   
   // Set a custom date range
-  const setCustomDateRange = (startDate: Date, endDate: Date) => {
+  const setCustomDateRange = (startDate: CalendarDate, endDate: CalendarDate) => {
     setTimeRange({
       type: 'custom',
       name: 'Custom Range',
@@ -141,18 +271,60 @@ export const ReportBuilderProvider: React.FC<ReportBuilderProviderProps> = ({
     });
   };
   
+  // Set the custom range used by the 'custom' comparison mode
+  const setCustomComparisonRange = (startDate: CalendarDate, endDate: CalendarDate) => {
+    setCustomComparisonRangeState({ startDate, endDate });
+  };
+  
+  // Add a dimension filter
+  const addFilter = (filter: Omit<DimensionFilter, 'id'>) => {
+    setFilters(prev => [...prev, { ...filter, id: `filter-${Date.now()}` }]);
+  };
+  
+  // Update an existing dimension filter
+  const updateFilter = (filterId: string, changes: Partial<Omit<DimensionFilter, 'id'>>) => {
+    setFilters(prev => prev.map(filter => 
+      filter.id === filterId ? { ...filter, ...changes } : filter
+    ));
+  };
+  
+  // Remove a dimension filter
+  const removeFilter = (filterId: string) => {
+    setFilters(prev => prev.filter(filter => filter.id !== filterId));
+  };
+  
   // Reset configuration
   const resetConfig = () => {
     setSelectedMetrics([]);
-    setTimeRange(getLast7Days());
+    setSelectedDimensions([AVAILABLE_DIMENSIONS[0]]);
+    setTimeRange(getPresetTimeRange('last7days'));
+    setFilters([]);
+    setSearchType(DEFAULT_SEARCH_TYPE);
+    setComparisonMode('none');
+    setCustomComparisonRangeState(null);
+    setActiveTemplateId(null);
   };
   
   // Get the complete report configuration
   const getReportConfig = (): ReportConfig => {
+    // Preset ranges are resolved when the report runs, not when they were picked
+    const comparisonRange = getComparisonRange(
+      comparisonMode,
+      resolvedTimeRange.startDate,
+      resolvedTimeRange.endDate,
+      customComparisonRange ?? undefined
+    );
+    
     return {
       selectedMetrics,
-      timeRange,
+      selectedDimensions,
+      timeRange: resolvedTimeRange,
       siteUrl,
+      filters,
+      searchType,
+      comparison: comparisonRange
+        ? { mode: comparisonMode, ...comparisonRange }
+        : { mode: 'none' },
     };
   };
   
@@ -164,54 +336,257 @@ export const ReportBuilderProvider: React.FC<ReportBuilderProviderProps> = ({
     setSelectedMetrics(result);
   };
   
-  // Load saved configuration from localStorage on component mount
+  // Reorder selected dimensions (determines the column order of the report)
+  const reorderSelectedDimensions = (startIndex: number, endIndex: number) => {
+    const result = Array.from(selectedDimensions);
+    const [removed] = result.splice(startIndex, 1);
+    result.splice(endIndex, 0, removed);
+    setSelectedDimensions(result);
+  };
+  
+  // The builder state as stored in a template, with preset ranges kept symbolic
+  const getTemplateConfig = (): ReportTemplateConfig => ({
+    metrics: selectedMetrics.map(metric => metric.id),
+    dimensions: selectedDimensions.map(dimension => dimension.type),
+    timeRange: timeRange.type === 'custom'
+      ? { type: 'custom', startDate: timeRange.startDate, endDate: timeRange.endDate }
+      : { type: timeRange.type },
+    filters,
+    searchType,
+    comparison: comparisonMode === 'custom' && customComparisonRange
+      ? { mode: 'custom', ...customComparisonRange }
+      : { mode: comparisonMode === 'custom' ? 'none' : comparisonMode },
+  });
+  
+  // Restore the builder from a template. Metrics the user has since deleted are skipped.
+  const applyTemplate = useCallback((template: ReportTemplate, calculated: CalculatedMetric[]) => {
+    const { config } = template;
+    const metrics = [...AVAILABLE_METRICS, ...calculated.map(toMetric)];
+    setSelectedMetrics(config.metrics
+      .map(id => metrics.find(metric => metric.id === id))
+      .filter((metric): metric is Metric => !!metric));
+    setSelectedDimensions(config.dimensions
+      .map(type => AVAILABLE_DIMENSIONS.find(dimension => dimension.type === type))
+      .filter((dimension): dimension is Dimension => !!dimension));
+    setTimeRange(resolveTimeRange(config.timeRange));
+    setFilters(config.filters);
+    setSearchType(config.searchType);
+    setComparisonMode(config.comparison.mode);
+    setCustomComparisonRangeState(config.comparison.mode === 'custom'
+      ? { startDate: config.comparison.startDate!, endDate: config.comparison.endDate! }
+      : null);
+    setActiveTemplateId(template.id);
+  }, []);
+  
+  // Load a saved template into the builder
+  const loadTemplate = (template: ReportTemplate) => {
+    applyTemplate(template, calculatedMetrics);
+  };
+  
+  // Create or update a template through the API and keep the list in step
+  const postTemplate = async (template: ReportTemplateInput): Promise<ReportTemplate> => {
+    const response = await fetch('/api/user/report-templates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(template),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save report template');
+    }
+    
+    const saved: ReportTemplate = result.template;
+    setTemplates(prev => sortTemplates([
+      // A new default replaces the previous one of the same site
+      ...prev
+        .filter(existing => existing.id !== saved.id)
+        .map(existing => saved.isDefault && existing.siteUrl === saved.siteUrl ? { ...existing, isDefault: false } : existing),
+      saved,
+    ]));
+    return saved;
+  };
+  
+  // Save the current builder setup as a new template, or over an existing one
+  const saveTemplate = async (template: { id?: string; name: string; siteOnly: boolean; isDefault: boolean }) => {
+    const saved = await postTemplate({
+      id: template.id,
+      name: template.name,
+      siteUrl: template.siteOnly ? siteUrl : null,
+      config: getTemplateConfig(),
+      isDefault: template.isDefault,
+    });
+    setActiveTemplateId(saved.id);
+    return saved;
+  };
+  
+  // Copy a template under a new name
+  const duplicateTemplate = (template: ReportTemplate) => {
+    return postTemplate({
+      name: `${template.name} (copy)`,
+      siteUrl: template.siteUrl,
+      config: template.config,
+      isDefault: false,
+    });
+  };
+  
+  // Make a template the one the builder opens with, or stop it being the default
+  const setDefaultTemplate = async (template: ReportTemplate, isDefault: boolean) => {
+    await postTemplate({
+      id: template.id,
+      name: template.name,
+      siteUrl: template.siteUrl,
+      config: template.config,
+      isDefault,
+    });
+  };
+  
+  // Delete a template
+  const deleteTemplate = async (id: string) => {
+    const response = await fetch(`/api/user/report-templates?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to delete report template');
+    }
+    
+    setTemplates(prev => prev.filter(template => template.id !== id));
+    if (activeTemplateId === id) setActiveTemplateId(null);
+  };
+  
+  // Save the timezone report times are shown in
+  const setDisplayTimezone = async (timeZone: string) => {
+    const response = await fetch('/api/user/timezone', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ displayTimezone: timeZone }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save timezone');
+    }
+    setDisplayTimezoneState(result.displayTimezone);
+  };
+  
+  // Load the user's display timezone
   useEffect(() => {
-    try {
-      const savedConfig = localStorage.getItem('reportConfig');
-      if (savedConfig) {
-        const config = JSON.parse(savedConfig);
-        
-        // Convert string dates back to Date objects
-        if (config.timeRange) {
-          config.timeRange.startDate = new Date(config.timeRange.startDate);
-          config.timeRange.endDate = new Date(config.timeRange.endDate);
-          setTimeRange(config.timeRange);
-        }
-        
-        if (config.selectedMetrics) {
-          setSelectedMetrics(config.selectedMetrics);
-        }
+    const loadDisplayTimezone = async () => {
+      try {
+        const response = await fetch('/api/user/timezone');
+        if (!response.ok) return;
+        const result = await response.json();
+        setDisplayTimezoneState(result.displayTimezone);
+      } catch (error) {
+        console.error('Error loading display timezone:', error);
       }
-    } catch (error) {
-      console.error('Error loading saved configuration:', error);
-    }
+    };
+    
+    loadDisplayTimezone();
   }, []);
   
-  // Save configuration to localStorage when it changes
+  // Find the newest complete day of the site, which preset ranges end on
   useEffect(() => {
-    try {
-      const config = {
-        selectedMetrics,
-        timeRange,
-      };
-      localStorage.setItem('reportConfig', JSON.stringify(config));
-    } catch (error) {
-      console.error('Error saving configuration:', error);
-    }
-  }, [selectedMetrics, timeRange]);
+    if (!siteUrl) return;
+    
+    const loadDataFreshness = async () => {
+      try {
+        const params = new URLSearchParams({ siteUrl, searchType });
+        const response = await fetch(`/api/gsc/data-freshness?${params}`);
+        if (!response.ok) return;
+        setDataFreshness(await response.json());
+      } catch (error) {
+        console.error('Error loading data freshness:', error);
+      }
+    };
+    
+    setDataFreshness(null);
+    loadDataFreshness();
+  }, [siteUrl, searchType]);
+  
+  // Load the user's calculated metrics and templates, then open the default template:
+  // the site's own default first, then the one for all sites
+  useEffect(() => {
+    // Builder setups used to be kept in localStorage with frozen dates
+    localStorage.removeItem('reportConfig');
+    
+    const loadSavedSetup = async () => {
+      let calculated: CalculatedMetric[] = [];
+      try {
+        const response = await fetch('/api/user/calculated-metrics');
+        if (response.ok) {
+          const result = await response.json();
+          calculated = result.metrics || [];
+          setCalculatedMetrics(calculated);
+          syncSelectedCalculatedMetrics(calculated);
+        }
+      } catch (error) {
+        console.error('Error loading calculated metrics:', error);
+      }
+      
+      try {
+        const query = siteUrl ? `?siteUrl=${encodeURIComponent(siteUrl)}` : '';
+        const response = await fetch(`/api/user/report-templates${query}`);
+        if (!response.ok) return;
+        const result = await response.json();
+        const loaded: ReportTemplate[] = result.templates || [];
+        setTemplates(loaded);
+        
+        const defaultTemplate = loaded.find(template => template.isDefault && template.siteUrl)
+          ?? loaded.find(template => template.isDefault);
+        if (defaultTemplate) applyTemplate(defaultTemplate, calculated);
+      } catch (error) {
+        console.error('Error loading report templates:', error);
+      }
+    };
+    
+    loadSavedSetup();
+  }, [siteUrl, syncSelectedCalculatedMetrics, applyTemplate]);
   
   const value = {
-    availableMetrics: AVAILABLE_METRICS,
+    availableMetrics: [...AVAILABLE_METRICS, ...calculatedMetrics.map(toMetric)],
     selectedMetrics,
+    calculatedMetrics,
+    saveCalculatedMetric,
+    deleteCalculatedMetric,
+    availableDimensions: AVAILABLE_DIMENSIONS,
+    selectedDimensions,
     timeRange,
+    resolvedTimeRange,
+    latestCompleteDate,
+    dataFreshness,
+    displayTimezone,
+    setDisplayTimezone,
     addMetric,
     removeMetric,
     setTimeRange: handleSetTimeRange,
     setCustomDateRange,
+    filters,
+    addFilter,
+    updateFilter,
+    removeFilter,
+    searchType,
+    setSearchType,
+    comparisonMode,
+    setComparisonMode,
+    customComparisonRange,
+    setCustomComparisonRange,
     resetConfig,
     getReportConfig,
+    templates,
+    activeTemplate: templates.find(template => template.id === activeTemplateId) ?? null,
+    loadTemplate,
+    saveTemplate,
+    duplicateTemplate,
+    setDefaultTemplate,
+    deleteTemplate,
     isMetricSelected,
     reorderSelectedMetrics,
+    addDimension,
+    removeDimension,
+    isDimensionSelected,
+    reorderSelectedDimensions,
   };
   
   return (
@@ -0,0 +1,388 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabaseAdmin } from './supabase';
+import { querySearchAnalytics } from './google';
+import { getLatestFinalDate } from './warehouse';
+import { isSmtpConfigured, sendMail } from './smtp';
+import { postWebhook } from './webhooks';
+import {
+  DEFAULT_ANOMALY_OPTIONS,
+  describeAnomaly,
+  detectAnomalies,
+  SiteAnomaly,
+} from './analysis/anomalies';
+
+// Recent final days checked on every run, so a missed run is caught up
+const CHECK_DAYS = 3;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Failed deliveries are retried on later runs, up to this many attempts
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface AlertSettings {
+  webhookUrl: string | null;
+  email: string | null;
+}
+
+export interface AnomalyDetectionResult {
+  siteUrl: string;
+  anomalies: number;
+  error?: string;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Checks the latest final days of a property against its day-of-week
+ * baseline and records new anomalies. Returns only the anomalies that
+ * weren't recorded by an earlier run.
+ */
+export async function detectPropertyAnomalies(userId: string, siteUrl: string): Promise<SiteAnomaly[]> {
+  const endDate = getLatestFinalDate();
+  const dates = Array.from({ length: CHECK_DAYS }, (_, i) => toDateString(addDays(parseISO(endDate), -i)));
+  const startDate = toDateString(addDays(parseISO(endDate), -(CHECK_DAYS - 1) - DEFAULT_ANOMALY_OPTIONS.baselineWeeks * 7));
+
+  const rows = await querySearchAnalytics(userId, siteUrl, startDate, endDate, ['date']);
+  const anomalies = detectAnomalies(rows, dates);
+  if (anomalies.length === 0) return [];
+
+  // Anomalies already recorded for a day are left alone
+  const { data, error } = await supabaseAdmin
+    .from('site_anomalies')
+    .upsert(anomalies.map(anomaly => ({
+      user_id: userId,
+      site_url: siteUrl,
+      date: anomaly.date,
+      metric: anomaly.metric,
+      direction: anomaly.direction,
+      value: anomaly.value,
+      expected: anomaly.expected,
+      z_score: anomaly.zScore,
+    })), {
+      onConflict: 'user_id,site_url,date,metric',
+      ignoreDuplicates: true
+    })
+    .select('*');
+
+  if (error) {
+    console.error(`[detectPropertyAnomalies] Failed to record anomalies for ${siteUrl}:`, error);
+    throw new Error('Failed to record anomalies');
+  }
+
+  return (data || []) as SiteAnomaly[];
+}
+
+/**
+ * Gets where a user's alerts are delivered
+ */
+export async function getAlertSettings(userId: string): Promise<AlertSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('user_settings')
+    .select('alert_webhook_url, alert_email')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getAlertSettings] Failed to load alert settings:', error);
+    throw new Error('Failed to load alert settings');
+  }
+
+  return {
+    webhookUrl: data?.alert_webhook_url ?? null,
+    email: data?.alert_email ?? null,
+  };
+}
+
+/**
+ * Saves where a user's alerts are delivered (null turns a channel off)
+ */
+export async function saveAlertSettings(userId: string, settings: AlertSettings): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_settings')
+    .upsert({
+      user_id: userId,
+      alert_webhook_url: settings.webhookUrl,
+      alert_email: settings.email,
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) {
+    console.error('[saveAlertSettings] Failed to save alert settings:', error);
+    throw new Error('Failed to save alert settings');
+  }
+}
+
+function postAnomalies(url: string, anomalies: SiteAnomaly[]): Promise<void> {
+  return postWebhook(url, {
+    event: 'gsc.anomalies',
+    anomalies: anomalies.map(anomaly => ({
+      siteUrl: anomaly.site_url,
+      date: anomaly.date,
+      metric: anomaly.metric,
+      direction: anomaly.direction,
+      value: anomaly.value,
+      expected: anomaly.expected,
+      zScore: anomaly.z_score,
+      message: describeAnomaly(anomaly),
+    })),
+  }, WEBHOOK_TIMEOUT_MS);
+}
+
+function formatAlertEmail(anomalies: SiteAnomaly[]): string {
+  const lines = anomalies.map(anomaly => `- ${anomaly.site_url}, ${anomaly.date}: ${describeAnomaly(anomaly)}`);
+  return [
+    'Unusual changes were found in your Search Console data:',
+    '',
+    ...lines,
+    '',
+    'Expected values are the median of the same weekday over the previous weeks.',
+  ].join('\n');
+}
+
+/**
+ * Sends anomalies to the user's webhook and email, if configured, and marks
+ * them delivered when any channel succeeds. When every configured channel
+ * fails, the attempt and its error are recorded so a later run retries
+ * (see listUndeliveredAnomalies). Delivery errors are logged rather than
+ * thrown; the anomalies still show up in the dashboard.
+ */
+export async function deliverAnomalies(userId: string, anomalies: SiteAnomaly[]): Promise<void> {
+  if (anomalies.length === 0) return;
+
+  const settings = await getAlertSettings(userId);
+  let delivered = false;
+  const errors: string[] = [];
+
+  if (settings.webhookUrl) {
+    try {
+      await postAnomalies(settings.webhookUrl, anomalies);
+      delivered = true;
+    } catch (error) {
+      console.error('[deliverAnomalies] Webhook delivery failed:', error);
+      errors.push(`Webhook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (settings.email && isSmtpConfigured()) {
+    try {
+      await sendMail({
+        to: settings.email,
+        subject: `Search Console alert: ${anomalies.length} unusual ${anomalies.length === 1 ? 'change' : 'changes'}`,
+        text: formatAlertEmail(anomalies),
+      });
+      delivered = true;
+    } catch (error) {
+      console.error('[deliverAnomalies] Email delivery failed:', error);
+      errors.push(`Email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (!delivered) {
+    // Nothing to retry when the user hasn't set up any channel
+    if (errors.length > 0) await recordFailedDelivery(anomalies, errors.join('; '));
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('site_anomalies')
+    .update({ delivered_at: new Date().toISOString() })
+    .in('id', anomalies.map(anomaly => anomaly.id));
+
+  if (error) {
+    console.error('[deliverAnomalies] Failed to mark anomalies delivered:', error);
+  }
+}
+
+async function recordFailedDelivery(anomalies: SiteAnomaly[], message: string): Promise<void> {
+  const results = await Promise.all(anomalies.map(anomaly => supabaseAdmin
+    .from('site_anomalies')
+    .update({ delivery_attempts: (anomaly.delivery_attempts ?? 0) + 1, last_delivery_error: message })
+    .eq('id', anomaly.id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed) {
+    console.error('[recordFailedDelivery] Failed to record delivery failure:', failed.error);
+  }
+}
+
+/**
+ * Anomalies whose delivery failed before and can still be retried
+ */
+async function listUndeliveredAnomalies(): Promise<(SiteAnomaly & { user_id: string })[]> {
+  const { data, error } = await supabaseAdmin
+    .from('site_anomalies')
+    .select('*')
+    .is('delivered_at', null)
+    .gt('delivery_attempts', 0)
+    .lt('delivery_attempts', MAX_DELIVERY_ATTEMPTS)
+    .order('detected_at', { ascending: true });
+
+  if (error) {
+    console.error('[listUndeliveredAnomalies] Failed to load undelivered anomalies:', error);
+    return [];
+  }
+
+  return (data || []) as (SiteAnomaly & { user_id: string })[];
+}
+
+/**
+ * The properties to monitor: each user's selected site plus every property
+ * registered for warehouse sync, once per user and site. Returns the
+ * `maxProperties` that were checked longest ago (never checked first), so
+ * runs take turns when there are more properties than one run checks.
+ */
+async function listMonitoredProperties(maxProperties: number): Promise<{ userId: string; siteUrl: string }[]> {
+  const [selected, synced, checks] = await Promise.all([
+    supabaseAdmin
+      .from('user_settings')
+      .select('user_id, selected_site')
+      .not('selected_site', 'is', null)
+      .order('user_id', { ascending: true }),
+    supabaseAdmin
+      .from('gsc_sync_state')
+      .select('user_id, site_url')
+      .eq('search_type', 'web')
+      .order('created_at', { ascending: true }),
+    supabaseAdmin
+      .from('anomaly_checks')
+      .select('user_id, site_url, last_checked_at'),
+  ]);
+
+  if (selected.error || synced.error || checks.error) {
+    console.error('[listMonitoredProperties] Failed to load properties:', selected.error || synced.error || checks.error);
+    throw new Error('Failed to load properties to check');
+  }
+
+  const properties = new Map<string, { userId: string; siteUrl: string }>();
+  for (const { user_id: userId, selected_site: siteUrl } of selected.data || []) {
+    properties.set(`${userId}|${siteUrl}`, { userId, siteUrl });
+  }
+  for (const { user_id: userId, site_url: siteUrl } of synced.data || []) {
+    properties.set(`${userId}|${siteUrl}`, { userId, siteUrl });
+  }
+
+  const lastCheckedAt = new Map<string, string>(
+    (checks.data || []).map(check => [`${check.user_id}|${check.site_url}`, check.last_checked_at])
+  );
+  // ISO timestamps sort chronologically; '' puts never-checked properties first
+  const checkedAt = ({ userId, siteUrl }: { userId: string; siteUrl: string }) =>
+    lastCheckedAt.get(`${userId}|${siteUrl}`) ?? '';
+
+  return [...properties.values()]
+    .sort((a, b) => checkedAt(a).localeCompare(checkedAt(b)))
+    .slice(0, maxProperties);
+}
+
+/**
+ * Records that a property was checked, so the next runs check others first
+ */
+async function markPropertyChecked(userId: string, siteUrl: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('anomaly_checks')
+    .upsert({
+      user_id: userId,
+      site_url: siteUrl,
+      last_checked_at: new Date().toISOString(),
+    }, {
+      onConflict: 'user_id,site_url'
+    });
+
+  if (error) {
+    console.error(`[markPropertyChecked] Failed to record the check of ${siteUrl}:`, error);
+  }
+}
+
+/**
+ * Checks every monitored property (see listMonitoredProperties) and
+ * delivers new anomalies per user. Used by the daily cron job.
+ */
+export async function runAnomalyDetection(maxProperties: number = 50): Promise<AnomalyDetectionResult[]> {
+  const properties = await listMonitoredProperties(maxProperties);
+
+  const results: AnomalyDetectionResult[] = [];
+  const newByUser = new Map<string, SiteAnomaly[]>();
+
+  // One property at a time to stay well inside the GSC quota
+  for (const { userId, siteUrl } of properties) {
+    try {
+      const anomalies = await detectPropertyAnomalies(userId, siteUrl);
+      newByUser.set(userId, [...(newByUser.get(userId) ?? []), ...anomalies]);
+      results.push({ siteUrl, anomalies: anomalies.length });
+    } catch (error: unknown) {
+      console.error(`[runAnomalyDetection] Failed to check ${siteUrl}:`, error);
+      results.push({ siteUrl, anomalies: 0, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    // Failed checks take their turn too, so one broken property can't hold up the rest
+    await markPropertyChecked(userId, siteUrl);
+  }
+
+  // Retry earlier failed deliveries along with the new anomalies
+  for (const anomaly of await listUndeliveredAnomalies()) {
+    const anomalies = newByUser.get(anomaly.user_id) ?? [];
+    if (!anomalies.some(({ id }) => id === anomaly.id)) {
+      newByUser.set(anomaly.user_id, [...anomalies, anomaly]);
+    }
+  }
+
+  for (const [userId, anomalies] of newByUser) {
+    try {
+      await deliverAnomalies(userId, anomalies);
+    } catch (error) {
+      console.error('[runAnomalyDetection] Failed to deliver anomalies:', error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Recent anomalies for the notifications menu, newest first
+ */
+export async function listNotifications(userId: string, limit: number = 20): Promise<{ anomalies: SiteAnomaly[]; unreadCount: number }> {
+  const [recent, unread] = await Promise.all([
+    supabaseAdmin
+      .from('site_anomalies')
+      .select('id, site_url, date, metric, direction, value, expected, z_score, detected_at, read_at')
+      .eq('user_id', userId)
+      .order('detected_at', { ascending: false })
+      .order('date', { ascending: false })
+      .limit(limit),
+    supabaseAdmin
+      .from('site_anomalies')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null),
+  ]);
+
+  if (recent.error || unread.error) {
+    console.error('[listNotifications] Failed to load anomalies:', recent.error || unread.error);
+    throw new Error('Failed to load notifications');
+  }
+
+  return {
+    anomalies: (recent.data || []) as SiteAnomaly[],
+    unreadCount: unread.count ?? 0,
+  };
+}
+
+/**
+ * Marks anomalies as read: the given ids, or all of the user's when omitted
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+  let query = supabaseAdmin
+    .from('site_anomalies')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('[markNotificationsRead] Failed to mark anomalies read:', error);
+    throw new Error('Failed to update notifications');
+  }
+}
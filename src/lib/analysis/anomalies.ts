@@ -0,0 +1,177 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { SearchAnalyticsRow } from '../google';
+
+export type AnomalyMetric = 'clicks' | 'impressions' | 'ctr' | 'position';
+export type AnomalyDirection = 'drop' | 'spike';
+
+export const ANOMALY_METRICS: AnomalyMetric[] = ['clicks', 'impressions', 'ctr', 'position'];
+
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  clicks: 'Clicks',
+  impressions: 'Impressions',
+  ctr: 'CTR',
+  position: 'Average position',
+};
+
+export interface AnomalyOptions {
+  // The baseline is the same weekday over this many previous weeks
+  baselineWeeks: number;
+  // Metrics with fewer usable baseline days than this aren't checked
+  minBaselinePoints: number;
+  // Robust z-score a value needs to count as an anomaly
+  zThreshold: number;
+  // ...and its relative change (0-1) from the baseline
+  minRelativeChange: number;
+  // Baseline clicks needed before clicks are checked
+  minClicks: number;
+  // Baseline impressions needed before impressions, CTR and position are checked
+  minImpressions: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  baselineWeeks: 8,
+  minBaselinePoints: 4,
+  zThreshold: 3.5,
+  minRelativeChange: 0.2,
+  minClicks: 10,
+  minImpressions: 100,
+};
+
+export interface DetectedAnomaly {
+  date: string;
+  metric: AnomalyMetric;
+  direction: AnomalyDirection;
+  value: number;
+  // Median of the baseline days
+  expected: number;
+  zScore: number;
+}
+
+// Row of the site_anomalies table
+export interface SiteAnomaly {
+  id: string;
+  site_url: string;
+  date: string;
+  metric: AnomalyMetric;
+  direction: AnomalyDirection;
+  value: number;
+  expected: number;
+  z_score: number;
+  detected_at: string;
+  read_at: string | null;
+  // Failed attempts to send the anomaly to the user's webhook or email
+  delivery_attempts?: number;
+}
+
+interface DailyTotals {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+// Floor on the spread so a perfectly flat baseline doesn't flag tiny changes
+const MIN_RELATIVE_SPREAD = 0.05;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Flags days whose clicks, impressions, CTR or position are far from the
+ * same weekday in the previous weeks. Uses a median/MAD robust z-score, so
+ * an earlier anomaly in the baseline doesn't hide a new one. `rows` are daily
+ * totals (the `date` dimension); days missing from them count as no traffic.
+ */
+export function detectAnomalies(
+  rows: SearchAnalyticsRow[],
+  dates: string[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): DetectedAnomaly[] {
+  const totalsByDate = new Map<string, DailyTotals>();
+  rows.forEach(row => {
+    const date = row.keys?.[0];
+    if (!date) return;
+    totalsByDate.set(date, {
+      clicks: row.clicks ?? 0,
+      impressions: row.impressions ?? 0,
+      ctr: row.ctr ?? 0,
+      position: row.position ?? 0,
+    });
+  });
+
+  const getTotals = (date: string): DailyTotals =>
+    totalsByDate.get(date) ?? { clicks: 0, impressions: 0, ctr: 0, position: 0 };
+
+  const anomalies: DetectedAnomaly[] = [];
+
+  dates.forEach(date => {
+    const current = getTotals(date);
+    const baseline = Array.from({ length: options.baselineWeeks }, (_, week) => getTotals(shiftDate(date, -7 * (week + 1))));
+
+    const baselineClicks = median(baseline.map(day => day.clicks));
+    const baselineImpressions = median(baseline.map(day => day.impressions));
+
+    ANOMALY_METRICS.forEach(metric => {
+      if (metric === 'clicks' ? baselineClicks < options.minClicks : baselineImpressions < options.minImpressions) return;
+
+      // CTR and position mean nothing on days without impressions
+      const isRatio = metric === 'ctr' || metric === 'position';
+      const values = baseline.filter(day => !isRatio || day.impressions > 0).map(day => day[metric]);
+      if (values.length < options.minBaselinePoints || (isRatio && current.impressions === 0)) return;
+
+      const expected = median(values);
+      const spread = Math.max(
+        MAD_SCALE * median(values.map(value => Math.abs(value - expected))),
+        Math.abs(expected) * MIN_RELATIVE_SPREAD,
+        Number.EPSILON
+      );
+      const value = current[metric];
+      const zScore = (value - expected) / spread;
+
+      if (Math.abs(zScore) < options.zThreshold) return;
+      if (expected !== 0 && Math.abs(value - expected) / Math.abs(expected) < options.minRelativeChange) return;
+
+      anomalies.push({
+        date,
+        metric,
+        direction: value < expected ? 'drop' : 'spike',
+        value,
+        expected,
+        zScore,
+      });
+    });
+  });
+
+  return anomalies;
+}
+
+/**
+ * Whether an anomaly is bad news. A higher average position is a worse ranking.
+ */
+export function isNegativeAnomaly(anomaly: Pick<DetectedAnomaly, 'metric' | 'direction'>): boolean {
+  return anomaly.metric === 'position' ? anomaly.direction === 'spike' : anomaly.direction === 'drop';
+}
+
+const formatMetricValue = (metric: AnomalyMetric, value: number) => {
+  if (metric === 'ctr') return `${(value * 100).toFixed(2)}%`;
+  if (metric === 'position') return value.toFixed(1);
+  return Math.round(value).toLocaleString('en-US');
+};
+
+/**
+ * One-line description of an anomaly, e.g. "Clicks dropped to 120 (expected about 340)"
+ */
+export function describeAnomaly(anomaly: Pick<DetectedAnomaly, 'metric' | 'direction' | 'value' | 'expected'>): string {
+  const change = anomaly.metric === 'position'
+    ? (isNegativeAnomaly(anomaly) ? 'worsened to' : 'improved to')
+    : (anomaly.direction === 'drop' ? 'dropped to' : 'spiked to');
+
+  return `${ANOMALY_METRIC_LABELS[anomaly.metric]} ${change} ${formatMetricValue(anomaly.metric, anomaly.value)} (expected about ${formatMetricValue(anomaly.metric, anomaly.expected)})`;
+}
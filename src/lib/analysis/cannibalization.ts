@@ -0,0 +1,137 @@
+import type { SearchAnalyticsRow } from '../google';
+
+export interface CannibalizationOptions {
+  // A page competes for a query once it has this many impressions...
+  minImpressions: number;
+  // ...or this many clicks
+  minClicks: number;
+  // ...and at least this share (0-1) of the query's impressions
+  minImpressionShare: number;
+}
+
+export const DEFAULT_CANNIBALIZATION_OPTIONS: CannibalizationOptions = {
+  minImpressions: 10,
+  minClicks: 1,
+  minImpressionShare: 0.05,
+};
+
+export interface CompetingPage {
+  page: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  // Shares (0-1) of the query's clicks and impressions. A search can show
+  // several of the site's pages, so impression shares can add up to more than 1.
+  clickShare: number;
+  impressionShare: number;
+}
+
+export interface CannibalizationFinding {
+  query: string;
+  // Query-level totals: impressions count each search once, however many of
+  // the site's pages it showed
+  clicks: number;
+  impressions: number;
+  position: number;
+  // Competing pages, most impressions first
+  pages: CompetingPage[];
+}
+
+/**
+ * Groups query+page rows by query and flags queries where two or more pages
+ * get meaningful impressions or clicks. Findings are sorted by impressions.
+ *
+ * Query totals come from `queryRows` (rows grouped by query alone): summing
+ * query+page rows would count a search once for every page it showed. Queries
+ * missing from `queryRows` (e.g. past its row cap) fall back to those sums.
+ */
+export function detectCannibalization(
+  rows: SearchAnalyticsRow[],
+  queryRows: SearchAnalyticsRow[],
+  options: CannibalizationOptions = DEFAULT_CANNIBALIZATION_OPTIONS
+): CannibalizationFinding[] {
+  const totalsByQuery = new Map<string, { clicks: number; impressions: number; position: number }>();
+  queryRows.forEach(row => {
+    const [query] = row.keys || [];
+    if (!query) return;
+    totalsByQuery.set(query, {
+      clicks: row.clicks ?? 0,
+      impressions: row.impressions ?? 0,
+      position: row.position ?? 0,
+    });
+  });
+
+  const pagesByQuery = new Map<string, { page: string; clicks: number; impressions: number; position: number }[]>();
+
+  rows.forEach(row => {
+    const [query, page] = row.keys || [];
+    if (!query || !page) return;
+
+    const pages = pagesByQuery.get(query) ?? [];
+    pages.push({
+      page,
+      clicks: row.clicks ?? 0,
+      impressions: row.impressions ?? 0,
+      position: row.position ?? 0,
+    });
+    pagesByQuery.set(query, pages);
+  });
+
+  const findings: CannibalizationFinding[] = [];
+
+  pagesByQuery.forEach((pages, query) => {
+    if (pages.length < 2) return;
+
+    const pageImpressions = pages.reduce((sum, page) => sum + page.impressions, 0);
+    const { clicks, impressions, position } = totalsByQuery.get(query) ?? {
+      clicks: pages.reduce((sum, page) => sum + page.clicks, 0),
+      impressions: pageImpressions,
+      position: pageImpressions > 0
+        ? pages.reduce((sum, page) => sum + page.position * page.impressions, 0) / pageImpressions
+        : 0,
+    };
+
+    const competing = pages
+      .map(page => ({
+        ...page,
+        ctr: page.impressions > 0 ? page.clicks / page.impressions : 0,
+        clickShare: clicks > 0 ? Math.min(page.clicks / clicks, 1) : 0,
+        impressionShare: impressions > 0 ? Math.min(page.impressions / impressions, 1) : 0,
+      }))
+      .filter(page =>
+        (page.impressions >= options.minImpressions || page.clicks >= options.minClicks) &&
+        page.impressionShare >= options.minImpressionShare
+      )
+      .sort((a, b) => b.impressions - a.impressions);
+
+    if (competing.length < 2) return;
+
+    findings.push({
+      query,
+      clicks,
+      impressions,
+      position,
+      pages: competing,
+    });
+  });
+
+  return findings.sort((a, b) => b.impressions - a.impressions);
+}
+
+/**
+ * Flattens findings to one row per query and page, for CSV and Sheets exports
+ */
+export function flattenCannibalization(findings: CannibalizationFinding[]): Record<string, unknown>[] {
+  return findings.flatMap(finding => finding.pages.map(page => ({
+    query: finding.query,
+    page: page.page,
+    clicks: page.clicks,
+    impressions: page.impressions,
+    ctr: page.ctr,
+    position: page.position,
+    click_share: Number((page.clickShare * 100).toFixed(1)),
+    impression_share: Number((page.impressionShare * 100).toFixed(1)),
+    competing_pages: finding.pages.length,
+  })));
+}
@@ -0,0 +1,300 @@
+export interface ClusteringOptions {
+  // Cosine similarity (0-1) a query needs with a cluster's seed query to join it
+  similarityThreshold: number;
+  // Smaller clusters are moved to the "Other" group
+  minClusterSize: number;
+}
+
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  similarityThreshold: 0.5,
+  minClusterSize: 2,
+};
+
+// Id of the group holding queries that didn't fit any cluster
+export const OTHER_CLUSTER_ID = 'other';
+
+export interface QueryCluster {
+  id: string;
+  label: string;
+  queries: string[];
+}
+
+// Saved on the report as `clusters`
+export interface QueryClustering {
+  options: ClusteringOptions;
+  // Largest first, with the "Other" group last
+  clusters: QueryCluster[];
+}
+
+// Metrics of one query, summed over the report rows it appears in
+export interface QueryMetrics {
+  query: string;
+  clicks: number;
+  impressions: number;
+  // Impression-weighted average position
+  position: number;
+}
+
+export interface ClusterSummary extends QueryCluster {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  // The cluster's queries, most impressions first
+  members: QueryMetrics[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'vs', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'you', 'your',
+]);
+
+// Suffixes stripped by the stemmer, longest first, with their replacements
+const SUFFIXES: [string, string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['ation', 'ate'],
+  ['ingly', ''],
+  ['ness', ''],
+  ['ment', ''],
+  ['edly', ''],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', ''],
+];
+
+// Seed terms a cluster is indexed by, so a query is only compared with clusters it shares a term with
+const INDEXED_SEED_TERMS = 3;
+
+/**
+ * Light English stemmer: strips plurals and common suffixes, then a final
+ * "e" and doubled consonants, so "running", "runs" and "run" share a stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  if (/([^aeiouslz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/**
+ * Stemmed unigrams and bigrams of a query, without stopwords
+ */
+function getTerms(query: string): string[] {
+  const stems = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token && !STOPWORDS.has(token))
+    .map(stem);
+  const bigrams = stems.slice(1).map((token, index) => `${stems[index]} ${token}`);
+  return [...stems, ...bigrams];
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) ?? 0);
+  });
+  return dot;
+}
+
+/**
+ * Sums the metrics of report rows per query
+ */
+export function aggregateQueryMetrics(rows: { query?: string; clicks?: number; impressions?: number; position?: number }[]): QueryMetrics[] {
+  const byQuery = new Map<string, { clicks: number; impressions: number; weightedPosition: number }>();
+
+  rows.forEach(row => {
+    if (!row.query) return;
+    const totals = byQuery.get(row.query) ?? { clicks: 0, impressions: 0, weightedPosition: 0 };
+    totals.clicks += row.clicks ?? 0;
+    totals.impressions += row.impressions ?? 0;
+    totals.weightedPosition += (row.position ?? 0) * (row.impressions ?? 0);
+    byQuery.set(row.query, totals);
+  });
+
+  return [...byQuery.entries()].map(([query, totals]) => ({
+    query,
+    clicks: totals.clicks,
+    impressions: totals.impressions,
+    position: totals.impressions > 0 ? totals.weightedPosition / totals.impressions : 0,
+  }));
+}
+
+/**
+ * Groups queries into topics by TF-IDF similarity of their stemmed words and
+ * word pairs. Runs locally in one pass: queries are taken by impressions, and
+ * each one joins the most similar cluster seed above the threshold or starts
+ * a new cluster. Clusters are named after their seed (top) query.
+ */
+export function clusterQueries(
+  queries: QueryMetrics[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS
+): QueryClustering {
+  const sorted = [...queries].sort((a, b) => b.impressions - a.impressions);
+  const termsByQuery = sorted.map(q => getTerms(q.query));
+
+  const documentFrequency = new Map<string, number>();
+  termsByQuery.forEach(terms => {
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  });
+
+  // L2-normalized TF-IDF vectors, so their dot product is the cosine similarity
+  const vectors = termsByQuery.map(terms => {
+    const vector = new Map<string, number>();
+    terms.forEach(term => vector.set(term, (vector.get(term) ?? 0) + 1));
+    let norm = 0;
+    vector.forEach((count, term) => {
+      const weight = count * (Math.log((sorted.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1);
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  });
+
+  const seeds: { seed: Map<string, number>; queries: string[] }[] = [];
+  const clustersByTerm = new Map<string, number[]>();
+  const unclustered: string[] = [];
+
+  sorted.forEach(({ query }, index) => {
+    const vector = vectors[index];
+    if (vector.size === 0) {
+      unclustered.push(query);
+      return;
+    }
+
+    let best = -1;
+    let bestSimilarity = options.similarityThreshold;
+    const candidates = new Set<number>();
+    vector.forEach((_, term) => clustersByTerm.get(term)?.forEach(id => candidates.add(id)));
+    candidates.forEach(id => {
+      const similarity = cosine(vector, seeds[id].seed);
+      if (similarity >= bestSimilarity) {
+        best = id;
+        bestSimilarity = similarity;
+      }
+    });
+
+    if (best >= 0) {
+      seeds[best].queries.push(query);
+      return;
+    }
+
+    const id = seeds.length;
+    seeds.push({ seed: vector, queries: [query] });
+    [...vector.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, INDEXED_SEED_TERMS)
+      .forEach(([term]) => {
+        const ids = clustersByTerm.get(term) ?? [];
+        ids.push(id);
+        clustersByTerm.set(term, ids);
+      });
+  });
+
+  const clusters: QueryCluster[] = [];
+  seeds.forEach(({ queries: members }) => {
+    if (members.length < options.minClusterSize) {
+      unclustered.push(...members);
+      return;
+    }
+    clusters.push({ id: `c${clusters.length + 1}`, label: members[0], queries: members });
+  });
+
+  clusters.sort((a, b) => b.queries.length - a.queries.length);
+  if (unclustered.length > 0) {
+    clusters.push({ id: OTHER_CLUSTER_ID, label: 'Other', queries: unclustered });
+  }
+
+  return { options, clusters };
+}
+
+/**
+ * Adds up clicks, impressions and weighted position per cluster
+ */
+export function summarizeClusters(clustering: QueryClustering, queries: QueryMetrics[]): ClusterSummary[] {
+  const metricsByQuery = new Map(queries.map(q => [q.query, q]));
+
+  return clustering.clusters.map(cluster => {
+    const members = cluster.queries
+      .map(query => metricsByQuery.get(query))
+      .filter((metrics): metrics is QueryMetrics => !!metrics)
+      .sort((a, b) => b.impressions - a.impressions);
+    const clicks = members.reduce((sum, m) => sum + m.clicks, 0);
+    const impressions = members.reduce((sum, m) => sum + m.impressions, 0);
+
+    return {
+      ...cluster,
+      clicks,
+      impressions,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+      position: impressions > 0 ? members.reduce((sum, m) => sum + m.position * m.impressions, 0) / impressions : 0,
+      members,
+    };
+  });
+}
+
+/**
+ * Merges clusters into the first of `ids`. Merging into "Other" is not allowed,
+ * so the first cluster that isn't "Other" is kept.
+ */
+export function mergeClusters(clustering: QueryClustering, ids: string[]): QueryClustering {
+  const targetId = ids.find(id => id !== OTHER_CLUSTER_ID);
+  const target = clustering.clusters.find(cluster => cluster.id === targetId);
+  if (!target || ids.length < 2) return clustering;
+
+  const merged = clustering.clusters.filter(cluster => ids.includes(cluster.id));
+  return {
+    ...clustering,
+    clusters: clustering.clusters
+      .filter(cluster => cluster === target || !ids.includes(cluster.id))
+      .map(cluster => cluster === target
+        ? { ...target, queries: merged.flatMap(c => c.queries) }
+        : cluster),
+  };
+}
+
+/**
+ * Renames a cluster
+ */
+export function renameCluster(clustering: QueryClustering, id: string, label: string): QueryClustering {
+  return {
+    ...clustering,
+    clusters: clustering.clusters.map(cluster => cluster.id === id ? { ...cluster, label } : cluster),
+  };
+}
+
+/**
+ * Cluster label of each query, for table rows and exports
+ */
+export function getClusterLabels(clustering: QueryClustering): Map<string, string> {
+  return new Map(clustering.clusters.flatMap(cluster => cluster.queries.map(query => [query, cluster.label] as [string, string])));
+}
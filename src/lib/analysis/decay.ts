@@ -0,0 +1,321 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { SearchAnalyticsRow } from '../google';
+import { addCalendarDays, addCalendarMonths } from '../date-ranges';
+import { SearchType } from '../types';
+
+export const MIN_DECAY_MONTHS = 6;
+// Search Console keeps 16 months of data
+export const MAX_DECAY_MONTHS = 16;
+
+export interface DecayOptions {
+  // How far back the analysis looks
+  months: number;
+  // Length of each rolling window
+  windowDays: number;
+  // Pages need this many clicks per window in the earlier half to be checked
+  minClicks: number;
+  // Recent windows must be at least this much (0-1) below the earlier half
+  minDecline: number;
+  // Kendall's tau of clicks over time must be at or below minus this (0-1),
+  // so only steady declines count, not one-off dips
+  minTrendStrength: number;
+  // Queries listed per decaying page
+  topQueries: number;
+}
+
+export const DEFAULT_DECAY_OPTIONS: DecayOptions = {
+  months: 12,
+  windowDays: 28,
+  minClicks: 30,
+  minDecline: 0.25,
+  minTrendStrength: 0.4,
+  topQueries: 5,
+};
+
+// Why a query lost clicks: it ranks lower, gets clicked less at the same
+// rank, is searched less, or no longer shows the page at all
+export type DecayCause = 'position' | 'ctr' | 'demand' | 'lost';
+
+export const DECAY_CAUSE_LABELS: Record<DecayCause, string> = {
+  position: 'Lost position',
+  ctr: 'Lost CTR',
+  demand: 'Less demand',
+  lost: 'No longer ranking',
+};
+
+export interface DecayWindow {
+  startDate: string;
+  endDate: string;
+}
+
+export interface QueryMetricsSnapshot {
+  // Clicks and impressions are per window, so both periods compare directly
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface DecayQuery {
+  query: string;
+  earlier: QueryMetricsSnapshot;
+  // Null when the page no longer shows for the query
+  recent: QueryMetricsSnapshot | null;
+  clicksLost: number;
+  // Positive when the page ranks lower than before
+  positionChange: number | null;
+  ctrChange: number | null;
+  cause: DecayCause;
+}
+
+export interface DecayingPage {
+  page: string;
+  // Clicks in each window, oldest first
+  windowClicks: number[];
+  // Average clicks per window in the earlier half and in the recent windows
+  earlierClicks: number;
+  recentClicks: number;
+  // Clicks lost per window
+  clicksLost: number;
+  // Share (0-1) of the earlier clicks that was lost
+  decline: number;
+  // Kendall's tau of clicks over time, from -1 (always falling) to 1
+  trend: number;
+  // Queries that lost the most clicks first
+  queries: DecayQuery[];
+}
+
+// Saved to `reports_data` like query reports, told apart by `type`
+export interface DecayReport {
+  type: 'decay';
+  success: boolean;
+  request: {
+    siteUrl: string;
+    timeRange: {
+      startDate: string;
+      endDate: string;
+    };
+    searchType: SearchType;
+    options: DecayOptions;
+  };
+  windows: DecayWindow[];
+  // Ranges the query comparison is based on
+  earlierRange: DecayWindow;
+  recentRange: DecayWindow;
+  pagesAnalyzed: number;
+  hasQueries: boolean;
+  // The row cap was hit, so low-traffic pages or queries may be missing
+  truncated: boolean;
+  // Most clicks lost first
+  pages: DecayingPage[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseApiDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Splits the last `months` months up to `endDate` into back-to-back windows
+ * of `windowDays` days, oldest first. Days left over at the start are dropped.
+ */
+export function getDecayWindows(endDate: string, months: number, windowDays: number): DecayWindow[] {
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(addCalendarMonths(endDate, -months)));
+  const count = Math.floor(days / windowDays);
+
+  return Array.from({ length: count }, (_, index) => {
+    const windowEnd = addCalendarDays(endDate, -(count - 1 - index) * windowDays);
+    return {
+      startDate: addCalendarDays(windowEnd, -(windowDays - 1)),
+      endDate: windowEnd,
+    };
+  });
+}
+
+/**
+ * Windows averaged as the earlier baseline (the first half) and as the
+ * recent level (the last quarter, at least two windows)
+ */
+export function getDecayPeriods(windows: DecayWindow[]): { earlier: DecayWindow[]; recent: DecayWindow[] } {
+  const recentCount = Math.max(2, Math.round(windows.length / 4));
+  return {
+    earlier: windows.slice(0, Math.floor(windows.length / 2)),
+    recent: windows.slice(-recentCount),
+  };
+}
+
+/**
+ * Adds the clicks of `page,date` rows to each page's per-window totals.
+ * Called once per page of API rows, so the daily rows never pile up in memory.
+ */
+export function addPageDateRows(clicksByPage: Map<string, number[]>, rows: SearchAnalyticsRow[], windows: DecayWindow[]): void {
+  const end = parseApiDate(windows[windows.length - 1].endDate);
+  const windowDays = Math.round(((end - parseApiDate(windows[0].startDate)) / DAY_MS + 1) / windows.length);
+
+  rows.forEach(row => {
+    const [page, date] = row.keys || [];
+    if (!page || !date) return;
+
+    const index = windows.length - 1 - Math.floor((end - parseApiDate(date)) / DAY_MS / windowDays);
+    if (index < 0 || index >= windows.length) return;
+
+    const clicks = clicksByPage.get(page) ?? new Array<number>(windows.length).fill(0);
+    clicks[index] += row.clicks ?? 0;
+    clicksByPage.set(page, clicks);
+  });
+}
+
+/**
+ * Kendall's tau of values against their order: -1 when every later value is
+ * lower, 0 with no trend. A single low window barely moves it.
+ */
+function kendallTau(values: number[]): number {
+  let score = 0;
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      score += Math.sign(values[j] - values[i]);
+    }
+  }
+  const pairs = (values.length * (values.length - 1)) / 2;
+  return pairs > 0 ? score / pairs : 0;
+}
+
+/**
+ * Finds pages whose clicks fell steadily: the recent windows are well below
+ * the earlier half, the latest window hasn't recovered, and clicks trend down
+ * across all windows. Sorted by clicks lost per window.
+ */
+export function findDecayingPages(
+  clicksByPage: Map<string, number[]>,
+  windows: DecayWindow[],
+  options: DecayOptions = DEFAULT_DECAY_OPTIONS
+): DecayingPage[] {
+  const { earlier, recent } = getDecayPeriods(windows);
+  const pages: DecayingPage[] = [];
+
+  clicksByPage.forEach((windowClicks, page) => {
+    const earlierClicks = mean(windowClicks.slice(0, earlier.length));
+    if (earlierClicks < options.minClicks) return;
+
+    const recentClicks = mean(windowClicks.slice(-recent.length));
+    const decline = (earlierClicks - recentClicks) / earlierClicks;
+    const latest = windowClicks[windowClicks.length - 1];
+    if (decline < options.minDecline || latest > earlierClicks * (1 - options.minDecline)) return;
+
+    const trend = kendallTau(windowClicks);
+    if (trend > -options.minTrendStrength) return;
+
+    pages.push({
+      page,
+      windowClicks,
+      earlierClicks,
+      recentClicks,
+      clicksLost: earlierClicks - recentClicks,
+      decline,
+      trend,
+      queries: [],
+    });
+  });
+
+  return pages.sort((a, b) => b.clicksLost - a.clicksLost);
+}
+
+const toSnapshot = (row: SearchAnalyticsRow, scale: number): QueryMetricsSnapshot => ({
+  clicks: (row.clicks ?? 0) * scale,
+  impressions: (row.impressions ?? 0) * scale,
+  ctr: row.ctr ?? 0,
+  position: row.position ?? 0,
+});
+
+/**
+ * Works out why a query lost clicks. A drop of a full position or more is put
+ * down to ranking; otherwise a CTR drop of a fifth or more to the snippet;
+ * anything else to fewer searches.
+ */
+function getDecayCause(earlier: QueryMetricsSnapshot, recent: QueryMetricsSnapshot | null): DecayCause {
+  if (!recent) return 'lost';
+  if (recent.position - earlier.position >= 1) return 'position';
+  if (earlier.ctr > 0 && (earlier.ctr - recent.ctr) / earlier.ctr >= 0.2) return 'ctr';
+  return 'demand';
+}
+
+/**
+ * Compares each decaying page's queries between the earlier and recent
+ * periods, from `query,page` rows of each. Clicks and impressions are scaled
+ * to one window so periods of different lengths compare directly. Keeps the
+ * queries that lost the most clicks.
+ */
+export function attachDecayQueries(
+  pages: DecayingPage[],
+  earlierRows: SearchAnalyticsRow[],
+  recentRows: SearchAnalyticsRow[],
+  windows: DecayWindow[],
+  options: DecayOptions = DEFAULT_DECAY_OPTIONS
+): DecayingPage[] {
+  const { earlier, recent } = getDecayPeriods(windows);
+  const decaying = new Set(pages.map(page => page.page));
+
+  const groupByPage = (rows: SearchAnalyticsRow[], scale: number) => {
+    const byPage = new Map<string, Map<string, QueryMetricsSnapshot>>();
+    rows.forEach(row => {
+      const [query, page] = row.keys || [];
+      if (!query || !page || !decaying.has(page)) return;
+      const queries = byPage.get(page) ?? new Map<string, QueryMetricsSnapshot>();
+      queries.set(query, toSnapshot(row, scale));
+      byPage.set(page, queries);
+    });
+    return byPage;
+  };
+
+  const earlierByPage = groupByPage(earlierRows, 1 / earlier.length);
+  const recentByPage = groupByPage(recentRows, 1 / recent.length);
+
+  return pages.map(page => {
+    const recentQueries = recentByPage.get(page.page);
+    const queries: DecayQuery[] = [];
+
+    earlierByPage.get(page.page)?.forEach((earlierMetrics, query) => {
+      const recentMetrics = recentQueries?.get(query) ?? null;
+      const clicksLost = earlierMetrics.clicks - (recentMetrics?.clicks ?? 0);
+      if (clicksLost <= 0) return;
+
+      queries.push({
+        query,
+        earlier: earlierMetrics,
+        recent: recentMetrics,
+        clicksLost,
+        positionChange: recentMetrics ? recentMetrics.position - earlierMetrics.position : null,
+        ctrChange: recentMetrics ? recentMetrics.ctr - earlierMetrics.ctr : null,
+        cause: getDecayCause(earlierMetrics, recentMetrics),
+      });
+    });
+
+    return {
+      ...page,
+      queries: queries.sort((a, b) => b.clicksLost - a.clicksLost).slice(0, options.topQueries),
+    };
+  });
+}
+
+/**
+ * Flattens decaying pages to one row each for CSV and Sheets exports, with
+ * the query that lost the most clicks
+ */
+export function flattenDecay(pages: DecayingPage[]): Record<string, unknown>[] {
+  return pages.map(page => {
+    const topQuery = page.queries[0];
+    return {
+      page: page.page,
+      earlier_clicks: Math.round(page.earlierClicks),
+      recent_clicks: Math.round(page.recentClicks),
+      clicks_lost: Math.round(page.clicksLost),
+      decline_pct: Number((page.decline * 100).toFixed(1)),
+      trend: Number(page.trend.toFixed(2)),
+      top_query: topQuery?.query ?? '',
+      top_query_clicks_lost: topQuery ? Math.round(topQuery.clicksLost) : '',
+      top_query_position_change: topQuery?.positionChange != null ? Number(topQuery.positionChange.toFixed(1)) : '',
+      top_query_cause: topQuery ? DECAY_CAUSE_LABELS[topQuery.cause] : '',
+    };
+  });
+}
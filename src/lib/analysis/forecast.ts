@@ -0,0 +1,301 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { SearchAnalyticsRow } from '../google';
+
+export type ForecastMetric = 'clicks' | 'impressions';
+
+export const FORECAST_METRICS: ForecastMetric[] = ['clicks', 'impressions'];
+
+// Days ahead a forecast can project
+export const FORECAST_HORIZONS = [30, 90, 180];
+
+export const DEFAULT_FORECAST_HORIZON = 90;
+
+// Weekly seasonality; daily Search Console series swing by day of week
+export const SEASON_LENGTH = 7;
+
+// Fewest days of history a model is fitted on
+export const MIN_HISTORY_DAYS = SEASON_LENGTH * 4;
+
+// Z scores of the two confidence bands
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+// Smoothing parameters tried when fitting a series
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+// Trend damping; below 1 the trend flattens out over long horizons
+const PHIS = [0.9, 0.95, 0.98, 1];
+
+export interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  phi: number;
+}
+
+export interface HoltWintersModel {
+  params: HoltWintersParams;
+  level: number;
+  trend: number;
+  // Seasonal components, indexed by position in the season
+  seasonals: number[];
+  // Position in the season of the first forecast day
+  nextSeasonIndex: number;
+  // Standard deviation of the one-step-ahead errors
+  sigma: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface MetricForecast {
+  params: HoltWintersParams;
+  sigma: number;
+  points: ForecastPoint[];
+}
+
+export interface ForecastActualPoint {
+  date: string;
+  value: number;
+}
+
+export interface ForecastAccuracy {
+  // Days with both a forecast and final data
+  days: number;
+  forecastTotal: number;
+  actualTotal: number;
+  // Mean absolute percentage error over days with a non-zero actual value
+  mape: number | null;
+  // Share of days the actual value fell inside the 80% / 95% bands
+  within80: number;
+  within95: number;
+}
+
+interface FitResult {
+  model: HoltWintersModel;
+  sse: number;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Turns rows returned for the `date` dimension into one value per day from
+ * `startDate` to `endDate`. Days without a row had no impressions, so they
+ * count as zero.
+ */
+export function toDailySeries(
+  rows: SearchAnalyticsRow[],
+  metric: ForecastMetric,
+  startDate: string,
+  endDate: string
+): ForecastActualPoint[] {
+  const values = new Map<string, number>();
+  rows.forEach(row => {
+    const date = row.keys?.[0];
+    if (date) values.set(date, (values.get(date) ?? 0) + (row[metric] ?? 0));
+  });
+
+  const series: ForecastActualPoint[] = [];
+  for (let day = parseISO(startDate); toDateString(day) <= endDate; day = addDays(day, 1)) {
+    const date = toDateString(day);
+    series.push({ date, value: values.get(date) ?? 0 });
+  }
+  return series;
+}
+
+/**
+ * Runs additive Holt-Winters with a damped trend over a series. The first
+ * season seeds the level and seasonal components, and the second one the
+ * trend; the one-step-ahead errors are summed from the second season on.
+ */
+function runHoltWinters(values: number[], params: HoltWintersParams): FitResult {
+  const { alpha, beta, gamma, phi } = params;
+  const m = SEASON_LENGTH;
+  const mean = (from: number) => values.slice(from, from + m).reduce((sum, v) => sum + v, 0) / m;
+
+  let level = mean(0);
+  let trend = (mean(m) - mean(0)) / m;
+  const seasonals = values.slice(0, m).map(value => value - level);
+  let sse = 0;
+
+  for (let t = m; t < values.length; t++) {
+    const s = t % m;
+    const error = values[t] - (level + phi * trend + seasonals[s]);
+    sse += error * error;
+
+    const previousLevel = level;
+    level = alpha * (values[t] - seasonals[s]) + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    seasonals[s] = gamma * (values[t] - level) + (1 - gamma) * seasonals[s];
+  }
+
+  const steps = values.length - m;
+  return {
+    model: {
+      params,
+      level,
+      trend,
+      seasonals,
+      nextSeasonIndex: values.length % m,
+      sigma: Math.sqrt(sse / Math.max(1, steps)),
+    },
+    sse,
+  };
+}
+
+/**
+ * Fits a Holt-Winters model to a daily series, picking the smoothing
+ * parameters with the smallest one-step-ahead squared error
+ */
+export function fitHoltWinters(values: number[]): HoltWintersModel {
+  if (values.length < MIN_HISTORY_DAYS) {
+    throw new Error(`At least ${MIN_HISTORY_DAYS} days of history are needed to forecast`);
+  }
+
+  let best: FitResult | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        for (const phi of PHIS) {
+          const result = runHoltWinters(values, { alpha, beta, gamma, phi });
+          if (!best || result.sse < best.sse) best = result;
+        }
+      }
+    }
+  }
+
+  return best!.model;
+}
+
+/**
+ * Projects a fitted model `horizon` days past `lastDate`. The bands widen
+ * with the horizon following the usual additive Holt-Winters variance
+ * approximation, and are clipped at zero since clicks and impressions
+ * can't go negative.
+ */
+export function projectHoltWinters(model: HoltWintersModel, lastDate: string, horizon: number): ForecastPoint[] {
+  const { alpha, beta, gamma, phi } = model.params;
+  const points: ForecastPoint[] = [];
+  let dampedSum = 0;
+  // Sum of squared error weights of the steps before this one
+  let varianceFactor = 1;
+
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += Math.pow(phi, h);
+    const value = model.level + dampedSum * model.trend + model.seasonals[(model.nextSeasonIndex + h - 1) % SEASON_LENGTH];
+    const spread = model.sigma * Math.sqrt(varianceFactor);
+
+    points.push({
+      date: toDateString(addDays(parseISO(lastDate), h)),
+      value: Math.max(0, value),
+      lower80: Math.max(0, value - Z_80 * spread),
+      upper80: Math.max(0, value + Z_80 * spread),
+      lower95: Math.max(0, value - Z_95 * spread),
+      upper95: Math.max(0, value + Z_95 * spread),
+    });
+
+    const weight = alpha * (1 + beta * dampedSum) + (h % SEASON_LENGTH === 0 ? gamma * (1 - alpha) : 0);
+    varianceFactor += weight * weight;
+  }
+
+  return points;
+}
+
+/**
+ * Fits a daily series and projects it `horizon` days past its last day
+ */
+export function forecastSeries(series: ForecastActualPoint[], horizon: number): MetricForecast {
+  const model = fitHoltWinters(series.map(point => point.value));
+  return {
+    params: model.params,
+    sigma: model.sigma,
+    points: projectHoltWinters(model, series[series.length - 1].date, horizon),
+  };
+}
+
+/**
+ * Compares forecast days with the final data that has come in for them
+ */
+export function compareForecastWithActuals(points: ForecastPoint[], actuals: ForecastActualPoint[]): ForecastAccuracy {
+  const actualByDate = new Map(actuals.map(point => [point.date, point.value]));
+  const accuracy: ForecastAccuracy = { days: 0, forecastTotal: 0, actualTotal: 0, mape: null, within80: 0, within95: 0 };
+  let percentageErrorSum = 0;
+  let percentageErrorDays = 0;
+
+  points.forEach(point => {
+    const actual = actualByDate.get(point.date);
+    if (actual === undefined) return;
+
+    accuracy.days++;
+    accuracy.forecastTotal += point.value;
+    accuracy.actualTotal += actual;
+    if (actual >= point.lower80 && actual <= point.upper80) accuracy.within80++;
+    if (actual >= point.lower95 && actual <= point.upper95) accuracy.within95++;
+    if (actual > 0) {
+      percentageErrorSum += Math.abs(point.value - actual) / actual;
+      percentageErrorDays++;
+    }
+  });
+
+  if (accuracy.days > 0) {
+    accuracy.within80 /= accuracy.days;
+    accuracy.within95 /= accuracy.days;
+  }
+  accuracy.mape = percentageErrorDays > 0 ? percentageErrorSum / percentageErrorDays : null;
+
+  return accuracy;
+}
+
+/**
+ * Sums a forecast over its first `days` days. Summing the daily bounds
+ * gives a conservative range for the total.
+ */
+export function sumForecast(points: ForecastPoint[], days: number = points.length) {
+  return points.slice(0, days).reduce(
+    (total, point) => ({
+      value: total.value + point.value,
+      lower80: total.lower80 + point.lower80,
+      upper80: total.upper80 + point.upper80,
+    }),
+    { value: 0, lower80: 0, upper80: 0 }
+  );
+}
+
+/**
+ * Flattens a forecast to one row per forecast day for CSV and Sheets
+ * exports, with the actual values of days that have final data
+ */
+export function flattenForecast(
+  metrics: Record<ForecastMetric, MetricForecast>,
+  actuals: Record<ForecastMetric, ForecastActualPoint[]>
+): Record<string, unknown>[] {
+  const actualClicks = new Map(actuals.clicks.map(point => [point.date, point.value]));
+  const actualImpressions = new Map(actuals.impressions.map(point => [point.date, point.value]));
+  const round = (value: number) => Math.round(value);
+
+  return metrics.clicks.points.map((point, i) => {
+    const impressions = metrics.impressions.points[i];
+    return {
+      date: point.date,
+      clicks_forecast: round(point.value),
+      clicks_lower_80: round(point.lower80),
+      clicks_upper_80: round(point.upper80),
+      clicks_lower_95: round(point.lower95),
+      clicks_upper_95: round(point.upper95),
+      clicks_actual: actualClicks.get(point.date) ?? '',
+      impressions_forecast: round(impressions.value),
+      impressions_lower_80: round(impressions.lower80),
+      impressions_upper_80: round(impressions.upper80),
+      impressions_lower_95: round(impressions.lower95),
+      impressions_upper_95: round(impressions.upper95),
+      impressions_actual: actualImpressions.get(point.date) ?? '',
+    };
+  });
+}
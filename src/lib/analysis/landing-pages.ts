@@ -0,0 +1,146 @@
+import type { SearchAnalyticsRow } from '../google';
+
+export const DEFAULT_TOP_QUERIES = 10;
+
+export interface PageQuery {
+  query: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  // Share (0-1) of the page's clicks that came from this query
+  clickShare: number;
+}
+
+export interface LandingPage {
+  page: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+  // Distinct queries the page was shown for (anonymized queries aren't counted)
+  queryCount: number;
+  // Most-clicked queries first
+  topQueries: PageQuery[];
+}
+
+export interface ContentGroup {
+  // Path prefix such as "/blog/", or "/" for pages at the root
+  prefix: string;
+  pageCount: number;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  // Impression-weighted average position
+  position: number;
+}
+
+/**
+ * Builds the landing-page report: page totals come from `page` rows (they
+ * include anonymized queries), top queries from `query,page` rows. Pages are
+ * sorted by clicks.
+ */
+export function buildLandingPages(
+  pageRows: SearchAnalyticsRow[],
+  queryPageRows: SearchAnalyticsRow[],
+  topQueries: number = DEFAULT_TOP_QUERIES
+): LandingPage[] {
+  const queriesByPage = new Map<string, SearchAnalyticsRow[]>();
+  queryPageRows.forEach(row => {
+    const [, page] = row.keys || [];
+    if (!page) return;
+    const rows = queriesByPage.get(page) ?? [];
+    rows.push(row);
+    queriesByPage.set(page, rows);
+  });
+
+  return pageRows
+    .filter(row => row.keys?.[0])
+    .map(row => {
+      const page = row.keys![0];
+      const clicks = row.clicks ?? 0;
+      const queries = queriesByPage.get(page) ?? [];
+
+      return {
+        page,
+        clicks,
+        impressions: row.impressions ?? 0,
+        ctr: row.ctr ?? 0,
+        position: row.position ?? 0,
+        queryCount: queries.length,
+        topQueries: [...queries]
+          .sort((a, b) => (b.clicks ?? 0) - (a.clicks ?? 0) || (b.impressions ?? 0) - (a.impressions ?? 0))
+          .slice(0, topQueries)
+          .map(queryRow => ({
+            query: queryRow.keys![0],
+            clicks: queryRow.clicks ?? 0,
+            impressions: queryRow.impressions ?? 0,
+            ctr: queryRow.ctr ?? 0,
+            position: queryRow.position ?? 0,
+            clickShare: clicks > 0 ? (queryRow.clicks ?? 0) / clicks : 0,
+          })),
+      };
+    })
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+/**
+ * Path prefix of a page URL, `depth` segments deep: with depth 1,
+ * "https://example.com/blog/post" is in "/blog/"
+ */
+export function getContentGroup(page: string, depth: number = 1): string {
+  let path: string;
+  try {
+    path = new URL(page).pathname;
+  } catch {
+    path = page;
+  }
+  // The last segment is the page itself, not a group
+  const segments = path.split('/').filter(Boolean).slice(0, -1).slice(0, depth);
+  return segments.length > 0 ? `/${segments.join('/')}/` : '/';
+}
+
+/**
+ * Rolls pages up into content groups by path prefix, sorted by clicks
+ */
+export function rollupContentGroups(pages: LandingPage[], depth: number = 1): ContentGroup[] {
+  const groups = new Map<string, { pageCount: number; clicks: number; impressions: number; weightedPosition: number }>();
+
+  pages.forEach(page => {
+    const prefix = getContentGroup(page.page, depth);
+    const group = groups.get(prefix) ?? { pageCount: 0, clicks: 0, impressions: 0, weightedPosition: 0 };
+    group.pageCount += 1;
+    group.clicks += page.clicks;
+    group.impressions += page.impressions;
+    group.weightedPosition += page.position * page.impressions;
+    groups.set(prefix, group);
+  });
+
+  return [...groups.entries()]
+    .map(([prefix, group]) => ({
+      prefix,
+      pageCount: group.pageCount,
+      clicks: group.clicks,
+      impressions: group.impressions,
+      ctr: group.impressions > 0 ? group.clicks / group.impressions : 0,
+      position: group.impressions > 0 ? group.weightedPosition / group.impressions : 0,
+    }))
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+/**
+ * Flattens pages to one row each for CSV and Sheets exports
+ */
+export function flattenLandingPages(pages: LandingPage[], depth: number = 1): Record<string, unknown>[] {
+  return pages.map(page => ({
+    page: page.page,
+    content_group: getContentGroup(page.page, depth),
+    clicks: page.clicks,
+    impressions: page.impressions,
+    ctr: page.ctr,
+    position: page.position,
+    queries: page.queryCount,
+    top_query: page.topQueries[0]?.query ?? '',
+    top_query_click_share: page.topQueries[0] ? Number((page.topQueries[0].clickShare * 100).toFixed(1)) : '',
+  }));
+}
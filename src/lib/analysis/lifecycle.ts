@@ -0,0 +1,115 @@
+import type { QueryMetrics } from './clustering';
+
+export type LifecycleStatus = 'new' | 'lost' | 'improved' | 'declined';
+
+export const LIFECYCLE_STATUSES: LifecycleStatus[] = ['new', 'lost', 'improved', 'declined'];
+
+export const LIFECYCLE_LABELS: Record<LifecycleStatus, string> = {
+  new: 'New',
+  lost: 'Lost',
+  improved: 'Improved',
+  declined: 'Declined',
+};
+
+export interface LifecycleOptions {
+  // Queries need this many impressions in a period to count as present in it
+  minImpressions: number;
+  // Queries present in both periods must move this many positions to count
+  // as improved or declined
+  minPositionChange: number;
+}
+
+export const DEFAULT_LIFECYCLE_OPTIONS: LifecycleOptions = {
+  minImpressions: 10,
+  minPositionChange: 3,
+};
+
+export interface LifecycleEntry {
+  query: string;
+  // Null in the period the query is missing from
+  current: QueryMetrics | null;
+  previous: QueryMetrics | null;
+  clicksChange: number;
+  // Negative when the query ranks better than before
+  positionChange: number | null;
+}
+
+export type QueryLifecycle = Record<LifecycleStatus, LifecycleEntry[]>;
+
+/**
+ * Sorts queries into new (only in the current period), lost (only in the
+ * previous one), improved and declined (in both, with a position change of at
+ * least `minPositionChange`). Queries under `minImpressions` in a period count
+ * as absent from it, and queries under it in both periods are ignored.
+ */
+export function compareQueryLifecycle(
+  current: QueryMetrics[],
+  previous: QueryMetrics[],
+  options: LifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS
+): QueryLifecycle {
+  const isPresent = (metrics: QueryMetrics | undefined): metrics is QueryMetrics =>
+    !!metrics && metrics.impressions >= options.minImpressions;
+
+  const currentByQuery = new Map(current.map(metrics => [metrics.query, metrics]));
+  const previousByQuery = new Map(previous.map(metrics => [metrics.query, metrics]));
+  const lifecycle: QueryLifecycle = { new: [], lost: [], improved: [], declined: [] };
+
+  new Set([...currentByQuery.keys(), ...previousByQuery.keys()]).forEach(query => {
+    const currentMetrics = currentByQuery.get(query);
+    const previousMetrics = previousByQuery.get(query);
+    const inCurrent = isPresent(currentMetrics);
+    const inPrevious = isPresent(previousMetrics);
+    if (!inCurrent && !inPrevious) return;
+
+    const entry: LifecycleEntry = {
+      query,
+      current: currentMetrics ?? null,
+      previous: previousMetrics ?? null,
+      clicksChange: (currentMetrics?.clicks ?? 0) - (previousMetrics?.clicks ?? 0),
+      positionChange: currentMetrics && previousMetrics ? currentMetrics.position - previousMetrics.position : null,
+    };
+
+    if (inCurrent && !inPrevious) {
+      lifecycle.new.push(entry);
+    } else if (!inCurrent && inPrevious) {
+      lifecycle.lost.push(entry);
+    } else if (entry.positionChange !== null && entry.positionChange <= -options.minPositionChange) {
+      lifecycle.improved.push(entry);
+    } else if (entry.positionChange !== null && entry.positionChange >= options.minPositionChange) {
+      lifecycle.declined.push(entry);
+    }
+  });
+
+  lifecycle.new.sort((a, b) => (b.current?.impressions ?? 0) - (a.current?.impressions ?? 0));
+  lifecycle.lost.sort((a, b) => (b.previous?.impressions ?? 0) - (a.previous?.impressions ?? 0));
+  lifecycle.improved.sort((a, b) => (a.positionChange ?? 0) - (b.positionChange ?? 0));
+  lifecycle.declined.sort((a, b) => (b.positionChange ?? 0) - (a.positionChange ?? 0));
+
+  return lifecycle;
+}
+
+/**
+ * Flattens the lifecycle lists to one row per query for CSV and Sheets exports
+ */
+export function flattenLifecycle(lifecycle: QueryLifecycle): Record<string, unknown>[] {
+  return LIFECYCLE_STATUSES.flatMap(status => lifecycle[status].map(entry => ({
+    status: LIFECYCLE_LABELS[status],
+    query: entry.query,
+    clicks: entry.current?.clicks ?? 0,
+    previous_clicks: entry.previous?.clicks ?? 0,
+    clicks_change: entry.clicksChange,
+    impressions: entry.current?.impressions ?? 0,
+    previous_impressions: entry.previous?.impressions ?? 0,
+    position: entry.current ? Number(entry.current.position.toFixed(1)) : '',
+    previous_position: entry.previous ? Number(entry.previous.position.toFixed(1)) : '',
+    position_change: entry.positionChange !== null ? Number(entry.positionChange.toFixed(1)) : '',
+  })));
+}
+
+/**
+ * First day of the month `date` (YYYY-MM-DD) falls in; queries first seen on
+ * or after it are "new this month"
+ */
+export function getMonthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
@@ -0,0 +1,162 @@
+import type { SearchAnalyticsRow } from '../google';
+
+export type OpportunityType = 'striking_distance' | 'low_ctr';
+
+export const OPPORTUNITY_LABELS: Record<OpportunityType, string> = {
+  striking_distance: 'Striking distance',
+  low_ctr: 'Low CTR',
+};
+
+/**
+ * Expected CTR by position, fitted as a power curve: ctr = a * position^-b
+ */
+export interface CtrCurve {
+  a: number;
+  b: number;
+}
+
+export interface OpportunityOptions {
+  // Positions that count as striking distance
+  minPosition: number;
+  maxPosition: number;
+  // Rows need at least this many impressions to count
+  minImpressions: number;
+  // A CTR below this fraction of the expected CTR counts as underperforming
+  ctrGapThreshold: number;
+  // Position a striking-distance row is assumed to reach when estimating uplift
+  targetPosition: number;
+}
+
+export const DEFAULT_OPPORTUNITY_OPTIONS: OpportunityOptions = {
+  minPosition: 4,
+  maxPosition: 20,
+  minImpressions: 100,
+  ctrGapThreshold: 0.5,
+  targetPosition: 3,
+};
+
+export interface Opportunity {
+  // Dimension values of the report row
+  keys: string[];
+  types: OpportunityType[];
+  // Expected CTR at the row's current position
+  expectedCtr: number;
+  // Extra clicks over the report's range if the opportunity is taken
+  estimatedUplift: number;
+}
+
+// Saved on the report as `opportunities`
+export interface OpportunityAnalysis {
+  curve: CtrCurve;
+  options: OpportunityOptions;
+  // Sorted by estimated uplift, largest first
+  opportunities: Opportunity[];
+}
+
+// Positions beyond this are too sparse to help the fit
+const MAX_FIT_POSITION = 50;
+// Fewer distinct positions than this can't give a meaningful curve
+const MIN_FIT_POINTS = 3;
+
+/**
+ * Expected CTR at a position according to the curve
+ */
+export function getExpectedCtr(curve: CtrCurve, position: number): number {
+  return Math.min(1, curve.a * Math.max(1, position) ** -curve.b);
+}
+
+/**
+ * Fits a CTR-by-position curve on the rows' own data. Rows are bucketed by
+ * rounded position and the power curve is fitted in log-log space, weighted
+ * by impressions. Returns null when there's too little data, or CTR doesn't
+ * fall with position.
+ */
+export function fitCtrCurve(rows: SearchAnalyticsRow[]): CtrCurve | null {
+  const buckets = new Map<number, { clicks: number; impressions: number }>();
+
+  rows.forEach(row => {
+    const position = Math.round(row.position ?? 0);
+    if (position < 1 || position > MAX_FIT_POSITION || !row.impressions) return;
+
+    const bucket = buckets.get(position) ?? { clicks: 0, impressions: 0 };
+    bucket.clicks += row.clicks ?? 0;
+    bucket.impressions += row.impressions;
+    buckets.set(position, bucket);
+  });
+
+  // Buckets without clicks have no log CTR
+  const points = [...buckets.entries()]
+    .filter(([, bucket]) => bucket.clicks > 0)
+    .map(([position, bucket]) => ({
+      x: Math.log(position),
+      y: Math.log(bucket.clicks / bucket.impressions),
+      weight: bucket.impressions,
+    }));
+
+  if (points.length < MIN_FIT_POINTS) return null;
+
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+  const meanX = points.reduce((sum, p) => sum + p.weight * p.x, 0) / totalWeight;
+  const meanY = points.reduce((sum, p) => sum + p.weight * p.y, 0) / totalWeight;
+  const covariance = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) ** 2, 0);
+
+  if (variance === 0) return null;
+
+  const slope = covariance / variance;
+  if (slope >= 0) return null;
+
+  return { a: Math.exp(meanY - slope * meanX), b: -slope };
+}
+
+/**
+ * Finds striking-distance rows (ranking just off the top positions with many
+ * impressions) and rows whose CTR is well below the site's expected CTR for
+ * their position, each with an estimated click uplift
+ */
+export function findOpportunities(
+  rows: SearchAnalyticsRow[],
+  options: OpportunityOptions = DEFAULT_OPPORTUNITY_OPTIONS
+): OpportunityAnalysis | null {
+  const curve = fitCtrCurve(rows);
+  if (!curve) return null;
+
+  const targetCtr = getExpectedCtr(curve, options.targetPosition);
+  const opportunities: Opportunity[] = [];
+
+  rows.forEach(row => {
+    const clicks = row.clicks ?? 0;
+    const impressions = row.impressions ?? 0;
+    const position = row.position ?? 0;
+    if (!row.keys || impressions < options.minImpressions || position === 0) return;
+
+    const expectedCtr = getExpectedCtr(curve, position);
+    const types: OpportunityType[] = [];
+    let estimatedUplift = 0;
+
+    if (position >= options.minPosition && position <= options.maxPosition) {
+      types.push('striking_distance');
+      estimatedUplift = Math.max(estimatedUplift, impressions * targetCtr - clicks);
+    }
+
+    if (clicks / impressions < expectedCtr * options.ctrGapThreshold) {
+      types.push('low_ctr');
+      estimatedUplift = Math.max(estimatedUplift, impressions * expectedCtr - clicks);
+    }
+
+    if (types.length === 0 || estimatedUplift < 1) return;
+
+    opportunities.push({
+      keys: row.keys,
+      types,
+      expectedCtr,
+      estimatedUplift: Math.round(estimatedUplift),
+    });
+  });
+
+  return {
+    curve,
+    options,
+    opportunities: opportunities.sort((a, b) => b.estimatedUplift - a.estimatedUplift),
+  };
+}
@@ -105,4 +105,18 @@ export const getUserFromRequest = async (req: NextRequest): Promise<{ id: string
   if (!payload) return null;
   
   return { id: payload.sub as string };
-}; 
\ No newline at end of file
+}; 
+// Turn a post-login return path into a same-origin path, or null when it
+// could send the user to another site (e.g. `//evil.com` or `/\evil.com`)
+export const getSafeReturnPath = (value: string | null | undefined, requestUrl: string): string | null => {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return null;
+  
+  try {
+    const base = new URL(requestUrl);
+    const resolved = new URL(value, base);
+    if (resolved.origin !== base.origin) return null;
+    return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,85 @@
+export type BrandRuleType = 'term' | 'regex';
+export type BrandSegment = 'branded' | 'non_branded';
+
+export interface BrandRule {
+  type: BrandRuleType;
+  value: string;
+}
+
+export const BRAND_SEGMENT_LABELS: Record<BrandSegment, string> = {
+  branded: 'Branded',
+  non_branded: 'Non-branded',
+};
+
+export const MAX_BRAND_RULES = 100;
+const MAX_RULE_LENGTH = 200;
+
+/**
+ * Lowercases a query and strips accents and punctuation, so "Açme-Corp"
+ * matches the term "acme corp"
+ */
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Checks a list of brand rules, returning an error message or null if valid
+ */
+export function validateBrandRules(rules: BrandRule[]): string | null {
+  if (!Array.isArray(rules)) return 'Brand rules must be an array';
+  if (rules.length > MAX_BRAND_RULES) return `At most ${MAX_BRAND_RULES} brand rules are allowed`;
+
+  for (const rule of rules) {
+    if (!rule || (rule.type !== 'term' && rule.type !== 'regex')) {
+      return 'Each brand rule must be a term or a regex';
+    }
+    if (typeof rule.value !== 'string' || !rule.value.trim()) {
+      return 'Brand rules need a value';
+    }
+    if (rule.value.length > MAX_RULE_LENGTH) {
+      return `Brand rules can be at most ${MAX_RULE_LENGTH} characters`;
+    }
+    if (rule.type === 'regex') {
+      try {
+        new RegExp(rule.value, 'i');
+      } catch {
+        return `Invalid regex: ${rule.value}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds a function that tells whether a query is branded. Terms match
+ * anywhere in the normalized query, also with spaces removed ("acme corp"
+ * matches "acmecorp"); regexes are case-insensitive and run on the raw query.
+ */
+export function createBrandMatcher(rules: BrandRule[]): (query: string) => boolean {
+  const terms = rules
+    .filter(rule => rule.type === 'term')
+    .map(rule => normalize(rule.value))
+    .filter(Boolean);
+  const patterns = rules
+    .filter(rule => rule.type === 'regex')
+    .map(rule => new RegExp(rule.value, 'i'));
+
+  return (query: string) => {
+    const normalized = normalize(query);
+    const compact = normalized.replace(/ /g, '');
+    return terms.some(term => normalized.includes(term) || compact.includes(term.replace(/ /g, '')))
+      || patterns.some(pattern => pattern.test(query));
+  };
+}
+
+/**
+ * Segment of a query under a matcher from createBrandMatcher
+ */
+export function getBrandSegment(query: string, isBranded: (query: string) => boolean): BrandSegment {
+  return isBranded(query) ? 'branded' : 'non_branded';
+}
@@ -0,0 +1,95 @@
+import { supabaseAdmin } from './supabase';
+import { CalculatedMetric } from './formulas';
+
+const COLUMNS = 'id, name, formula, format, description';
+
+/**
+ * Lists a user's calculated metrics, oldest first so new ones go to the end
+ */
+export async function listCalculatedMetrics(userId: string): Promise<CalculatedMetric[]> {
+  const { data, error } = await supabaseAdmin
+    .from('calculated_metrics')
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[listCalculatedMetrics] Failed to list calculated metrics:', error);
+    throw new Error('Failed to list calculated metrics');
+  }
+
+  return (data || []) as CalculatedMetric[];
+}
+
+/**
+ * Gets the user's calculated metrics with the given ids. Ids the user has no
+ * metric for are left out, so callers can tell which ones are missing.
+ */
+export async function getCalculatedMetrics(userId: string, ids: string[]): Promise<CalculatedMetric[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('calculated_metrics')
+    .select(COLUMNS)
+    .eq('user_id', userId)
+    .in('id', ids);
+
+  if (error) {
+    console.error('[getCalculatedMetrics] Failed to load calculated metrics:', error);
+    throw new Error('Failed to load calculated metrics');
+  }
+
+  return (data || []) as CalculatedMetric[];
+}
+
+/**
+ * Saves a new calculated metric, or updates the user's metric with `id`.
+ * Returns null when there is no such metric to update.
+ */
+export async function saveCalculatedMetric(
+  userId: string,
+  metric: Omit<CalculatedMetric, 'id'> & { id?: string }
+): Promise<CalculatedMetric | null> {
+  const values = {
+    name: metric.name.trim(),
+    formula: metric.formula.trim(),
+    format: metric.format,
+    description: metric.description?.trim() || null,
+  };
+
+  const query = metric.id
+    ? supabaseAdmin
+        .from('calculated_metrics')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('id', metric.id)
+    : supabaseAdmin
+        .from('calculated_metrics')
+        .insert({ ...values, user_id: userId });
+
+  const { data, error } = await query.select(COLUMNS).maybeSingle();
+
+  if (error) {
+    console.error('[saveCalculatedMetric] Failed to save calculated metric:', error);
+    throw new Error('Failed to save calculated metric');
+  }
+
+  return data as CalculatedMetric | null;
+}
+
+/**
+ * Deletes one of the user's calculated metrics. Saved reports keep a copy
+ * of the metrics they were run with, so they still show its values.
+ */
+export async function deleteCalculatedMetric(userId: string, id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('calculated_metrics')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', id);
+
+  if (error) {
+    console.error('[deleteCalculatedMetric] Failed to delete calculated metric:', error);
+    throw new Error('Failed to delete calculated metric');
+  }
+}
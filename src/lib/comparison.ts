@@ -0,0 +1,103 @@
+import { MetricType } from './types';
+
+// `unknown`: only in the current range, but the comparison range hit the row
+// cap, so the row may have existed there too
+export type ComparisonStatus = 'new' | 'lost' | 'existing' | 'unknown';
+
+export const COMPARISON_METRICS: MetricType[] = ['clicks', 'impressions', 'ctr', 'position'];
+
+export interface ComparisonMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position?: number;
+}
+
+export interface ComparisonRow extends ComparisonMetrics {
+  keys: string[];
+  // Metrics for the comparison range, null when the row didn't exist then
+  previous: ComparisonMetrics | null;
+  status: ComparisonStatus;
+}
+
+interface GscRow {
+  keys?: string[] | null;
+  clicks?: number | null;
+  impressions?: number | null;
+  ctr?: number | null;
+  position?: number | null;
+}
+
+const toMetrics = (row: GscRow): ComparisonMetrics => ({
+  clicks: row.clicks ?? 0,
+  impressions: row.impressions ?? 0,
+  ctr: row.ctr ?? 0,
+  position: row.position ?? undefined,
+});
+
+const rowKey = (row: GscRow) => JSON.stringify(row.keys ?? []);
+
+/**
+ * Joins rows from the current and comparison ranges by their dimension keys.
+ * Rows only present in the current range are marked `new`; rows only present
+ * in the comparison range are kept as `lost` with zeroed current metrics.
+ * A range that hit the row cap (`truncated`) is missing its smallest rows, so
+ * a row absent from it proves nothing: current-only rows become `unknown`
+ * instead of `new`, and comparison-only rows are left out instead of `lost`.
+ */
+export function joinComparisonRows(
+  current: GscRow[],
+  previous: GscRow[],
+  truncated: { current: boolean; previous: boolean } = { current: false, previous: false }
+): ComparisonRow[] {
+  const previousByKey = new Map<string, GscRow>();
+  previous.forEach(row => previousByKey.set(rowKey(row), row));
+
+  const joined: ComparisonRow[] = current.map(row => {
+    const key = rowKey(row);
+    const previousRow = previousByKey.get(key);
+    previousByKey.delete(key);
+
+    return {
+      keys: row.keys ?? [],
+      ...toMetrics(row),
+      previous: previousRow ? toMetrics(previousRow) : null,
+      status: previousRow ? 'existing' : truncated.previous ? 'unknown' : 'new',
+    };
+  });
+
+  // Whatever is left only existed in the comparison range, as far as we know
+  if (truncated.current) return joined;
+  previousByKey.forEach(row => {
+    joined.push({
+      keys: row.keys ?? [],
+      clicks: 0,
+      impressions: 0,
+      ctr: 0,
+      position: undefined,
+      previous: toMetrics(row),
+      status: 'lost',
+    });
+  });
+
+  return joined;
+}
+
+/**
+ * Returns the absolute and percentage change between two values.
+ * The percentage is null when there is no base value to compare against.
+ */
+export function computeDelta(
+  current: number | undefined,
+  previous: number | undefined
+): { change: number | null; changePercent: number | null } {
+  if (current === undefined || previous === undefined) {
+    return { change: null, changePercent: null };
+  }
+
+  const change = current - previous;
+  return {
+    change,
+    changePercent: previous === 0 ? null : change / previous,
+  };
+}
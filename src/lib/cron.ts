@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Checks that a request comes from the scheduler. Vercel Cron sends
+ * CRON_SECRET as a bearer token; without a configured secret nothing passes.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
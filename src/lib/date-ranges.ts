@@ -0,0 +1,271 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subQuarters,
+} from 'date-fns';
+import { CalendarDate, ComparisonMode, TimeRange, TimeRangeType } from './types';
+
+export type PresetTimeRangeType = Exclude<TimeRangeType, 'custom'>;
+
+// Comparison modes worked out from the range itself, so they always give a range
+export type RelativeComparisonMode = Exclude<ComparisonMode, 'none' | 'custom'>;
+
+// Time ranges relative to today, in the order the builder offers them
+export const TIME_RANGE_PRESETS: { type: PresetTimeRangeType; name: string; description: string }[] = [
+  { type: 'last7days', name: 'Last 7 Days', description: 'The last 7 days with complete data' },
+  { type: 'last28days', name: 'Last 28 Days', description: 'The last 28 days with complete data' },
+  { type: 'last3months', name: 'Last 3 Months', description: 'The last 3 months with complete data' },
+  { type: 'last12months', name: 'Last 12 Months', description: 'The last 12 months with complete data' },
+  { type: 'last16months', name: 'Last 16 Months', description: 'Everything Search Console keeps' },
+  { type: 'monthToDate', name: 'Month to Date', description: 'From the 1st of this month' },
+  { type: 'previousMonth', name: 'Previous Month', description: 'The whole previous calendar month' },
+  { type: 'previousQuarter', name: 'Previous Quarter', description: 'The whole previous calendar quarter' },
+  { type: 'yearToDate', name: 'Year to Date', description: 'From January 1st of this year' },
+  { type: 'samePeriodLastYear', name: 'Same Period Last Year', description: 'The last 28 days, one year earlier' },
+];
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: 'none', label: 'No comparison' },
+  { value: 'previousPeriod', label: 'Previous period' },
+  { value: 'previousYear', label: 'Same period last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+// Search Console keeps revising the last few days; data older than this is final
+export const FINAL_DATA_LAG_DAYS = 3;
+
+// Search Console splits data into days in Pacific Time
+export const GSC_TIMEZONE = 'America/Los_Angeles';
+export const GSC_TIMEZONE_LABEL = 'Pacific Time';
+
+// Report times are shown in Search Console's timezone until users pick their own
+export const DEFAULT_DISPLAY_TIMEZONE = GSC_TIMEZONE;
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks a value is a real YYYY-MM-DD date
+ */
+export function isCalendarDate(value: unknown): value is CalendarDate {
+  return typeof value === 'string' && CALENDAR_DATE_PATTERN.test(value) && format(parseISO(value), 'yyyy-MM-dd') === value;
+}
+
+/**
+ * Checks a timezone is an IANA name the runtime knows, like Europe/Paris
+ */
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar day of a Date as seen on this machine. Date pickers hand out
+ * local midnights, so this is how their dates become calendar dates.
+ */
+export function toCalendarDate(date: Date): CalendarDate {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Local midnight of a calendar date, for date pickers and date-fns math
+ */
+export function fromCalendarDate(date: CalendarDate): Date {
+  return parseISO(date);
+}
+
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  return toCalendarDate(addDays(fromCalendarDate(date), days));
+}
+
+export function addCalendarMonths(date: CalendarDate, months: number): CalendarDate {
+  return toCalendarDate(addMonths(fromCalendarDate(date), months));
+}
+
+/**
+ * Today's calendar date in a timezone, Search Console's by default
+ */
+export function getToday(timeZone: string = GSC_TIMEZONE, now: Date = new Date()): CalendarDate {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/**
+ * Formats a calendar date for display, e.g. "Mar 5, 2024"
+ */
+export function formatCalendarDate(date: CalendarDate, pattern: string = 'MMM d, yyyy'): string {
+  return format(fromCalendarDate(date), pattern);
+}
+
+/**
+ * Formats a moment, like when a report was generated, in a timezone
+ */
+export function formatTimestamp(timestamp: string, timeZone: string = DEFAULT_DISPLAY_TIMEZONE): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZoneName: 'short',
+  }).format(new Date(timestamp));
+}
+
+/**
+ * The newest day assumed to have complete data when the property hasn't
+ * been checked: FINAL_DATA_LAG_DAYS before today in Pacific Time
+ */
+export function getEstimatedLatestCompleteDate(now: Date = new Date()): CalendarDate {
+  return addCalendarDays(getToday(GSC_TIMEZONE, now), -FINAL_DATA_LAG_DAYS);
+}
+
+/**
+ * Works out the dates of a preset time range. Rolling ranges end on the
+ * latest complete day, so the days Search Console is still processing don't
+ * look like a drop; calendar ranges (previous month or quarter) follow
+ * today's calendar, and to-date ranges run from the start of today's month
+ * or year up to the latest complete day. `today` is Search Console's day, the
+ * same timezone as `latestCompleteDate`; display timezones only change labels.
+ */
+export function getPresetTimeRange(
+  type: PresetTimeRangeType,
+  latestCompleteDate: CalendarDate = getEstimatedLatestCompleteDate(),
+  today: CalendarDate = getToday()
+): TimeRange {
+  const end = latestCompleteDate;
+  const todayDate = fromCalendarDate(today);
+  const lastMonths = (months: number) => ({ startDate: addCalendarDays(addCalendarMonths(end, -months), 1), endDate: end });
+  // To-date ranges keep at least their first day, even before it's complete
+  const toDate = (startDate: CalendarDate) => ({ startDate, endDate: startDate > end ? startDate : end });
+
+  const dates = (() => {
+    switch (type) {
+      case 'last7days':
+        return { startDate: addCalendarDays(end, -6), endDate: end };
+      case 'last28days':
+        return { startDate: addCalendarDays(end, -27), endDate: end };
+      case 'last3months':
+        return lastMonths(3);
+      case 'last12months':
+        return lastMonths(12);
+      case 'last16months':
+        return lastMonths(16);
+      case 'monthToDate':
+        return toDate(toCalendarDate(startOfMonth(todayDate)));
+      case 'previousMonth': {
+        const month = addMonths(todayDate, -1);
+        return { startDate: toCalendarDate(startOfMonth(month)), endDate: toCalendarDate(endOfMonth(month)) };
+      }
+      case 'previousQuarter': {
+        const quarter = subQuarters(todayDate, 1);
+        return { startDate: toCalendarDate(startOfQuarter(quarter)), endDate: toCalendarDate(endOfQuarter(quarter)) };
+      }
+      case 'yearToDate':
+        return toDate(toCalendarDate(startOfYear(todayDate)));
+      case 'samePeriodLastYear':
+        return { startDate: addCalendarMonths(addCalendarDays(end, -27), -12), endDate: addCalendarMonths(end, -12) };
+    }
+  })();
+
+  return {
+    type,
+    name: TIME_RANGE_PRESETS.find(preset => preset.type === type)!.name,
+    startDate: dates.startDate,
+    endDate: dates.endDate,
+    isCustom: false,
+  };
+}
+
+/**
+ * Counts the days of a range after the latest complete day, which
+ * Search Console is still revising
+ */
+export function countIncompleteDays(startDate: CalendarDate, endDate: CalendarDate, latestCompleteDate: CalendarDate): number {
+  const dayBeforeStart = addCalendarDays(startDate, -1);
+  const lastCompleteDay = latestCompleteDate > dayBeforeStart ? latestCompleteDate : dayBeforeStart;
+  return Math.max(0, differenceInCalendarDays(fromCalendarDate(endDate), fromCalendarDate(lastCompleteDay)));
+}
+
+/**
+ * Builds the time range stored in a report template: preset ranges are
+ * worked out again as of today, custom ones keep their saved dates
+ */
+export function resolveTimeRange(
+  range: { type: TimeRangeType; startDate?: CalendarDate; endDate?: CalendarDate },
+  latestCompleteDate?: CalendarDate,
+  today?: CalendarDate
+): TimeRange {
+  if (range.type !== 'custom') return getPresetTimeRange(range.type, latestCompleteDate, today);
+
+  return {
+    type: 'custom',
+    name: 'Custom Range',
+    startDate: range.startDate!,
+    endDate: range.endDate!,
+    isCustom: true,
+  };
+}
+
+/**
+ * Works out the range to compare a report range against.
+ * - previousPeriod: the same number of days immediately before the range
+ * - previousYear: the same calendar dates one year earlier
+ * - custom: the explicitly provided range
+ * Returns null when no comparison is requested.
+ */
+export function getComparisonRange(
+  mode: RelativeComparisonMode,
+  startDate: CalendarDate,
+  endDate: CalendarDate
+): { startDate: CalendarDate; endDate: CalendarDate };
+export function getComparisonRange(
+  mode: ComparisonMode,
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  customRange?: { startDate: CalendarDate; endDate: CalendarDate }
+): { startDate: CalendarDate; endDate: CalendarDate } | null;
+export function getComparisonRange(
+  mode: ComparisonMode,
+  startDate: CalendarDate,
+  endDate: CalendarDate,
+  customRange?: { startDate: CalendarDate; endDate: CalendarDate }
+): { startDate: CalendarDate; endDate: CalendarDate } | null {
+  switch (mode) {
+    case 'previousPeriod': {
+      const days = differenceInCalendarDays(fromCalendarDate(endDate), fromCalendarDate(startDate)) + 1;
+      return {
+        startDate: addCalendarDays(startDate, -days),
+        endDate: addCalendarDays(startDate, -1),
+      };
+    }
+    case 'previousYear':
+      return {
+        startDate: addCalendarMonths(startDate, -12),
+        endDate: addCalendarMonths(endDate, -12),
+      };
+    case 'custom':
+      return customRange ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The last `days` days of final data, as API dates ending FINAL_DATA_LAG_DAYS ago
+ */
+export function getRecentApiRange(days: number): { startDate: CalendarDate; endDate: CalendarDate } {
+  const endDate = getEstimatedLatestCompleteDate();
+  return {
+    startDate: addCalendarDays(endDate, -(days - 1)),
+    endDate,
+  };
+}
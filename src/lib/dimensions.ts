@@ -0,0 +1,52 @@
+import { DimensionType } from './types';
+
+// Display labels for Search Analytics dimensions
+export const DIMENSION_LABELS: Record<DimensionType, string> = {
+  query: 'Query',
+  page: 'Page',
+  country: 'Country',
+  device: 'Device',
+  searchAppearance: 'Search Appearance',
+  date: 'Date',
+};
+
+export const VALID_DIMENSIONS = Object.keys(DIMENSION_LABELS) as DimensionType[];
+
+/**
+ * Returns the display label for a dimension, falling back to the raw name
+ */
+export function getDimensionLabel(dimension: string): string {
+  return DIMENSION_LABELS[dimension as DimensionType] || dimension;
+}
+
+/**
+ * Validates a list of dimensions coming from a request body.
+ * Returns an error message, or null when all dimensions are valid.
+ */
+export function validateDimensions(dimensions: unknown): string | null {
+  if (!Array.isArray(dimensions)) {
+    return 'Dimensions must be an array';
+  }
+
+  const invalid = dimensions.filter(d => !VALID_DIMENSIONS.includes(d as DimensionType));
+  if (invalid.length > 0) {
+    return `Invalid dimensions: ${invalid.join(', ')}`;
+  }
+
+  if (new Set(dimensions).size !== dimensions.length) {
+    return 'Dimensions must not contain duplicates';
+  }
+
+  return null;
+}
+
+/**
+ * Maps a GSC row's `keys` array onto the requested dimensions
+ */
+export function mapRowKeys(keys: string[] = [], dimensions: string[]): Partial<Record<DimensionType, string>> {
+  const values: Partial<Record<DimensionType, string>> = {};
+  dimensions.forEach((dimension, index) => {
+    values[dimension as DimensionType] = keys[index];
+  });
+  return values;
+}
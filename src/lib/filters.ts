@@ -0,0 +1,122 @@
+import { DimensionFilter, FilterDimension, FilterOperator } from './types';
+
+// Dimensions that can be filtered, with display labels
+export const FILTER_DIMENSIONS: { value: FilterDimension; label: string }[] = [
+  { value: 'query', label: 'Query' },
+  { value: 'page', label: 'Page' },
+  { value: 'country', label: 'Country' },
+  { value: 'device', label: 'Device' },
+  { value: 'searchAppearance', label: 'Search Appearance' },
+];
+
+// Filter operators, with display labels
+export const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'notContains', label: 'Does not contain' },
+  { value: 'includingRegex', label: 'Matches regex' },
+  { value: 'excludingRegex', label: 'Does not match regex' },
+];
+
+// Device values accepted by the API (case-insensitive)
+const DEVICE_VALUES = ['DESKTOP', 'MOBILE', 'TABLET'];
+
+/**
+ * Validates a list of dimension filters coming from a request body.
+ * Returns an error message, or null when all filters are valid.
+ */
+export function validateDimensionFilters(filters: unknown): string | null {
+  if (filters === undefined || filters === null) return null;
+
+  if (!Array.isArray(filters)) {
+    return 'Filters must be an array';
+  }
+
+  for (const filter of filters as Partial<DimensionFilter>[]) {
+    if (!FILTER_DIMENSIONS.some(d => d.value === filter?.dimension)) {
+      return `Invalid filter dimension: ${filter?.dimension}`;
+    }
+
+    if (!FILTER_OPERATORS.some(o => o.value === filter.operator)) {
+      return `Invalid filter operator: ${filter.operator}`;
+    }
+
+    if (typeof filter.expression !== 'string' || filter.expression.trim() === '') {
+      return `Filter on ${filter.dimension} requires an expression`;
+    }
+
+    if (filter.operator === 'includingRegex' || filter.operator === 'excludingRegex') {
+      try {
+        new RegExp(filter.expression);
+      } catch {
+        return `Invalid regular expression: ${filter.expression}`;
+      }
+    }
+
+    if (
+      filter.dimension === 'device' &&
+      filter.operator === 'equals' &&
+      !DEVICE_VALUES.includes(filter.expression.toUpperCase())
+    ) {
+      return `Device must be one of: ${DEVICE_VALUES.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Puts filter expressions in the form Search Console stores values in
+ * (devices are upper case, e.g. MOBILE). Used for both the API and the
+ * warehouse, so a filter matches the same rows whichever answers it.
+ */
+export function normalizeDimensionFilters(filters: DimensionFilter[] = []): Pick<DimensionFilter, 'dimension' | 'operator' | 'expression'>[] {
+  return filters.map(filter => ({
+    dimension: filter.dimension,
+    operator: filter.operator,
+    expression: filter.dimension === 'device'
+      ? filter.expression.toUpperCase()
+      : filter.expression,
+  }));
+}
+
+/**
+ * Converts dimension filters into the `dimensionFilterGroups` shape expected
+ * by the Search Analytics API. All filters are combined with AND.
+ */
+export function buildDimensionFilterGroups(filters: DimensionFilter[] = []) {
+  if (filters.length === 0) return undefined;
+
+  return [
+    {
+      groupType: 'and',
+      filters: normalizeDimensionFilters(filters),
+    },
+  ];
+}
+
+/**
+ * Parses filters passed as query string parameters in the form
+ * `dimension:operator:expression` (the expression may itself contain colons).
+ */
+export function parseFilterParams(params: string[]): DimensionFilter[] {
+  return params.map((param, index) => {
+    const [dimension, operator, ...rest] = param.split(':');
+    return {
+      id: `param-${index}`,
+      dimension: dimension as FilterDimension,
+      operator: operator as FilterOperator,
+      expression: rest.join(':'),
+    };
+  });
+}
+
+/**
+ * Builds a stable string representation of filters for use in cache keys
+ */
+export function serializeFilters(filters: DimensionFilter[] = []): string {
+  return filters
+    .map(f => `${f.dimension}:${f.operator}:${f.expression}`)
+    .sort()
+    .join('&');
+}
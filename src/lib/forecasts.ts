@@ -0,0 +1,202 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabaseAdmin } from './supabase';
+import { querySearchAnalytics } from './google';
+import { getLatestFinalDate } from './warehouse';
+import {
+  compareForecastWithActuals,
+  FORECAST_METRICS,
+  ForecastAccuracy,
+  ForecastActualPoint,
+  ForecastMetric,
+  forecastSeries,
+  MetricForecast,
+  MIN_HISTORY_DAYS,
+  toDailySeries,
+} from './analysis/forecast';
+import { DimensionFilter, SearchType } from './types';
+
+// Search Console keeps 16 months of data; the model is fitted on all of it
+const HISTORY_MONTHS = 16;
+// Days of actual data shown before the forecast starts
+const CONTEXT_DAYS = 90;
+const MAX_LISTED_FORECASTS = 50;
+
+/**
+ * Thrown when a property or segment has too little data to fit a model on
+ */
+export class InsufficientHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientHistoryError';
+  }
+}
+
+export interface SavedForecast {
+  id: string;
+  siteUrl: string;
+  name: string | null;
+  searchType: SearchType;
+  // Empty for the whole property
+  filters: DimensionFilter[];
+  horizonDays: number;
+  historyStart: string;
+  historyEnd: string;
+  metrics: Record<ForecastMetric, MetricForecast>;
+  createdAt: string;
+}
+
+export interface ForecastWithActuals {
+  forecast: SavedForecast;
+  // Actual daily values from CONTEXT_DAYS before the forecast up to the latest final day
+  actuals: Record<ForecastMetric, ForecastActualPoint[]>;
+  accuracy: Record<ForecastMetric, ForecastAccuracy>;
+}
+
+interface ForecastRow {
+  id: string;
+  site_url: string;
+  name: string | null;
+  search_type: SearchType;
+  filters: DimensionFilter[];
+  horizon_days: number;
+  history_start: string;
+  history_end: string;
+  metrics: Record<ForecastMetric, MetricForecast>;
+  created_at: string;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const toSavedForecast = (row: ForecastRow): SavedForecast => ({
+  id: row.id,
+  siteUrl: row.site_url,
+  name: row.name,
+  searchType: row.search_type,
+  filters: row.filters || [],
+  horizonDays: row.horizon_days,
+  historyStart: row.history_start,
+  historyEnd: row.history_end,
+  metrics: row.metrics,
+  createdAt: row.created_at,
+});
+
+/**
+ * Gets the actual daily values around a forecast and how close the forecast
+ * came on the days that have final data
+ */
+async function withActuals(userId: string, forecast: SavedForecast): Promise<ForecastWithActuals> {
+  const forecastEnd = toDateString(addDays(parseISO(forecast.historyEnd), forecast.horizonDays));
+  const latestFinalDate = getLatestFinalDate();
+  const startDate = toDateString(addDays(parseISO(forecast.historyEnd), -(CONTEXT_DAYS - 1)));
+  const endDate = forecastEnd < latestFinalDate ? forecastEnd : latestFinalDate;
+
+  const rows = await querySearchAnalytics(userId, forecast.siteUrl, startDate, endDate, ['date'], forecast.filters, forecast.searchType);
+
+  const actuals = {} as Record<ForecastMetric, ForecastActualPoint[]>;
+  const accuracy = {} as Record<ForecastMetric, ForecastAccuracy>;
+  FORECAST_METRICS.forEach(metric => {
+    actuals[metric] = toDailySeries(rows, metric, startDate, endDate);
+    accuracy[metric] = compareForecastWithActuals(forecast.metrics[metric].points, actuals[metric]);
+  });
+
+  return { forecast, actuals, accuracy };
+}
+
+/**
+ * Fits clicks and impressions of a property, or of the rows matching
+ * `filters`, on all the final data Search Console holds, then saves the
+ * projection so it can be checked against actual data later
+ */
+export async function createForecast(
+  userId: string,
+  siteUrl: string,
+  horizonDays: number,
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  name: string | null = null
+): Promise<ForecastWithActuals> {
+  const historyEnd = getLatestFinalDate();
+  const historyStart = toDateString(addDays(addMonths(parseISO(historyEnd), -HISTORY_MONTHS), 1));
+
+  const rows = await querySearchAnalytics(userId, siteUrl, historyStart, historyEnd, ['date'], filters, searchType);
+
+  // Leading days before the property (or segment) had any data would drag the fit down
+  const firstDate = rows.reduce<string | null>((first, row) => {
+    const date = row.keys?.[0];
+    return date && (!first || date < first) ? date : first;
+  }, null);
+  if (!firstDate) {
+    throw new InsufficientHistoryError('No data to forecast for this property and filters');
+  }
+  if (differenceInCalendarDays(parseISO(historyEnd), parseISO(firstDate)) + 1 < MIN_HISTORY_DAYS) {
+    throw new InsufficientHistoryError(`At least ${MIN_HISTORY_DAYS} days of data are needed to forecast`);
+  }
+
+  const metrics = {} as Record<ForecastMetric, MetricForecast>;
+  FORECAST_METRICS.forEach(metric => {
+    metrics[metric] = forecastSeries(toDailySeries(rows, metric, firstDate, historyEnd), horizonDays);
+  });
+
+  const { data, error } = await supabaseAdmin
+    .from('forecasts')
+    .insert({
+      user_id: userId,
+      site_url: siteUrl,
+      name,
+      search_type: searchType,
+      filters,
+      horizon_days: horizonDays,
+      history_start: firstDate,
+      history_end: historyEnd,
+      metrics,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error(`[createForecast] Failed to save forecast for ${siteUrl}:`, error);
+    throw new Error('Failed to save forecast');
+  }
+
+  return withActuals(userId, toSavedForecast(data as ForecastRow));
+}
+
+/**
+ * Lists a property's saved forecasts, newest first
+ */
+export async function listForecasts(userId: string, siteUrl: string): Promise<SavedForecast[]> {
+  const { data, error } = await supabaseAdmin
+    .from('forecasts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('site_url', siteUrl)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_FORECASTS);
+
+  if (error) {
+    console.error(`[listForecasts] Failed to list forecasts for ${siteUrl}:`, error);
+    throw new Error('Failed to list forecasts');
+  }
+
+  return ((data || []) as ForecastRow[]).map(toSavedForecast);
+}
+
+/**
+ * Gets a saved forecast with the actual data that has come in since
+ */
+export async function getForecast(userId: string, siteUrl: string, id: string): Promise<ForecastWithActuals | null> {
+  const { data, error } = await supabaseAdmin
+    .from('forecasts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('site_url', siteUrl)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[getForecast] Failed to load forecast ${id}:`, error);
+    throw new Error('Failed to load forecast');
+  }
+
+  return data ? withActuals(userId, toSavedForecast(data as ForecastRow)) : null;
+}
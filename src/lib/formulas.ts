@@ -0,0 +1,385 @@
+import { MetricType } from './types';
+
+// Formulas are parsed into a small expression tree and evaluated by walking
+// it, so user input is never run as code. The language only has numbers,
+// the variables below, + - * / with parentheses, and a few functions.
+
+export type CalculatedMetricFormat = 'integer' | 'decimal' | 'percent';
+
+export const CALCULATED_METRIC_FORMATS: { value: CalculatedMetricFormat; label: string }[] = [
+  { value: 'integer', label: 'Whole number' },
+  { value: 'decimal', label: 'Decimal (2 places)' },
+  { value: 'percent', label: 'Percentage' },
+];
+
+export interface CalculatedMetric {
+  id: string;
+  name: string;
+  formula: string;
+  format: CalculatedMetricFormat;
+  description: string | null;
+}
+
+// Variables a formula can use, with what they hold for each row
+export const FORMULA_VARIABLES: { name: string; description: string }[] = [
+  { name: 'clicks', description: 'Clicks of the row' },
+  { name: 'impressions', description: 'Impressions of the row' },
+  { name: 'ctr', description: 'Click-through rate of the row (0-1)' },
+  { name: 'position', description: 'Average position of the row' },
+  { name: 'query_words', description: 'Words in the row\'s query (needs the Query dimension)' },
+  { name: 'total_clicks', description: 'Clicks summed over every row of the report' },
+  { name: 'total_impressions', description: 'Impressions summed over every row of the report' },
+];
+
+// Functions a formula can call, with how many arguments they take
+const FORMULA_FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; apply: (...args: number[]) => number }> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, apply: Math.max },
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  },
+};
+
+export const FORMULA_FUNCTION_NAMES = Object.keys(FORMULA_FUNCTIONS);
+
+export const MAX_FORMULA_LENGTH = 500;
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Calculated metrics are keyed `calc_<id>` in report requests and rows, so
+// they can't clash with the built-in metrics
+const CALCULATED_KEY_PREFIX = 'calc_';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number };
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+/**
+ * Splits a formula into numbers, names and symbols
+ */
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(formula.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: i + 1 });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(formula.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0].toLowerCase(), position: i + 1 });
+      i += name[0].length;
+      continue;
+    }
+
+    if ('+-*/(),'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}" at position ${i + 1}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a formula into an expression tree. Throws a FormulaError naming
+ * the problem and its position when the formula isn't valid.
+ */
+export function parseFormula(formula: string): FormulaNode {
+  if (!formula.trim()) throw new FormulaError('Formula is empty');
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formulas can be at most ${MAX_FORMULA_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value;
+  const describe = (token: Token | undefined) => token ? `"${token.value}" at position ${token.position}` : 'the end of the formula';
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new FormulaError(`Expected "${value}" but found ${describe(peek())}`);
+    index++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[index++].value as '+' | '-';
+      node = { type: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  // term := unary (("*" | "/") unary)*
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = tokens[index++].value as '*' | '/';
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  // unary := ("-" | "+") unary | primary
+  const parseUnary = (): FormulaNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { type: 'negate', operand: parseUnary() };
+    }
+    if (isSymbol('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  // primary := number | variable | function "(" arguments ")" | "(" expression ")"
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new FormulaError('Formula ends unexpectedly');
+
+    if (token.type === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.type === 'name') {
+      index++;
+      if (!isSymbol('(')) {
+        if (!FORMULA_VARIABLES.some(variable => variable.name === token.value)) {
+          throw new FormulaError(`Unknown variable "${token.value}" at position ${token.position}`);
+        }
+        return { type: 'variable', name: token.value };
+      }
+
+      // Own keys only, so names like "constructor" aren't looked up on the prototype
+      const fn = Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, token.value) ? FORMULA_FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new FormulaError(`Unknown function "${token.value}" at position ${token.position}`);
+
+      index++;
+      const args: FormulaNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseExpression());
+        while (isSymbol(',')) {
+          index++;
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        const expected = fn.maxArgs === Infinity
+          ? `at least ${fn.minArgs}`
+          : fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+        throw new FormulaError(`${token.value}() takes ${expected} argument(s), got ${args.length}`);
+      }
+      return { type: 'call', name: token.value, args };
+    }
+
+    if (isSymbol('(')) {
+      index++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    throw new FormulaError(`Unexpected ${describe(token)}`);
+  };
+
+  const node = parseExpression();
+  if (index < tokens.length) throw new FormulaError(`Unexpected ${describe(peek())}`);
+  return node;
+}
+
+/**
+ * Evaluates a parsed formula. Returns null when a variable it uses has no
+ * value for the row, or the result isn't a finite number (such as a
+ * division by zero).
+ */
+export function evaluateFormula(node: FormulaNode, variables: Record<string, number | null | undefined>): number | null {
+  const evaluate = (current: FormulaNode): number | null => {
+    switch (current.type) {
+      case 'number':
+        return current.value;
+      case 'variable':
+        return variables[current.name] ?? null;
+      case 'negate': {
+        const operand = evaluate(current.operand);
+        return operand === null ? null : -operand;
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        if (left === null || right === null) return null;
+        if (current.operator === '+') return left + right;
+        if (current.operator === '-') return left - right;
+        if (current.operator === '*') return left * right;
+        return right === 0 ? null : left / right;
+      }
+      case 'call': {
+        const args = current.args.map(evaluate);
+        if (args.some(arg => arg === null)) return null;
+        return FORMULA_FUNCTIONS[current.name].apply(...(args as number[]));
+      }
+    }
+  };
+
+  const result = evaluate(node);
+  return result !== null && Number.isFinite(result) ? result : null;
+}
+
+/**
+ * Lists the variables a parsed formula uses
+ */
+export function getFormulaVariables(node: FormulaNode): string[] {
+  const names = new Set<string>();
+  const visit = (current: FormulaNode) => {
+    if (current.type === 'variable') names.add(current.name);
+    if (current.type === 'negate') visit(current.operand);
+    if (current.type === 'binary') {
+      visit(current.left);
+      visit(current.right);
+    }
+    if (current.type === 'call') current.args.forEach(visit);
+  };
+  visit(node);
+  return [...names];
+}
+
+/**
+ * Built-in metrics a formula reads, for search type checks
+ */
+export function getFormulaMetrics(formula: string): MetricType[] {
+  const metrics: MetricType[] = ['clicks', 'impressions', 'ctr', 'position'];
+  const variables = getFormulaVariables(parseFormula(formula));
+  return metrics.filter(metric =>
+    variables.includes(metric) || variables.includes(`total_${metric}`)
+  );
+}
+
+/**
+ * Checks a calculated metric before it's saved, returning an error message
+ * or null when it's valid
+ */
+export function validateCalculatedMetric(metric: Partial<CalculatedMetric>): string | null {
+  if (typeof metric.name !== 'string' || !metric.name.trim()) return 'Name is required';
+  if (metric.name.length > MAX_NAME_LENGTH) return `Names can be at most ${MAX_NAME_LENGTH} characters`;
+  if (!CALCULATED_METRIC_FORMATS.some(format => format.value === metric.format)) {
+    return `Invalid format: ${metric.format}`;
+  }
+  if (metric.description && (typeof metric.description !== 'string' || metric.description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `Descriptions can be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (typeof metric.formula !== 'string') return 'Formula is required';
+
+  try {
+    parseFormula(metric.formula);
+  } catch (error: unknown) {
+    return error instanceof FormulaError ? error.message : 'Invalid formula';
+  }
+  return null;
+}
+
+export const getCalculatedMetricKey = (id: string) => `${CALCULATED_KEY_PREFIX}${id}`;
+
+export const isCalculatedMetricKey = (key: string) => key.startsWith(CALCULATED_KEY_PREFIX);
+
+export const getCalculatedMetricId = (key: string) => key.slice(CALCULATED_KEY_PREFIX.length);
+
+/**
+ * Formats the value of a calculated metric for display
+ */
+export function formatCalculatedValue(value: number | null | undefined, format: CalculatedMetricFormat): string {
+  if (value === null || value === undefined) return '-';
+  if (format === 'percent') return `${(value * 100).toFixed(2)}%`;
+  if (format === 'decimal') return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return Math.round(value).toLocaleString();
+}
+
+interface FormulaRow {
+  keys?: string[] | null;
+  clicks?: number | null;
+  impressions?: number | null;
+  ctr?: number | null;
+  position?: number | null;
+}
+
+// Comparison rows carry the previous range's metrics in `previous`
+type CalculatedRow<T> = T & { calculated: Record<string, number | null> };
+
+/**
+ * Evaluates calculated metrics over report rows. Each row gets a
+ * `calculated` map of metric key to value; rows of comparison reports also
+ * get one on `previous`, evaluated against the previous range's totals.
+ */
+export function addCalculatedMetrics<T extends FormulaRow & { previous?: FormulaRow | null }>(
+  rows: T[],
+  metrics: CalculatedMetric[],
+  dimensions: string[]
+): CalculatedRow<T>[] {
+  const formulas = metrics.map(metric => ({ key: getCalculatedMetricKey(metric.id), node: parseFormula(metric.formula) }));
+  const queryIndex = dimensions.indexOf('query');
+
+  const sum = (values: (number | null | undefined)[]) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+  const totals = { total_clicks: sum(rows.map(row => row.clicks)), total_impressions: sum(rows.map(row => row.impressions)) };
+  const previousTotals = {
+    total_clicks: sum(rows.map(row => row.previous?.clicks)),
+    total_impressions: sum(rows.map(row => row.previous?.impressions)),
+  };
+
+  const evaluateRow = (row: FormulaRow, keys: string[] | null | undefined, rowTotals: typeof totals) => {
+    const query = queryIndex >= 0 ? keys?.[queryIndex] : undefined;
+    const variables = {
+      clicks: row.clicks,
+      impressions: row.impressions,
+      ctr: row.ctr,
+      position: row.position,
+      query_words: query !== undefined ? query.split(/\s+/).filter(Boolean).length : null,
+      ...rowTotals,
+    };
+    return Object.fromEntries(formulas.map(({ key, node }) => [key, evaluateFormula(node, variables)]));
+  };
+
+  return rows.map(row => ({
+    ...row,
+    calculated: evaluateRow(row, row.keys, totals),
+    ...(row.previous
+      ? { previous: { ...row.previous, calculated: evaluateRow(row.previous, row.keys, previousTotals) } }
+      : {}),
+  }));
+}
@@ -1,6 +1,11 @@
-import { google } from 'googleapis';
+import { google, searchconsole_v1 } from 'googleapis';
 import { supabaseAdmin } from './supabase';
 import { getSupabase } from './supabase';
+import { DimensionFilter, SearchType } from './types';
+import { buildDimensionFilterGroups } from './filters';
+import { CachedQuery, getCachedRows, setCachedRows } from './gsc-cache';
+import { QuotaExceededError, scheduleGscRequest } from './quota';
+import { addCalendarDays, getEstimatedLatestCompleteDate, getToday } from './date-ranges';
 
 // Define interface to match actual structure of tokens from Google
 interface GoogleTokens {
@@ -24,19 +29,26 @@ export const getOAuth2Client = () => {
   return new google.auth.OAuth2(clientId, clientSecret, redirectUri);
 };
 
+// Read-only Search Console access is enough for everything except managing sitemaps
+export const SEARCH_CONSOLE_READONLY_SCOPE = 'https://www.googleapis.com/auth/webmasters.readonly';
+export const SEARCH_CONSOLE_WRITE_SCOPE = 'https://www.googleapis.com/auth/webmasters';
+
 // Function to get authorization URL
-export const getAuthUrl = () => {
+export const getAuthUrl = (options: { includeWriteScope?: boolean; state?: string } = {}) => {
   const oauth2Client = getOAuth2Client();
   
   return oauth2Client.generateAuthUrl({
     access_type: 'offline',
     prompt: 'consent', // Force to get refresh_token every time
+    include_granted_scopes: true,
+    // Only ask for write access when the user opts in (e.g. to submit sitemaps)
     scope: [
-      'https://www.googleapis.com/auth/webmasters.readonly',
+      options.includeWriteScope ? SEARCH_CONSOLE_WRITE_SCOPE : SEARCH_CONSOLE_READONLY_SCOPE,
       'https://www.googleapis.com/auth/userinfo.email',
       'https://www.googleapis.com/auth/userinfo.profile',
       'https://www.googleapis.com/auth/spreadsheets'
     ],
+    state: options.state,
   });
 };
 
@@ -73,6 +85,20 @@ export const getTokensFromDatabase = async (userId: string) => {
   return data;
 };
 
+/**
+ * Checks whether the user granted write access to Search Console
+ */
+export async function hasSearchConsoleWriteScope(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('tokens')
+    .select('scope')
+    .eq('user_id', userId)
+    .maybeSingle();
+  
+  if (error || !data?.scope) return false;
+  return data.scope.split(' ').includes(SEARCH_CONSOLE_WRITE_SCOPE);
+}
+
 /**
  * Gets a valid access token for a user, refreshing if necessary
  */
@@ -149,96 +175,247 @@ export const createSearchConsoleClient = async (userId: string) => {
   });
 };
 
+// Function to create a URL Inspection API client with valid token
+export const createUrlInspectionClient = async (userId: string) => {
+  const searchconsole = await createSearchAnalyticsClient(userId);
+  return searchconsole.urlInspection.index;
+};
+
 // Example function to list sites in Search Console
 export const listSites = async (userId: string) => {
   const searchConsole = await createSearchConsoleClient(userId);
-  const response = await searchConsole.sites.list();
+  const response = await scheduleGscRequest({ userId }, () => searchConsole.sites.list());
   return response.data.siteEntry || [];
 };
 
+export type SearchAnalyticsRow = searchconsole_v1.Schema$ApiDataRow;
+
+// Largest page the Search Analytics API returns
+export const SEARCH_ANALYTICS_PAGE_SIZE = 25000;
+// Default upper bound on rows fetched for a single request
+export const DEFAULT_MAX_ROWS = 100000;
+
+export interface SearchAnalyticsFetchOptions {
+  // Stop after this many rows
+  maxRows?: number;
+  pageSize?: number;
+  // Called after every page with the running row count
+  onProgress?: (rowsFetched: number) => void;
+}
+
+// Shape of the errors thrown by googleapis requests
+interface GoogleApiError {
+  code?: number | string;
+  message?: string;
+}
+
+// Turns Search Console API errors into user-facing messages
+const toSearchConsoleError = (error: unknown): Error => {
+  // Rate limits keep their retry-after so routes can tell the user when to try again
+  if (error instanceof QuotaExceededError) {
+    return error;
+  }
+
+  const apiError = (error ?? {}) as GoogleApiError;
+  if (apiError.code === 401) {
+    return new Error('Authentication failed. Please re-authorize the application.');
+  } else if (apiError.code === 403) {
+    return new Error('Insufficient permissions to access Search Console data for this site.');
+  }
+
+  return new Error(`Failed to query GSC data: ${apiError.message}`);
+};
+
 /**
- * Queries the Google Search Console API for search analytics data
+ * Creates an authorized Search Console (v1) client. Create one per request
+ * and reuse it for every page.
  */
-export async function querySearchAnalytics(
+export async function createSearchAnalyticsClient(userId: string) {
+  const accessToken = await getValidAccessToken(userId);
+
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials({ access_token: accessToken });
+
+  return google.searchconsole({
+    version: 'v1',
+    auth: oauth2Client
+  });
+}
+
+/**
+ * Iterates over Search Analytics rows one page at a time, so callers can
+ * process large result sets without holding them all in memory.
+ * Stops at `maxRows` or when the API runs out of rows.
+ */
+export async function* iterateSearchAnalytics(
   userId: string,
   siteUrl: string,
   startDate: string,
   endDate: string,
   dimensions: string[] = ['query'],
-  rowLimit: number = 1000,
-  startRow: number = 0
-): Promise<any> {
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  options: SearchAnalyticsFetchOptions = {}
+): AsyncGenerator<SearchAnalyticsRow[]> {
+  const { maxRows = DEFAULT_MAX_ROWS, pageSize = SEARCH_ANALYTICS_PAGE_SIZE, onProgress } = options;
+
+  let searchconsole;
   try {
-    // Get a valid access token
-    const accessToken = await getValidAccessToken(userId);
-    
-    // Create authorized client
-    const oauth2Client = new google.auth.OAuth2();
-    oauth2Client.setCredentials({ access_token: accessToken });
-    
-    // Create Search Console API client
-    const searchconsole = google.searchconsole({
-      version: 'v1',
-      auth: oauth2Client
-    });
-    
-    // Prepare request body
-    const requestBody = {
-      startDate,
-      endDate,
-      dimensions,
-      rowLimit,
-      startRow,
-      searchType: 'web',
-      aggregationType: 'auto'
-    };
-    
-    console.log(`Fetching GSC data for ${siteUrl} from ${startDate} to ${endDate}`);
-    
-    // Make the API request - Do NOT encode the siteUrl, pass it directly
-    const response = await searchconsole.searchanalytics.query({
-      siteUrl: siteUrl, // Removed encodeURIComponent
-      requestBody
-    });
-    
-    const rows = response.data.rows || [];
-    
-    // Check if we need to paginate
-    if (rows.length === rowLimit) {
-      // There might be more data, fetch next page
-      const nextPageRows = await querySearchAnalytics(
-        userId,
+    searchconsole = await createSearchAnalyticsClient(userId);
+  } catch (error) {
+    console.error('Error creating Search Console client:', error);
+    throw toSearchConsoleError(error);
+  }
+
+  console.log(`Fetching ${searchType} GSC data for ${siteUrl} from ${startDate} to ${endDate}`);
+
+  let startRow = 0;
+  while (startRow < maxRows) {
+    const rowLimit = Math.min(pageSize, maxRows - startRow);
+
+    let rows: SearchAnalyticsRow[];
+    try {
+      // Do NOT encode the siteUrl, pass it directly
+      const response = await scheduleGscRequest({ userId, siteUrl }, () => searchconsole.searchanalytics.query({
         siteUrl,
-        startDate,
-        endDate,
-        dimensions,
-        rowLimit,
-        startRow + rowLimit
-      );
-      
-      // Combine results
-      return [...rows, ...nextPageRows];
+        requestBody: {
+          startDate,
+          endDate,
+          dimensions,
+          rowLimit,
+          startRow,
+          type: searchType,
+          aggregationType: 'auto',
+          dimensionFilterGroups: buildDimensionFilterGroups(filters)
+        }
+      }));
+      rows = response.data.rows || [];
+    } catch (error) {
+      console.error('Error querying Search Console API:', error);
+      throw toSearchConsoleError(error);
     }
-    
-    return rows;
-  } catch (error: any) {
-    console.error('Error querying Search Console API:', error);
-    
-    // Handle specific API errors
-    if (error.code === 401) {
-      throw new Error('Authentication failed. Please re-authorize the application.');
-    } else if (error.code === 403) {
-      throw new Error('Insufficient permissions to access Search Console data for this site.');
-    } else if (error.code === 429) {
-      throw new Error('GSC API quota exceeded. Please try again later.');
+
+    startRow += rows.length;
+    onProgress?.(startRow);
+
+    if (rows.length > 0) {
+      yield rows;
     }
-    
-    throw new Error(`Failed to query GSC data: ${error.message}`);
+
+    // A short page means there is nothing left to fetch
+    if (rows.length < rowLimit) break;
   }
 }
 
 /**
- * Fetches search analytics data with caching logic
+ * Queries the Google Search Console API for search analytics data,
+ * collecting every page up to `maxRows`
+ */
+export async function querySearchAnalytics(
+  userId: string,
+  siteUrl: string,
+  startDate: string,
+  endDate: string,
+  dimensions: string[] = ['query'],
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  options: SearchAnalyticsFetchOptions = {}
+): Promise<SearchAnalyticsRow[]> {
+  const rows: SearchAnalyticsRow[] = [];
+
+  for await (const page of iterateSearchAnalytics(
+    userId,
+    siteUrl,
+    startDate,
+    endDate,
+    dimensions,
+    filters,
+    searchType,
+    options
+  )) {
+    rows.push(...page);
+  }
+
+  return rows;
+}
+
+// Days before today searched for the newest day with data
+const FRESHNESS_PROBE_DAYS = 10;
+// Final data moves forward about once a day, so an hour-old answer is good enough
+const FRESHNESS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export interface DataFreshness {
+  // Newest day whose data Search Console considers final
+  latestCompleteDate: string;
+  // Newest day with any data, including days still being processed
+  latestDate: string | null;
+  // 'estimate' when the property had no recent data and the usual lag was assumed
+  source: 'probe' | 'estimate';
+}
+
+const freshnessCache = new Map<string, { freshness: DataFreshness; expiresAt: number }>();
+
+/**
+ * Finds the newest complete day of a property by probing the last few days
+ * with the `date` dimension: once with the default `final` data state and
+ * once with `all`, which includes the days Search Console is still
+ * processing. Cached per property and search type for an hour.
+ */
+export async function getDataFreshness(
+  userId: string,
+  siteUrl: string,
+  searchType: SearchType = 'web'
+): Promise<DataFreshness> {
+  const cacheKey = `${siteUrl}|${searchType}`;
+  const cached = freshnessCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.freshness;
+  }
+
+  // Search Console days are Pacific Time days
+  const today = getToday();
+
+  let searchconsole;
+  try {
+    searchconsole = await createSearchAnalyticsClient(userId);
+  } catch (error) {
+    console.error('Error creating Search Console client:', error);
+    throw toSearchConsoleError(error);
+  }
+
+  const probe = async (dataState: 'final' | 'all'): Promise<string | null> => {
+    try {
+      const response = await scheduleGscRequest({ userId, siteUrl }, () => searchconsole.searchanalytics.query({
+        siteUrl,
+        requestBody: {
+          startDate: addCalendarDays(today, -FRESHNESS_PROBE_DAYS),
+          endDate: today,
+          dimensions: ['date'],
+          type: searchType,
+          dataState
+        }
+      }));
+      const dates = (response.data.rows || []).map(row => row.keys?.[0]).filter((date): date is string => !!date);
+      return dates.length > 0 ? dates.sort()[dates.length - 1] : null;
+    } catch (error) {
+      console.error('Error probing Search Console data freshness:', error);
+      throw toSearchConsoleError(error);
+    }
+  };
+
+  const latestCompleteDate = await probe('final');
+  const latestDate = await probe('all');
+  const freshness: DataFreshness = latestCompleteDate
+    ? { latestCompleteDate, latestDate, source: 'probe' }
+    : { latestCompleteDate: getEstimatedLatestCompleteDate(), latestDate, source: 'estimate' };
+
+  freshnessCache.set(cacheKey, { freshness, expiresAt: Date.now() + FRESHNESS_CACHE_TTL_MS });
+  return freshness;
+}
+
+/**
+ * Fetches search analytics data with caching logic. Full rows are cached so
+ * any metric selection can be served from the same entry.
  */
 export async function fetchSearchAnalyticsData(
   userId: string,
@@ -246,72 +423,52 @@ export async function fetchSearchAnalyticsData(
   startDate: string,
   endDate: string,
   metrics: string[],
-  dimensions: string[] = ['query']
-): Promise<any> {
-  const supabase = getSupabase();
-  
-  // Create a cache key based on the request parameters
-  const cacheKey = `${siteUrl}|${startDate}|${endDate}|${dimensions.join(',')}`;
-  
-  // Check if we have cached data
-  const { data: cachedData, error: cacheError } = await supabase
-    .from('reports_data')
-    .select('data, created_at')
-    .eq('user_id', userId)
-    .eq('cache_key', cacheKey)
-    .single();
-  
-  // If we have cached data that's less than 24 hours old, use it
-  if (cachedData && !cacheError) {
-    const cacheAge = Date.now() - new Date(cachedData.created_at).getTime();
-    const cacheAgeHours = cacheAge / (1000 * 60 * 60);
-    
-    if (cacheAgeHours < 24) {
-      console.log('Using cached GSC data');
-      return cachedData.data;
-    }
-  }
-  
-  // No valid cache, fetch fresh data
-  console.log('Fetching fresh GSC data');
-  const gscData = await querySearchAnalytics(
-    userId,
+  dimensions: string[] = ['query'],
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  forceRefresh: boolean = false
+): Promise<Record<string, unknown>[]> {
+  const cacheQuery: CachedQuery = {
     siteUrl,
     startDate,
     endDate,
-    dimensions
-  );
+    dimensions,
+    filters,
+    searchType,
+    maxRows: DEFAULT_MAX_ROWS
+  };
+  
+  let rows = forceRefresh ? null : await getCachedRows<SearchAnalyticsRow>(userId, cacheQuery);
+  
+  if (rows) {
+    console.log('Using cached GSC data');
+  } else {
+    console.log('Fetching fresh GSC data');
+    rows = await querySearchAnalytics(
+      userId,
+      siteUrl,
+      startDate,
+      endDate,
+      dimensions,
+      filters,
+      searchType
+    );
+    await setCachedRows(userId, cacheQuery, rows);
+  }
   
   // Filter to include only requested metrics in the response
-  const filteredData = gscData.map((row: any) => {
-    const filteredRow: any = {
+  return rows.map((row) => {
+    const filteredRow: Record<string, unknown> = {
       keys: row.keys
     };
     
-    // Include only requested metrics
     metrics.forEach((metric) => {
-      if (row[metric] !== undefined) {
-        filteredRow[metric] = row[metric];
+      const value = row[metric as keyof SearchAnalyticsRow];
+      if (value !== undefined) {
+        filteredRow[metric] = value;
       }
     });
     
     return filteredRow;
   });
-  
-  // Cache the data
-  const { error: insertError } = await supabase
-    .from('reports_data')
-    .upsert({
-      user_id: userId,
-      cache_key: cacheKey,
-      data: filteredData,
-      created_at: new Date().toISOString()
-    });
-  
-  if (insertError) {
-    console.error('Failed to cache GSC data:', insertError);
-    // Continue anyway, as this is not critical
-  }
-  
-  return filteredData;
-} 
\ No newline at end of file
+}
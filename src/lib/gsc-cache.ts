@@ -0,0 +1,133 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { supabaseAdmin } from './supabase';
+import { serializeFilters } from './filters';
+import { FINAL_DATA_LAG_DAYS, getToday } from './date-ranges';
+import { DimensionFilter, SearchType } from './types';
+
+// Cached GSC responses live in reports_data next to saved reports (report_* keys)
+const CACHE_KEY_PREFIX = 'gsc|';
+const RECENT_DATA_TTL_MS = 60 * 60 * 1000;
+const FINAL_DATA_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CachedQuery {
+  siteUrl: string;
+  startDate: string;
+  endDate: string;
+  dimensions: string[];
+  filters: DimensionFilter[];
+  searchType: SearchType;
+  maxRows: number;
+}
+
+// Escapes LIKE wildcards so a site URL can be used as a prefix pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Builds a cache key covering every parameter that changes the API response.
+ * Metrics aren't part of it: full rows are cached and metrics are picked on read.
+ */
+export function buildCacheKey(query: CachedQuery): string {
+  return [
+    `${CACHE_KEY_PREFIX}${query.siteUrl}`,
+    query.searchType,
+    query.startDate,
+    query.endDate,
+    query.dimensions.join(','),
+    serializeFilters(query.filters),
+    query.maxRows,
+  ].join('|');
+}
+
+/**
+ * How long a response can be cached: ranges ending more than ~3 days ago
+ * won't change anymore, recent ones are refreshed hourly
+ */
+export function getCacheTtlMs(endDate: string): number {
+  const daysSinceEnd = differenceInCalendarDays(parseISO(getToday()), parseISO(endDate));
+  return daysSinceEnd > FINAL_DATA_LAG_DAYS ? FINAL_DATA_TTL_MS : RECENT_DATA_TTL_MS;
+}
+
+/**
+ * Returns cached rows for a query, or null on a miss or expired entry
+ */
+export async function getCachedRows<T>(userId: string, query: CachedQuery): Promise<T[] | null> {
+  const { data, error } = await supabaseAdmin
+    .from('reports_data')
+    .select('data')
+    .eq('user_id', userId)
+    .eq('cache_key', buildCacheKey(query))
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getCachedRows] Failed to read GSC cache:', error);
+    return null;
+  }
+
+  return data ? (data.data as T[]) : null;
+}
+
+/**
+ * Stores the full rows of a query with a TTL based on how final its data is
+ */
+export async function setCachedRows<T>(userId: string, query: CachedQuery, rows: T[]): Promise<void> {
+  const now = Date.now();
+  const { error } = await supabaseAdmin
+    .from('reports_data')
+    .upsert({
+      user_id: userId,
+      cache_key: buildCacheKey(query),
+      data: rows,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + getCacheTtlMs(query.endDate)).toISOString()
+    }, {
+      onConflict: 'user_id,cache_key'
+    });
+
+  if (error) {
+    // Not critical, the rows were fetched fine
+    console.error('[setCachedRows] Failed to cache GSC data:', error);
+  }
+}
+
+/**
+ * Deletes a user's cached GSC responses, optionally only for one property.
+ * Saved reports are left alone. Returns the number of entries removed.
+ */
+export async function purgeUserCache(userId: string, siteUrl?: string): Promise<number> {
+  const pattern = siteUrl
+    ? `${escapeLike(`${CACHE_KEY_PREFIX}${siteUrl}|`)}%`
+    : `${escapeLike(CACHE_KEY_PREFIX)}%`;
+
+  const { data, error } = await supabaseAdmin
+    .from('reports_data')
+    .delete()
+    .eq('user_id', userId)
+    .like('cache_key', pattern)
+    .select('id');
+
+  if (error) {
+    console.error(`[purgeUserCache] Failed to purge cache for user ${userId}:`, error);
+    throw new Error('Failed to purge cache');
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * Deletes every expired cache entry. Returns the number of entries removed.
+ */
+export async function deleteExpiredCacheEntries(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('reports_data')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    console.error('[deleteExpiredCacheEntries] Failed to delete expired entries:', error);
+    throw new Error('Failed to delete expired cache entries');
+  }
+
+  return data?.length ?? 0;
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { PropertyAccessError } from './properties';
+import { QuotaExceededError } from './quota';
+
+/**
+ * Turns an error thrown while serving a Search Console request into a
+ * response: property access errors keep their status, rate-limited requests
+ * get 429 with `status: 'queued'` and a Retry-After header so the client can
+ * try again, and anything else is a 500 with `message`.
+ */
+export function gscErrorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof PropertyAccessError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof QuotaExceededError) {
+    return NextResponse.json(
+      { error: error.message, status: 'queued', retryAfter: error.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+    );
+  }
+
+  return NextResponse.json(
+    { error: message, details: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Reads a newline-delimited JSON response body, calling `onMessage` for
+ * every complete line as it arrives
+ */
+export async function readNdjson<T>(response: Response, onMessage: (message: T) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to read');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Keep the trailing partial line for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onMessage(JSON.parse(line) as T));
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) {
+    onMessage(JSON.parse(buffer) as T);
+  }
+}
@@ -0,0 +1,31 @@
+import { PermissionLevel } from './types';
+
+export const PERMISSION_LABELS: Record<PermissionLevel, string> = {
+  siteOwner: 'Owner',
+  siteFullUser: 'Full user',
+  siteRestrictedUser: 'Restricted user',
+  siteUnverifiedUser: 'Unverified',
+};
+
+// Higher rank means more access
+const PERMISSION_RANK: Record<PermissionLevel, number> = {
+  siteUnverifiedUser: 0,
+  siteRestrictedUser: 1,
+  siteFullUser: 2,
+  siteOwner: 3,
+};
+
+/**
+ * Checks whether a permission level grants at least the required access
+ */
+export function hasPermission(level: PermissionLevel | null | undefined, required: PermissionLevel): boolean {
+  if (!level || !(level in PERMISSION_RANK)) return false;
+  return PERMISSION_RANK[level] >= PERMISSION_RANK[required];
+}
+
+/**
+ * Returns a readable label for a permission level
+ */
+export function getPermissionLabel(level: string): string {
+  return PERMISSION_LABELS[level as PermissionLevel] ?? level;
+}
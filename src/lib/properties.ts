@@ -0,0 +1,128 @@
+import { listSites } from './google';
+import { getPermissionLabel, hasPermission } from './permissions';
+import { PermissionLevel } from './types';
+
+// How long a user's sites list is reused before asking GSC again
+const SITES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface Property {
+  // The property exactly as Search Console lists it
+  siteUrl: string;
+  permissionLevel: PermissionLevel;
+}
+
+/**
+ * Thrown when a user can't use a property; `status` is the HTTP status to return
+ */
+export class PropertyAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 403) {
+    super(message);
+    this.name = 'PropertyAccessError';
+    this.status = status;
+  }
+}
+
+const sitesCache = new Map<string, { properties: Property[]; expiresAt: number }>();
+
+/**
+ * Normalizes a property identifier to the form Search Console uses:
+ * - domain properties become `sc-domain:example.com` (a bare domain is treated as one)
+ * - URL-prefix properties get a lowercase scheme and host and a trailing slash
+ */
+export function canonicalizeSiteUrl(siteUrl: string): string {
+  const url = siteUrl.trim();
+
+  if (/^sc-domain:/i.test(url)) {
+    return `sc-domain:${url.slice('sc-domain:'.length).trim().replace(/\/+$/, '').toLowerCase()}`;
+  }
+
+  if (/^https?:\/\//i.test(url)) {
+    try {
+      const parsed = new URL(url);
+      const path = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`;
+      return `${parsed.protocol}//${parsed.host}${path}`;
+    } catch {
+      return url;
+    }
+  }
+
+  return `sc-domain:${url.replace(/\/+$/, '').toLowerCase()}`;
+}
+
+/**
+ * Gets the user's Search Console properties, cached for a few minutes
+ */
+export async function getUserProperties(userId: string, refresh: boolean = false): Promise<Property[]> {
+  const cached = sitesCache.get(userId);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.properties;
+  }
+
+  const sites = await listSites(userId);
+  const properties = sites
+    .filter(site => site.siteUrl && site.permissionLevel)
+    .map(site => ({
+      siteUrl: site.siteUrl as string,
+      permissionLevel: site.permissionLevel as PermissionLevel,
+    }));
+
+  sitesCache.set(userId, { properties, expiresAt: Date.now() + SITES_CACHE_TTL_MS });
+  return properties;
+}
+
+/**
+ * Resolves a requested site URL to one of the user's verified properties.
+ * Throws a PropertyAccessError (403) if the user can't access it or lacks
+ * the required permission level.
+ */
+export async function resolveProperty(
+  userId: string,
+  siteUrl: string,
+  requiredPermission: PermissionLevel = 'siteRestrictedUser'
+): Promise<Property> {
+  const canonicalUrl = canonicalizeSiteUrl(siteUrl);
+  const findProperty = (properties: Property[]) =>
+    properties.find(property => canonicalizeSiteUrl(property.siteUrl) === canonicalUrl);
+
+  // The property may have been added since the list was cached
+  const property = findProperty(await getUserProperties(userId))
+    ?? findProperty(await getUserProperties(userId, true));
+
+  if (!property) {
+    throw new PropertyAccessError(`You don't have access to ${canonicalUrl} in Search Console`);
+  }
+
+  if (property.permissionLevel === 'siteUnverifiedUser') {
+    throw new PropertyAccessError(`${property.siteUrl} isn't verified for your account in Search Console`);
+  }
+
+  if (!hasPermission(property.permissionLevel, requiredPermission)) {
+    throw new PropertyAccessError(
+      `This requires ${getPermissionLabel(requiredPermission)} access to ${property.siteUrl} (your access: ${getPermissionLabel(property.permissionLevel)})`
+    );
+  }
+
+  return property;
+}
+
+/**
+ * Checks whether a URL belongs to a property: under the host for domain
+ * properties, under the prefix for URL-prefix properties
+ */
+export function isUrlInProperty(url: string, siteUrl: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (siteUrl.startsWith('sc-domain:')) {
+    const domain = siteUrl.slice('sc-domain:'.length);
+    return parsed.hostname === domain || parsed.hostname.endsWith(`.${domain}`);
+  }
+
+  return url.startsWith(siteUrl);
+}
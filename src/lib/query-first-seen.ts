@@ -0,0 +1,75 @@
+import { supabaseAdmin } from './supabase';
+import { SearchType } from './types';
+
+const UPSERT_BATCH_SIZE = 1000;
+const READ_PAGE_SIZE = 1000;
+
+/**
+ * Records `date` as the first-seen date of any query not seen before.
+ * Queries that already have a date keep it, so callers must record days
+ * oldest first (the warehouse sync does).
+ */
+export async function recordFirstSeen(
+  userId: string,
+  siteUrl: string,
+  searchType: SearchType,
+  date: string,
+  queries: string[]
+): Promise<void> {
+  const unique = [...new Set(queries.filter(Boolean))];
+
+  for (let i = 0; i < unique.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('query_first_seen')
+      .upsert(unique.slice(i, i + UPSERT_BATCH_SIZE).map(query => ({
+        user_id: userId,
+        site_url: siteUrl,
+        search_type: searchType,
+        query,
+        first_seen: date,
+      })), {
+        onConflict: 'user_id,site_url,search_type,query',
+        ignoreDuplicates: true
+      });
+
+    if (error) throw new Error(`Failed to record first-seen dates: ${error.message}`);
+  }
+}
+
+/**
+ * Gets the queries first seen on or after `since`, with their first-seen dates
+ */
+export async function getQueriesFirstSeenSince(
+  userId: string,
+  siteUrl: string,
+  searchType: SearchType,
+  since: string
+): Promise<Record<string, string>> {
+  const firstSeen: Record<string, string> = {};
+
+  // PostgREST caps responses, so read in pages
+  for (let from = 0; ; from += READ_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('query_first_seen')
+      .select('query, first_seen')
+      .eq('user_id', userId)
+      .eq('site_url', siteUrl)
+      .eq('search_type', searchType)
+      .gte('first_seen', since)
+      .order('first_seen', { ascending: true })
+      .range(from, from + READ_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`[getQueriesFirstSeenSince] Failed to load first-seen dates for ${siteUrl}:`, error);
+      throw new Error('Failed to load first-seen dates');
+    }
+
+    (data || []).forEach(row => {
+      firstSeen[row.query] = row.first_seen;
+    });
+
+    if (!data || data.length < READ_PAGE_SIZE) break;
+  }
+
+  return firstSeen;
+}
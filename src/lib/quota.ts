@@ -0,0 +1,212 @@
+// Search Console allows 1,200 queries per minute per user and per property
+export const QUERIES_PER_MINUTE_PER_USER = 1200;
+export const QUERIES_PER_MINUTE_PER_PROPERTY = 1200;
+// Short bursts go straight through, sustained load is spread over the minute
+const BURST_SIZE = 20;
+// Requests that would wait longer than this are turned away with a retry-after
+const MAX_QUEUE_WAIT_MS = 15000;
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const USAGE_WINDOW_MS = 60 * 1000;
+
+// Who a Search Console request counts against
+export interface QuotaScope {
+  userId: string;
+  // Omitted for calls that aren't about one property (e.g. listing sites)
+  siteUrl?: string;
+}
+
+export interface BucketUsage {
+  limitPerMinute: number;
+  // Requests that can start right away
+  available: number;
+  // Requests currently waiting for a token
+  queued: number;
+  requestsLastMinute: number;
+  rateLimitedLastMinute: number;
+}
+
+export interface QuotaUsage {
+  user: BucketUsage;
+  property: BucketUsage | null;
+}
+
+/**
+ * Thrown when a request can't be scheduled soon enough, or Search Console
+ * keeps rate limiting it; `retryAfter` is in seconds
+ */
+export class QuotaExceededError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.retryAfter = Math.max(1, retryAfter);
+  }
+}
+
+// Shape of the errors thrown by googleapis requests
+interface GoogleApiError {
+  code?: number | string;
+  response?: { status?: number; headers?: Record<string, string | undefined> };
+}
+
+/**
+ * Token bucket that refills continuously up to `capacity`. Tokens can go
+ * negative: each queued request reserves the next free token, which keeps
+ * waiting requests in order.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private requests: number[] = [];
+  private rateLimited: number[] = [];
+  queued = 0;
+
+  constructor(readonly limitPerMinute: number, private readonly capacity: number = BURST_SIZE) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.limitPerMinute) / 60000);
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until the next token is free
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : ((1 - this.tokens) * 60000) / this.limitPerMinute;
+  }
+
+  take() {
+    this.refill();
+    this.tokens -= 1;
+    this.requests.push(Date.now());
+  }
+
+  recordRateLimited() {
+    this.rateLimited.push(Date.now());
+  }
+
+  usage(): BucketUsage {
+    this.refill();
+    const windowStart = Date.now() - USAGE_WINDOW_MS;
+    this.requests = this.requests.filter(time => time > windowStart);
+    this.rateLimited = this.rateLimited.filter(time => time > windowStart);
+
+    return {
+      limitPerMinute: this.limitPerMinute,
+      available: Math.max(0, Math.floor(this.tokens)),
+      queued: this.queued,
+      requestsLastMinute: this.requests.length,
+      rateLimitedLastMinute: this.rateLimited.length,
+    };
+  }
+}
+
+// Buckets live per server instance
+const userBuckets = new Map<string, TokenBucket>();
+const propertyBuckets = new Map<string, TokenBucket>();
+
+const getBucket = (buckets: Map<string, TokenBucket>, key: string, limitPerMinute: number) => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(limitPerMinute);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+};
+
+const getScopeBuckets = ({ userId, siteUrl }: QuotaScope): TokenBucket[] => [
+  getBucket(userBuckets, userId, QUERIES_PER_MINUTE_PER_USER),
+  ...(siteUrl ? [getBucket(propertyBuckets, siteUrl, QUERIES_PER_MINUTE_PER_PROPERTY)] : []),
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getErrorStatus = (error: unknown): number => {
+  const apiError = error as GoogleApiError | undefined;
+  return Number(apiError?.code ?? apiError?.response?.status);
+};
+
+/**
+ * Backoff for a failed attempt: exponential with jitter, so concurrent
+ * requests don't all retry at once. A Retry-After from Google wins if longer.
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  const delay = backoff / 2 + Math.random() * (backoff / 2);
+  const retryAfter = Number((error as GoogleApiError | undefined)?.response?.headers?.['retry-after']);
+  return Number.isFinite(retryAfter) ? Math.max(delay, retryAfter * 1000) : delay;
+}
+
+/**
+ * Waits for a token from every bucket, or throws a QuotaExceededError if
+ * that would take longer than MAX_QUEUE_WAIT_MS
+ */
+async function acquireTokens(buckets: TokenBucket[]): Promise<void> {
+  const wait = Math.max(...buckets.map(bucket => bucket.waitTime()));
+  if (wait > MAX_QUEUE_WAIT_MS) {
+    throw new QuotaExceededError('Too many Search Console requests are queued. Please try again shortly.', Math.ceil(wait / 1000));
+  }
+
+  buckets.forEach(bucket => bucket.take());
+  if (wait === 0) return;
+
+  buckets.forEach(bucket => bucket.queued++);
+  try {
+    await sleep(wait);
+  } finally {
+    buckets.forEach(bucket => bucket.queued--);
+  }
+}
+
+/**
+ * Runs a Search Console request once the user's and the property's rate
+ * limits allow it. 429 and 5xx responses are retried with jittered backoff;
+ * a 429 that outlasts the retries becomes a QuotaExceededError.
+ */
+export async function scheduleGscRequest<T>(
+  scope: QuotaScope,
+  request: () => Promise<T>,
+  retries: number = MAX_RETRIES
+): Promise<T> {
+  const buckets = getScopeBuckets(scope);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireTokens(buckets);
+
+    try {
+      return await request();
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status === 429) {
+        buckets.forEach(bucket => bucket.recordRateLimited());
+      }
+      if (status !== 429 && !(status >= 500 && status < 600)) throw error;
+
+      const delay = getRetryDelay(error, attempt);
+      if (attempt >= retries) {
+        if (status === 429) {
+          throw new QuotaExceededError('Search Console rate limit reached. Please try again shortly.', Math.ceil(delay / 1000));
+        }
+        throw error;
+      }
+
+      console.log(`[scheduleGscRequest] Request failed with ${status} (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Reports recent Search Console usage for a user and, optionally, a property
+ */
+export function getQuotaUsage(userId: string, siteUrl?: string): QuotaUsage {
+  const [user, property] = getScopeBuckets({ userId, siteUrl });
+  return {
+    user: user.usage(),
+    property: property?.usage() ?? null,
+  };
+}
@@ -0,0 +1,167 @@
+import { supabaseAdmin } from './supabase';
+import { validateDimensions } from './dimensions';
+import { validateDimensionFilters } from './filters';
+import { getSearchTypeOption } from './search-types';
+import { COMPARISON_METRICS } from './comparison';
+import { COMPARISON_MODES, isCalendarDate, TIME_RANGE_PRESETS } from './date-ranges';
+import { isCalculatedMetricKey } from './formulas';
+import { MetricType, ReportTemplate, ReportTemplateConfig } from './types';
+
+const COLUMNS = 'id, name, site_url, config, is_default, updated_at';
+const MAX_NAME_LENGTH = 100;
+
+export type ReportTemplateInput = Omit<ReportTemplate, 'id' | 'updatedAt'> & { id?: string };
+
+interface ReportTemplateRow {
+  id: string;
+  name: string;
+  site_url: string | null;
+  config: ReportTemplateConfig;
+  is_default: boolean;
+  updated_at: string;
+}
+
+const toReportTemplate = (row: ReportTemplateRow): ReportTemplate => ({
+  id: row.id,
+  name: row.name,
+  siteUrl: row.site_url,
+  config: row.config,
+  isDefault: row.is_default,
+  updatedAt: row.updated_at,
+});
+
+// Custom ranges need both dates, in order
+const isDateRange = (range: { startDate?: string; endDate?: string }) =>
+  isCalendarDate(range.startDate) && isCalendarDate(range.endDate) && range.startDate <= range.endDate;
+
+/**
+ * Checks a report template before it's saved, returning an error message or
+ * null when it's valid
+ */
+export function validateReportTemplate(template: Partial<ReportTemplateInput>): string | null {
+  if (typeof template.name !== 'string' || !template.name.trim()) return 'Name is required';
+  if (template.name.length > MAX_NAME_LENGTH) return `Names can be at most ${MAX_NAME_LENGTH} characters`;
+
+  const config = template.config;
+  if (!config || typeof config !== 'object') return 'Template config is required';
+
+  if (!Array.isArray(config.metrics)) return 'Metrics must be an array';
+  const invalidMetrics = config.metrics.filter(metric =>
+    !COMPARISON_METRICS.includes(metric as MetricType) && !(typeof metric === 'string' && isCalculatedMetricKey(metric))
+  );
+  if (invalidMetrics.length > 0) return `Invalid metrics: ${invalidMetrics.join(', ')}`;
+
+  const dimensionsError = validateDimensions(config.dimensions);
+  if (dimensionsError) return dimensionsError;
+
+  const filtersError = validateDimensionFilters(config.filters);
+  if (filtersError) return filtersError;
+
+  if (!getSearchTypeOption(config.searchType)) return `Invalid search type: ${config.searchType}`;
+
+  const timeRange = config.timeRange;
+  if (timeRange?.type === 'custom') {
+    if (!isDateRange(timeRange)) return 'Custom time ranges need a start and end date (YYYY-MM-DD)';
+  } else if (!TIME_RANGE_PRESETS.some(preset => preset.type === timeRange?.type)) {
+    return `Invalid time range: ${timeRange?.type}`;
+  }
+
+  const comparison = config.comparison;
+  if (!COMPARISON_MODES.some(mode => mode.value === comparison?.mode)) {
+    return `Invalid comparison mode: ${comparison?.mode}`;
+  }
+  if (comparison.mode === 'custom' && !isDateRange(comparison)) {
+    return 'Custom comparison ranges need a start and end date (YYYY-MM-DD)';
+  }
+
+  return null;
+}
+
+/**
+ * Lists a user's report templates for a site: the site's own templates and
+ * the ones for every site, by name
+ */
+export async function listReportTemplates(userId: string, siteUrl: string | null): Promise<ReportTemplate[]> {
+  let query = supabaseAdmin
+    .from('report_templates')
+    .select(COLUMNS)
+    .eq('user_id', userId);
+  query = siteUrl
+    ? query.or(`site_url.is.null,site_url.eq."${siteUrl}"`)
+    : query.is('site_url', null);
+
+  const { data, error } = await query.order('name', { ascending: true });
+
+  if (error) {
+    console.error('[listReportTemplates] Failed to list report templates:', error);
+    throw new Error('Failed to list report templates');
+  }
+
+  return ((data || []) as ReportTemplateRow[]).map(toReportTemplate);
+}
+
+/**
+ * Saves a new report template, or updates the user's template with `id`.
+ * Making a template the default unsets the previous default of the same
+ * site (or of all sites). Returns null when there is no such template to
+ * update.
+ */
+export async function saveReportTemplate(userId: string, template: ReportTemplateInput): Promise<ReportTemplate | null> {
+  if (template.isDefault) {
+    let clearDefault = supabaseAdmin
+      .from('report_templates')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+    clearDefault = template.siteUrl ? clearDefault.eq('site_url', template.siteUrl) : clearDefault.is('site_url', null);
+    if (template.id) clearDefault = clearDefault.neq('id', template.id);
+
+    const { error } = await clearDefault;
+    if (error) {
+      console.error('[saveReportTemplate] Failed to unset the previous default template:', error);
+      throw new Error('Failed to save report template');
+    }
+  }
+
+  const values = {
+    name: template.name.trim(),
+    site_url: template.siteUrl,
+    config: template.config,
+    is_default: template.isDefault,
+  };
+
+  const query = template.id
+    ? supabaseAdmin
+        .from('report_templates')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('id', template.id)
+    : supabaseAdmin
+        .from('report_templates')
+        .insert({ ...values, user_id: userId });
+
+  const { data, error } = await query.select(COLUMNS).maybeSingle();
+
+  if (error) {
+    console.error('[saveReportTemplate] Failed to save report template:', error);
+    throw new Error('Failed to save report template');
+  }
+
+  return data ? toReportTemplate(data as ReportTemplateRow) : null;
+}
+
+/**
+ * Deletes one of the user's report templates
+ */
+export async function deleteReportTemplate(userId: string, id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('report_templates')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', id);
+
+  if (error) {
+    console.error('[deleteReportTemplate] Failed to delete report template:', error);
+    throw new Error('Failed to delete report template');
+  }
+}
@@ -0,0 +1,71 @@
+import { supabaseAdmin } from './supabase';
+
+// The parts of a generated report its cache key is built from
+interface SavedReportData {
+  request: {
+    siteUrl: string;
+    timeRange: { startDate: string; endDate: string };
+  };
+}
+
+/**
+ * The reports_data key a report is saved under. Reports are looked up by the
+ * `report_<id>_` prefix, so the rest is only there to describe them.
+ */
+export const getReportCacheKey = (reportId: string, reportData: SavedReportData): string =>
+  `report_${reportId}_${reportData.request.siteUrl}_${reportData.request.timeRange.startDate}_${reportData.request.timeRange.endDate}`;
+
+/**
+ * Saves a report for a user, replacing the one saved under the same id
+ * (reports are saved again when analyses are added to them)
+ */
+export async function saveReport(userId: string, reportId: string, reportData: SavedReportData): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('reports_data')
+    .upsert({
+      user_id: userId,
+      cache_key: getReportCacheKey(reportId, reportData),
+      data: reportData,
+      created_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id,cache_key'
+    });
+
+  if (error) {
+    console.error('[saveReport] Failed to save report:', error);
+    throw new Error('Failed to save report data');
+  }
+}
+
+/**
+ * Merges analyses (e.g. opportunities or clusters) into a saved report, so
+ * they can be added without sending the whole report back. Returns false
+ * when the user has no report with that id.
+ */
+export async function updateReport(userId: string, reportId: string, changes: Record<string, unknown>): Promise<boolean> {
+  const { data: saved, error: loadError } = await supabaseAdmin
+    .from('reports_data')
+    .select('id, data')
+    .eq('user_id', userId)
+    .like('cache_key', `report\\_${reportId}\\_%`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (loadError) {
+    console.error('[updateReport] Failed to load report:', loadError);
+    throw new Error('Failed to save report data');
+  }
+  if (!saved) return false;
+
+  const { error } = await supabaseAdmin
+    .from('reports_data')
+    .update({ data: { ...saved.data, ...changes } })
+    .eq('id', saved.id);
+
+  if (error) {
+    console.error('[updateReport] Failed to save report:', error);
+    throw new Error('Failed to save report data');
+  }
+  return true;
+}
@@ -0,0 +1,98 @@
+import { DimensionType, MetricType, SearchType } from './types';
+
+export interface SearchTypeOption {
+  value: SearchType;
+  label: string;
+  description: string;
+  // Dimensions the API rejects (or silently drops) for this search type
+  unsupportedDimensions: DimensionType[];
+  // Metrics the API does not report for this search type
+  unsupportedMetrics: MetricType[];
+}
+
+export const SEARCH_TYPES: SearchTypeOption[] = [
+  {
+    value: 'web',
+    label: 'Web',
+    description: 'The default "All" tab in Google Search',
+    unsupportedDimensions: [],
+    unsupportedMetrics: [],
+  },
+  {
+    value: 'image',
+    label: 'Image',
+    description: 'The "Images" tab in Google Search',
+    unsupportedDimensions: [],
+    unsupportedMetrics: [],
+  },
+  {
+    value: 'video',
+    label: 'Video',
+    description: 'The "Videos" tab in Google Search',
+    unsupportedDimensions: [],
+    unsupportedMetrics: [],
+  },
+  {
+    value: 'news',
+    label: 'News',
+    description: 'The "News" tab in Google Search',
+    unsupportedDimensions: [],
+    unsupportedMetrics: [],
+  },
+  {
+    value: 'discover',
+    label: 'Discover',
+    description: 'Google Discover feed results',
+    unsupportedDimensions: ['query'],
+    unsupportedMetrics: ['position'],
+  },
+  {
+    value: 'googleNews',
+    label: 'Google News',
+    description: 'news.google.com and the Google News app',
+    unsupportedDimensions: ['query'],
+    unsupportedMetrics: ['position'],
+  },
+];
+
+export const DEFAULT_SEARCH_TYPE: SearchType = 'web';
+
+/**
+ * Returns the option for a search type, or undefined when the value is unknown
+ */
+export function getSearchTypeOption(searchType: string): SearchTypeOption | undefined {
+  return SEARCH_TYPES.find(option => option.value === searchType);
+}
+
+/**
+ * Lists the dimensions, metrics and filters that the given search type does
+ * not support. An empty list means the combination is valid.
+ */
+export function getSearchTypeConflicts(
+  searchType: SearchType,
+  dimensions: string[],
+  metrics: string[],
+  filterDimensions: string[] = []
+): string[] {
+  const option = getSearchTypeOption(searchType);
+  if (!option) return [`Unknown search type: ${searchType}`];
+
+  const conflicts: string[] = [];
+
+  option.unsupportedDimensions.forEach(dimension => {
+    if (dimensions.includes(dimension)) {
+      conflicts.push(`${option.label} does not support the "${dimension}" dimension`);
+    }
+    if (filterDimensions.includes(dimension)) {
+      conflicts.push(`${option.label} does not support filtering by "${dimension}"`);
+    }
+  });
+
+  option.unsupportedMetrics.forEach(metric => {
+    if (metrics.includes(metric)) {
+      conflicts.push(`${option.label} does not report the "${metric}" metric`);
+    }
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,38 @@
+// A column of an export: the header text and the row field it reads
+export interface ExportColumn {
+  header: string;
+  key: string;
+}
+
+/**
+ * Exports rows to a new Google Sheet through /api/sheets/export and
+ * returns the spreadsheet URL
+ */
+export async function exportRowsToSheet(
+  reportTitle: string,
+  columns: ExportColumn[],
+  rows: object[]
+): Promise<string> {
+  const response = await fetch('/api/sheets/export', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      reportTitle,
+      headers: columns.map(column => column.header),
+      keys: columns.map(column => column.key),
+      rows,
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Failed with status ${response.status}`);
+  }
+  if (!result.success || !result.spreadsheetUrl) {
+    throw new Error('Export succeeded but no spreadsheet URL was returned.');
+  }
+
+  return result.spreadsheetUrl;
+}
@@ -0,0 +1,76 @@
+import { webmasters_v3 } from 'googleapis';
+import { createSearchConsoleClient } from './google';
+import { scheduleGscRequest } from './quota';
+
+export interface SitemapContentSummary {
+  type: string;
+  submitted: number;
+  indexed: number;
+}
+
+export interface SitemapSummary {
+  path: string;
+  type: string | null;
+  isPending: boolean;
+  isSitemapsIndex: boolean;
+  lastSubmitted: string | null;
+  lastDownloaded: string | null;
+  warnings: number;
+  errors: number;
+  submitted: number;
+  indexed: number;
+  contents: SitemapContentSummary[];
+}
+
+// The API returns counts as strings (int64)
+const toCount = (value?: string | null) => Number(value ?? 0) || 0;
+
+/**
+ * Flattens a sitemap from the webmasters API, summing counts over its content types
+ */
+export function summarizeSitemap(sitemap: webmasters_v3.Schema$WmxSitemap): SitemapSummary {
+  const contents = (sitemap.contents || []).map(content => ({
+    type: content.type || 'unknown',
+    submitted: toCount(content.submitted),
+    indexed: toCount(content.indexed),
+  }));
+
+  return {
+    path: sitemap.path || '',
+    type: sitemap.type ?? null,
+    isPending: !!sitemap.isPending,
+    isSitemapsIndex: !!sitemap.isSitemapsIndex,
+    lastSubmitted: sitemap.lastSubmitted ?? null,
+    lastDownloaded: sitemap.lastDownloaded ?? null,
+    warnings: toCount(sitemap.warnings),
+    errors: toCount(sitemap.errors),
+    submitted: contents.reduce((total, content) => total + content.submitted, 0),
+    indexed: contents.reduce((total, content) => total + content.indexed, 0),
+    contents,
+  };
+}
+
+/**
+ * Lists the sitemaps submitted for a property
+ */
+export async function listSitemaps(userId: string, siteUrl: string): Promise<SitemapSummary[]> {
+  const searchConsole = await createSearchConsoleClient(userId);
+  const response = await scheduleGscRequest({ userId, siteUrl }, () => searchConsole.sitemaps.list({ siteUrl }));
+  return (response.data.sitemap || []).map(summarizeSitemap);
+}
+
+/**
+ * Submits a sitemap to a property (needs the Search Console write scope)
+ */
+export async function submitSitemap(userId: string, siteUrl: string, feedpath: string): Promise<void> {
+  const searchConsole = await createSearchConsoleClient(userId);
+  await scheduleGscRequest({ userId, siteUrl }, () => searchConsole.sitemaps.submit({ siteUrl, feedpath }));
+}
+
+/**
+ * Removes a sitemap from a property (needs the Search Console write scope)
+ */
+export async function deleteSitemap(userId: string, siteUrl: string, feedpath: string): Promise<void> {
+  const searchConsole = await createSearchConsoleClient(userId);
+  await scheduleGscRequest({ userId, siteUrl }, () => searchConsole.sitemaps.delete({ siteUrl, feedpath }));
+}
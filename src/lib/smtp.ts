@@ -0,0 +1,55 @@
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * Whether outgoing mail is set up (SMTP_HOST and SMTP_FROM)
+ */
+export function isSmtpConfigured(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.SMTP_FROM;
+}
+
+/**
+ * Sends a plain-text email through the SMTP server in SMTP_HOST/SMTP_PORT.
+ * SMTP_SECURE=true connects over TLS (port 465 by default); otherwise the
+ * connection is upgraded with STARTTLS. When SMTP_USER and SMTP_PASS are set
+ * the upgrade is required, so credentials are never sent in cleartext.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) {
+    throw new Error('SMTP is not configured');
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const user = process.env.SMTP_USER;
+
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    requireTLS: !secure && !!user,
+    auth: user ? { user, pass: process.env.SMTP_PASS ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  try {
+    await transport.sendMail({
+      from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,68 @@
+import { format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export const TREND_GRANULARITIES: { value: TrendGranularity; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+export interface TrendPoint {
+  // First day of the bucket, YYYY-MM-DD
+  date: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+interface DateRow {
+  keys?: string[];
+  clicks?: number;
+  impressions?: number;
+  position?: number;
+}
+
+// Returns the first day of the bucket a date falls into
+const getBucketStart = (date: string, granularity: TrendGranularity): string => {
+  if (granularity === 'day') return date;
+  const parsed = parseISO(date);
+  const start = granularity === 'week'
+    ? startOfWeek(parsed, { weekStartsOn: 1 })
+    : startOfMonth(parsed);
+  return format(start, 'yyyy-MM-dd');
+};
+
+/**
+ * Rolls rows returned for the `date` dimension up into daily, weekly or
+ * monthly points. CTR is recomputed from the summed clicks and impressions,
+ * and position is averaged weighted by impressions, matching how Search
+ * Console aggregates these metrics.
+ */
+export function rollupTrend(rows: DateRow[], granularity: TrendGranularity = 'day'): TrendPoint[] {
+  const buckets = new Map<string, { clicks: number; impressions: number; weightedPosition: number }>();
+
+  rows.forEach(row => {
+    const date = row.keys?.[0];
+    if (!date) return;
+
+    const key = getBucketStart(date, granularity);
+    const bucket = buckets.get(key) ?? { clicks: 0, impressions: 0, weightedPosition: 0 };
+    const impressions = row.impressions ?? 0;
+    bucket.clicks += row.clicks ?? 0;
+    bucket.impressions += impressions;
+    bucket.weightedPosition += (row.position ?? 0) * impressions;
+    buckets.set(key, bucket);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, bucket]) => ({
+      date,
+      clicks: bucket.clicks,
+      impressions: bucket.impressions,
+      ctr: bucket.impressions > 0 ? bucket.clicks / bucket.impressions : 0,
+      position: bucket.impressions > 0 ? bucket.weightedPosition / bucket.impressions : 0,
+    }));
+}
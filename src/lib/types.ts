@@ -2,34 +2,126 @@
 export type MetricType = 'clicks' | 'impressions' | 'ctr' | 'position';
 
 export interface Metric {
+  // The metric type for built-in metrics, calc_<id> for calculated ones
   id: string;
-  type: MetricType;
+  type: MetricType | 'calculated';
   name: string;
   description: string;
   icon?: string;
+  // Set for user-defined metrics computed from a formula
+  formula?: string;
 }
 
+// Dimension types supported by the Search Analytics API
+export type DimensionType = 'query' | 'page' | 'country' | 'device' | 'searchAppearance' | 'date';
+
+export interface Dimension {
+  id: string;
+  type: DimensionType;
+  name: string;
+  description: string;
+}
+
+// Dimensions that can be used in a dimension filter
+export type FilterDimension = Exclude<DimensionType, 'date'>;
+
+// Filter operators supported by the Search Analytics API
+export type FilterOperator = 'equals' | 'contains' | 'notContains' | 'includingRegex' | 'excludingRegex';
+
+export interface DimensionFilter {
+  id: string;
+  dimension: FilterDimension;
+  operator: FilterOperator;
+  expression: string;
+}
+
+// Search types supported by the Search Analytics API
+export type SearchType = 'web' | 'image' | 'video' | 'news' | 'discover' | 'googleNews';
+
+// Search Console permission levels, from most to least access
+export type PermissionLevel = 'siteOwner' | 'siteFullUser' | 'siteRestrictedUser' | 'siteUnverifiedUser';
+
+// A day on the calendar as YYYY-MM-DD, with no time or timezone attached.
+// Search Console days are Pacific Time days.
+export type CalendarDate = string;
+
 // Time range types
-export type TimeRangeType = 'last7days' | 'last28days' | 'last3months' | 'custom';
+export type TimeRangeType =
+  | 'last7days'
+  | 'last28days'
+  | 'last3months'
+  | 'last12months'
+  | 'last16months'
+  | 'monthToDate'
+  | 'previousMonth'
+  | 'previousQuarter'
+  | 'yearToDate'
+  | 'samePeriodLastYear'
+  | 'custom';
 
 export interface TimeRange {
   type: TimeRangeType;
   name: string;
-  startDate: Date;
-  endDate: Date;
+  startDate: CalendarDate;
+  endDate: CalendarDate;
   isCustom: boolean;
 }
 
+// Comparison modes for period-over-period reports
+export type ComparisonMode = 'none' | 'previousPeriod' | 'previousYear' | 'custom';
+
+export interface Comparison {
+  mode: ComparisonMode;
+  // Only set when a comparison is active
+  startDate?: CalendarDate;
+  endDate?: CalendarDate;
+}
+
 // Report configuration
 export interface ReportConfig {
   selectedMetrics: Metric[];
+  selectedDimensions: Dimension[];
   timeRange: TimeRange;
   siteUrl: string | null;
+  filters: DimensionFilter[];
+  searchType: SearchType;
+  comparison: Comparison;
 }
 
-// Draggable item type for dnd-kit
-export interface DraggableItem {
+// Builder options kept in a report template. Preset time ranges are stored by
+// type and resolved to dates when the report runs; custom ranges keep their
+// dates (YYYY-MM-DD).
+export interface ReportTemplateConfig {
+  // Built-in metric types and calculated metric keys (calc_<id>), in column order
+  metrics: string[];
+  dimensions: DimensionType[];
+  timeRange: {
+    type: TimeRangeType;
+    startDate?: CalendarDate;
+    endDate?: CalendarDate;
+  };
+  filters: DimensionFilter[];
+  searchType: SearchType;
+  comparison: {
+    mode: ComparisonMode;
+    // Only set for the 'custom' mode
+    startDate?: CalendarDate;
+    endDate?: CalendarDate;
+  };
+}
+
+export interface ReportTemplate {
   id: string;
-  type: 'metric';
-  data: Metric;
-} 
\ No newline at end of file
+  name: string;
+  // Null for templates that apply to every site
+  siteUrl: string | null;
+  config: ReportTemplateConfig;
+  // Loaded when the builder opens; at most one per site, plus one for all sites
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+// Draggable item type for dnd-kit
+export type DraggableItem =
+  | { id: string; type: 'metric'; data: Metric }
+  | { id: string; type: 'dimension'; data: Dimension };
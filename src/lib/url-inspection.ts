@@ -0,0 +1,216 @@
+import { searchconsole_v1 } from 'googleapis';
+import { supabaseAdmin } from './supabase';
+import { createUrlInspectionClient } from './google';
+import { scheduleGscRequest } from './quota';
+import { getToday } from './date-ranges';
+
+// GSC allows 2,000 inspections per property per day
+export const DAILY_INSPECTION_QUOTA = 2000;
+// Largest batch the inspect endpoint accepts at once
+export const MAX_INSPECTION_BATCH = 50;
+// Cached results are reused for a day
+const INSPECTION_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface UrlInspectionSummary {
+  verdict: string | null;
+  coverageState: string | null;
+  indexingState: string | null;
+  robotsTxtState: string | null;
+  pageFetchState: string | null;
+  googleCanonical: string | null;
+  userCanonical: string | null;
+  lastCrawlTime: string | null;
+  crawledAs: string | null;
+  mobileUsabilityVerdict: string | null;
+  mobileUsabilityIssues: string[];
+  richResultsVerdict: string | null;
+  richResultTypes: string[];
+  inspectionResultLink: string | null;
+}
+
+export interface UrlInspectionResult {
+  url: string;
+  summary: UrlInspectionSummary | null;
+  inspectedAt: string | null;
+  cached: boolean;
+  error?: string;
+}
+
+export interface InspectionQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+/**
+ * Today's date in Pacific Time, which is when the GSC quota resets
+ */
+function getQuotaDate(): string {
+  return getToday();
+}
+
+/**
+ * Flattens an inspection result into the fields shown in reports
+ */
+export function summarizeInspection(result: searchconsole_v1.Schema$UrlInspectionResult): UrlInspectionSummary {
+  const index = result.indexStatusResult;
+
+  return {
+    verdict: index?.verdict ?? null,
+    coverageState: index?.coverageState ?? null,
+    indexingState: index?.indexingState ?? null,
+    robotsTxtState: index?.robotsTxtState ?? null,
+    pageFetchState: index?.pageFetchState ?? null,
+    googleCanonical: index?.googleCanonical ?? null,
+    userCanonical: index?.userCanonical ?? null,
+    lastCrawlTime: index?.lastCrawlTime ?? null,
+    crawledAs: index?.crawledAs ?? null,
+    mobileUsabilityVerdict: result.mobileUsabilityResult?.verdict ?? null,
+    mobileUsabilityIssues: (result.mobileUsabilityResult?.issues || [])
+      .map(issue => issue.message || issue.issueType || '')
+      .filter(Boolean),
+    richResultsVerdict: result.richResultsResult?.verdict ?? null,
+    richResultTypes: (result.richResultsResult?.detectedItems || [])
+      .map(item => item.richResultType || '')
+      .filter(Boolean),
+    inspectionResultLink: result.inspectionResultLink ?? null,
+  };
+}
+
+/**
+ * Gets how much of a property's daily inspection quota is used
+ */
+export async function getInspectionQuota(siteUrl: string): Promise<InspectionQuota> {
+  const { data, error } = await supabaseAdmin
+    .from('url_inspection_quota')
+    .select('used')
+    .eq('site_url', siteUrl)
+    .eq('quota_date', getQuotaDate())
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[getInspectionQuota] Failed to load quota for ${siteUrl}:`, error);
+  }
+
+  const used = data?.used ?? 0;
+  return { used, limit: DAILY_INSPECTION_QUOTA, remaining: Math.max(0, DAILY_INSPECTION_QUOTA - used) };
+}
+
+/**
+ * Uses one inspection from the property's daily quota. Returns false once
+ * the quota is used up.
+ */
+async function consumeInspectionQuota(siteUrl: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('consume_url_inspection_quota', {
+    p_site_url: siteUrl,
+    p_quota_date: getQuotaDate(),
+    p_limit: DAILY_INSPECTION_QUOTA,
+  });
+
+  if (error) {
+    console.error(`[consumeInspectionQuota] Failed to update quota for ${siteUrl}:`, error);
+    throw new Error('Failed to check the URL Inspection quota');
+  }
+
+  return data !== null;
+}
+
+/**
+ * Loads cached inspections that are still fresh, keyed by URL
+ */
+async function getCachedInspections(
+  userId: string,
+  siteUrl: string,
+  urls: string[]
+): Promise<Map<string, { summary: UrlInspectionSummary; inspectedAt: string }>> {
+  const freshAfter = new Date(Date.now() - INSPECTION_CACHE_TTL_MS).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('url_inspections')
+    .select('url, result, inspected_at')
+    .eq('user_id', userId)
+    .eq('site_url', siteUrl)
+    .in('url', urls)
+    .gt('inspected_at', freshAfter);
+
+  if (error) {
+    console.error('[getCachedInspections] Failed to read cached inspections:', error);
+    return new Map();
+  }
+
+  return new Map((data || []).map(row => [
+    row.url,
+    { summary: row.result as UrlInspectionSummary, inspectedAt: row.inspected_at },
+  ]));
+}
+
+/**
+ * Inspects a batch of URLs of a property. Fresh cached results are reused;
+ * the rest are inspected one by one while the daily quota lasts.
+ */
+export async function inspectUrls(
+  userId: string,
+  siteUrl: string,
+  urls: string[],
+  forceRefresh: boolean = false
+): Promise<UrlInspectionResult[]> {
+  const cached = forceRefresh ? new Map() : await getCachedInspections(userId, siteUrl, urls);
+  const results: UrlInspectionResult[] = [];
+  let inspectionClient: Awaited<ReturnType<typeof createUrlInspectionClient>> | null = null;
+  let quotaExhausted = false;
+
+  for (const url of urls) {
+    const cachedResult = cached.get(url);
+    if (cachedResult) {
+      results.push({ url, ...cachedResult, cached: true });
+      continue;
+    }
+
+    if (quotaExhausted || !(await consumeInspectionQuota(siteUrl))) {
+      quotaExhausted = true;
+      results.push({ url, summary: null, inspectedAt: null, cached: false, error: 'Daily URL Inspection quota reached for this property' });
+      continue;
+    }
+
+    try {
+      inspectionClient = inspectionClient ?? await createUrlInspectionClient(userId);
+      const client = inspectionClient;
+      const response = await scheduleGscRequest({ userId, siteUrl }, () => client.inspect({
+        requestBody: { inspectionUrl: url, siteUrl }
+      }));
+
+      const summary = summarizeInspection(response.data.inspectionResult || {});
+      const inspectedAt = new Date().toISOString();
+
+      const { error } = await supabaseAdmin
+        .from('url_inspections')
+        .upsert({
+          user_id: userId,
+          site_url: siteUrl,
+          url,
+          result: summary,
+          inspected_at: inspectedAt
+        }, {
+          onConflict: 'user_id,site_url,url'
+        });
+
+      if (error) {
+        // Not critical, the result is still returned
+        console.error(`[inspectUrls] Failed to cache inspection of ${url}:`, error);
+      }
+
+      results.push({ url, summary, inspectedAt, cached: false });
+    } catch (error: unknown) {
+      console.error(`[inspectUrls] Failed to inspect ${url}:`, error);
+      results.push({
+        url,
+        summary: null,
+        inspectedAt: null,
+        cached: false,
+        error: error instanceof Error ? error.message : 'Inspection failed'
+      });
+    }
+  }
+
+  return results;
+}
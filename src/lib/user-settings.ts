@@ -0,0 +1,40 @@
+import { supabaseAdmin } from './supabase';
+import { DEFAULT_DISPLAY_TIMEZONE, isValidTimezone } from './date-ranges';
+
+/**
+ * Gets the timezone a user sees dates and times in. Falls back to Search
+ * Console's timezone when none is set, or the saved one is no longer known.
+ */
+export async function getDisplayTimezone(userId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('user_settings')
+    .select('display_timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[getDisplayTimezone] Failed to load display timezone:', error);
+    throw new Error('Failed to load display timezone');
+  }
+
+  return isValidTimezone(data?.display_timezone) ? data.display_timezone : DEFAULT_DISPLAY_TIMEZONE;
+}
+
+/**
+ * Saves the timezone a user sees dates and times in
+ */
+export async function saveDisplayTimezone(userId: string, timeZone: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_settings')
+    .upsert({
+      user_id: userId,
+      display_timezone: timeZone,
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) {
+    console.error('[saveDisplayTimezone] Failed to save display timezone:', error);
+    throw new Error('Failed to save display timezone');
+  }
+}
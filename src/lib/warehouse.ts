@@ -0,0 +1,422 @@
+import { supabaseAdmin } from './supabase';
+import { DEFAULT_MAX_ROWS, iterateSearchAnalytics, querySearchAnalytics, SearchAnalyticsFetchOptions, SearchAnalyticsRow } from './google';
+import { CachedQuery, getCachedRows, setCachedRows } from './gsc-cache';
+import { DimensionFilter, SearchType } from './types';
+import { normalizeDimensionFilters } from './filters';
+import { addCalendarDays, addCalendarMonths, getEstimatedLatestCompleteDate, getToday } from './date-ranges';
+import { recordFirstSeen } from './query-first-seen';
+
+// Dimension combinations pulled for every synced day ([] = site totals)
+export const WAREHOUSE_DIMENSION_SETS: string[][] = [
+  [],
+  ['query'],
+  ['page'],
+  ['query', 'page'],
+  ['country'],
+  ['device'],
+];
+
+// Search Console keeps 16 months of data
+const HISTORY_MONTHS = 16;
+// A run that hasn't finished within this window is assumed dead
+const RUN_LEASE_MINUTES = 15;
+// Time kept free before a deadline to sync one more day, until a slower day has been seen
+const MIN_DAY_SYNC_MS = 30 * 1000;
+const INSERT_BATCH_SIZE = 1000;
+const READ_PAGE_SIZE = 1000;
+
+export type SyncStatus = 'pending' | 'running' | 'backfilling' | 'synced' | 'error';
+
+export interface SyncState {
+  id: string;
+  user_id: string;
+  site_url: string;
+  search_type: SearchType;
+  status: SyncStatus;
+  backfill_start_date: string;
+  synced_until: string | null;
+  last_run_at: string | null;
+  last_error: string | null;
+}
+
+export interface SyncResult {
+  siteUrl: string;
+  daysSynced: number;
+  syncedUntil: string | null;
+  status: SyncStatus;
+  error?: string;
+}
+
+/**
+ * Latest day (in Pacific Time, like Search Console) whose Search Analytics
+ * data is considered final
+ */
+export function getLatestFinalDate(): string {
+  return getEstimatedLatestCompleteDate();
+}
+
+/**
+ * Registers a property for warehouse syncing. The first sync run backfills
+ * the full 16 months GSC still holds; later runs only catch up new days.
+ */
+export async function registerProperty(
+  userId: string,
+  siteUrl: string,
+  searchType: SearchType = 'web'
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('gsc_sync_state')
+    .upsert({
+      user_id: userId,
+      site_url: siteUrl,
+      search_type: searchType,
+      backfill_start_date: addCalendarMonths(getToday(), -HISTORY_MONTHS),
+    }, {
+      onConflict: 'user_id,site_url,search_type',
+      ignoreDuplicates: true
+    });
+
+  if (error) {
+    console.error(`[registerProperty] Failed to register ${siteUrl}:`, error);
+    throw new Error('Failed to register property for sync');
+  }
+}
+
+/**
+ * Gets the sync state of a property, or null if it isn't registered
+ */
+export async function getSyncState(
+  userId: string,
+  siteUrl: string,
+  searchType: SearchType = 'web'
+): Promise<SyncState | null> {
+  const { data, error } = await supabaseAdmin
+    .from('gsc_sync_state')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('site_url', siteUrl)
+    .eq('search_type', searchType)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[getSyncState] Failed to load sync state for ${siteUrl}:`, error);
+    return null;
+  }
+
+  return data as SyncState | null;
+}
+
+/**
+ * Claims a property for a sync run so overlapping runs (cron and manual)
+ * don't write the same days twice. Returns false if another run holds it.
+ */
+async function claimSyncRun(state: SyncState): Promise<boolean> {
+  const leaseExpiry = new Date(Date.now() - RUN_LEASE_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('gsc_sync_state')
+    .update({ status: 'running', last_run_at: new Date().toISOString() })
+    .eq('id', state.id)
+    .or(`status.neq.running,last_run_at.lt.${leaseExpiry}`)
+    .select('id');
+
+  if (error) {
+    console.error(`[claimSyncRun] Failed to claim ${state.site_url}:`, error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Replaces the warehouse rows of one day for one dimension set
+ */
+async function syncDimensionSet(state: SyncState, date: string, dimensionSet: string[]): Promise<void> {
+  // Deleting first makes re-running a partially synced day safe
+  const { error: deleteError } = await supabaseAdmin
+    .from('gsc_daily_rows')
+    .delete()
+    .eq('user_id', state.user_id)
+    .eq('site_url', state.site_url)
+    .eq('search_type', state.search_type)
+    .eq('dimension_set', dimensionSet.join(','))
+    .eq('date', date);
+
+  if (deleteError) throw new Error(`Failed to clear warehouse rows: ${deleteError.message}`);
+
+  // Store each page as it arrives instead of holding the whole day in memory
+  for await (const rows of iterateSearchAnalytics(
+    state.user_id,
+    state.site_url,
+    date,
+    date,
+    ['date', ...dimensionSet],
+    [],
+    state.search_type,
+    { maxRows: Number.MAX_SAFE_INTEGER }
+  )) {
+    const records = rows.map(row => {
+      const record: Record<string, string | number> = {
+        user_id: state.user_id,
+        site_url: state.site_url,
+        search_type: state.search_type,
+        dimension_set: dimensionSet.join(','),
+        date,
+        clicks: row.clicks ?? 0,
+        impressions: row.impressions ?? 0,
+        ctr: row.ctr ?? 0,
+        position: row.position ?? 0,
+      };
+      // keys[0] is the date
+      dimensionSet.forEach((dimension, index) => {
+        record[dimension] = row.keys?.[index + 1] ?? '';
+      });
+      return record;
+    });
+
+    for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+      const { error: insertError } = await supabaseAdmin
+        .from('gsc_daily_rows')
+        .insert(records.slice(i, i + INSERT_BATCH_SIZE));
+
+      if (insertError) throw new Error(`Failed to store warehouse rows: ${insertError.message}`);
+    }
+
+    // Days are synced oldest first, so this keeps each query's earliest day
+    if (dimensionSet.length === 1 && dimensionSet[0] === 'query') {
+      await recordFirstSeen(state.user_id, state.site_url, state.search_type, date, rows.map(row => row.keys?.[1] ?? ''));
+    }
+  }
+}
+
+/**
+ * Syncs up to `maxDays` days of a property, oldest first. Progress is saved
+ * after every day, so an interrupted backfill resumes where it stopped.
+ * No new day is started when it might not finish before `deadline` (a
+ * timestamp in ms); the rest is left for the next run.
+ */
+export async function syncProperty(
+  state: SyncState,
+  maxDays: number = 30,
+  deadline: number = Infinity
+): Promise<SyncResult> {
+  const latestFinalDate = getLatestFinalDate();
+  let syncedUntil = state.synced_until;
+  let daysSynced = 0;
+  // The slowest day so far, as the estimate for the next one
+  let dayEstimateMs = MIN_DAY_SYNC_MS;
+
+  if (!(await claimSyncRun(state))) {
+    console.log(`[syncProperty] ${state.site_url} is already being synced, skipping.`);
+    return { siteUrl: state.site_url, daysSynced, syncedUntil, status: 'running' };
+  }
+
+  try {
+    let date = syncedUntil
+      ? addCalendarDays(syncedUntil, 1)
+      : state.backfill_start_date;
+
+    while (date <= latestFinalDate && daysSynced < maxDays && Date.now() + dayEstimateMs < deadline) {
+      const dayStartedAt = Date.now();
+      for (const dimensionSet of WAREHOUSE_DIMENSION_SETS) {
+        await syncDimensionSet(state, date, dimensionSet);
+      }
+
+      const { error } = await supabaseAdmin
+        .from('gsc_sync_state')
+        .update({ synced_until: date, last_run_at: new Date().toISOString() })
+        .eq('id', state.id);
+
+      if (error) throw new Error(`Failed to save sync progress: ${error.message}`);
+
+      syncedUntil = date;
+      daysSynced++;
+      dayEstimateMs = Math.max(dayEstimateMs, Date.now() - dayStartedAt);
+      date = addCalendarDays(date, 1);
+    }
+
+    const status: SyncStatus = syncedUntil && syncedUntil >= latestFinalDate ? 'synced' : 'backfilling';
+    await supabaseAdmin
+      .from('gsc_sync_state')
+      .update({ status, last_error: null })
+      .eq('id', state.id);
+
+    console.log(`[syncProperty] Synced ${daysSynced} days for ${state.site_url}, now up to ${syncedUntil}.`);
+    return { siteUrl: state.site_url, daysSynced, syncedUntil, status };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown sync error';
+    console.error(`[syncProperty] Sync failed for ${state.site_url}:`, error);
+
+    await supabaseAdmin
+      .from('gsc_sync_state')
+      .update({ status: 'error', last_error: message })
+      .eq('id', state.id);
+
+    return { siteUrl: state.site_url, daysSynced, syncedUntil, status: 'error', error: message };
+  }
+}
+
+/**
+ * Runs a sync for the properties that are furthest behind. Used by the
+ * daily cron job; new properties are picked up first so their backfill starts.
+ * The run stops taking on work `timeBudgetMs` after it starts, so it ends
+ * before the job is killed and backfills continue on the next run.
+ */
+export async function syncDueProperties({
+  maxProperties = 10,
+  maxDaysPerProperty = 30,
+  timeBudgetMs = Infinity,
+}: { maxProperties?: number; maxDaysPerProperty?: number; timeBudgetMs?: number } = {}): Promise<SyncResult[]> {
+  const deadline = Date.now() + timeBudgetMs;
+
+  const { data, error } = await supabaseAdmin
+    .from('gsc_sync_state')
+    .select('*')
+    .or(`synced_until.is.null,synced_until.lt.${getLatestFinalDate()}`)
+    .order('last_run_at', { ascending: true, nullsFirst: true })
+    .limit(maxProperties);
+
+  if (error) {
+    console.error('[syncDueProperties] Failed to load due properties:', error);
+    throw new Error('Failed to load properties to sync');
+  }
+
+  const results: SyncResult[] = [];
+  // One property at a time to stay well inside the GSC quota
+  for (const state of (data || []) as SyncState[]) {
+    // Not worth claiming a property without time to sync a day
+    if (Date.now() + MIN_DAY_SYNC_MS >= deadline) {
+      console.log('[syncDueProperties] Time budget used up, leaving the remaining properties for the next run.');
+      break;
+    }
+    results.push(await syncProperty(state, maxDaysPerProperty, deadline));
+  }
+  return results;
+}
+
+/**
+ * Picks the stored dimension set that can answer a request exactly: it must
+ * hold exactly the grouped dimensions, and filters may only use those.
+ * Rows are never summed across a dimension the report doesn't group by:
+ * Search Console counts a query's impression once, not once per page, so
+ * `query,page` rows added up per query would overcount.
+ * Returns null if the warehouse doesn't hold a matching set.
+ */
+export function getWarehouseDimensionSet(dimensions: string[], filters: DimensionFilter[] = []): string[] | null {
+  const grouped = new Set(dimensions.filter(d => d !== 'date'));
+  if (!filters.every(f => grouped.has(f.dimension))) return null;
+
+  return WAREHOUSE_DIMENSION_SETS.find(set =>
+    set.length === grouped.size && set.every(dimension => grouped.has(dimension))
+  ) ?? null;
+}
+
+/**
+ * Reads up to `maxRows` report rows from the warehouse in the same shape and
+ * order (most clicks first) the Search Analytics API returns them. Returns
+ * null when the range isn't fully synced or the dimensions can't be
+ * answered from stored data.
+ */
+export async function queryWarehouse(
+  userId: string,
+  siteUrl: string,
+  startDate: string,
+  endDate: string,
+  dimensions: string[],
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  maxRows: number = DEFAULT_MAX_ROWS
+): Promise<SearchAnalyticsRow[] | null> {
+  const dimensionSet = getWarehouseDimensionSet(dimensions, filters);
+  if (!dimensionSet) return null;
+
+  const state = await getSyncState(userId, siteUrl, searchType);
+  if (!state?.synced_until || startDate < state.backfill_start_date || endDate > state.synced_until) {
+    return null;
+  }
+
+  const rows: SearchAnalyticsRow[] = [];
+  // PostgREST caps responses, so read the aggregate in pages, each one
+  // continuing after the last row of the one before
+  let after: { clicks: number; keys: string[] } | null = null;
+  while (rows.length < maxRows) {
+    const limit = Math.min(READ_PAGE_SIZE, maxRows - rows.length);
+    const { data, error } = await supabaseAdmin
+      .rpc('query_gsc_warehouse', {
+        p_user_id: userId,
+        p_site_url: siteUrl,
+        p_search_type: searchType,
+        p_dimension_set: dimensionSet.join(','),
+        p_start_date: startDate,
+        p_end_date: endDate,
+        p_group_by: dimensions,
+        // Same normalization as the API, so a filter matches the same rows
+        p_filters: normalizeDimensionFilters(filters),
+        p_limit: limit,
+        p_after_clicks: after?.clicks ?? null,
+        p_after_keys: after?.keys ?? null,
+      });
+
+    if (error) throw new Error(`Failed to query warehouse: ${error.message}`);
+
+    const page: SearchAnalyticsRow[] = ((data || []) as Required<SearchAnalyticsRow>[]).map(row => ({
+      keys: row.keys,
+      clicks: Number(row.clicks),
+      impressions: Number(row.impressions),
+      ctr: row.ctr,
+      position: row.position,
+    }));
+    rows.push(...page);
+
+    if (page.length < limit) break;
+    const last = page[page.length - 1];
+    after = { clicks: last.clicks ?? 0, keys: last.keys ?? [] };
+  }
+
+  return rows;
+}
+
+/**
+ * Gets report rows from the warehouse when the range is already synced,
+ * otherwise from the GSC response cache or straight from the Search
+ * Analytics API. `forceRefresh` skips the cache but still refreshes it.
+ */
+export async function fetchReportRows(
+  userId: string,
+  siteUrl: string,
+  startDate: string,
+  endDate: string,
+  dimensions: string[],
+  filters: DimensionFilter[] = [],
+  searchType: SearchType = 'web',
+  options: SearchAnalyticsFetchOptions & { forceRefresh?: boolean } = {}
+): Promise<{ rows: SearchAnalyticsRow[]; source: 'warehouse' | 'cache' | 'api' }> {
+  const { forceRefresh = false, ...fetchOptions } = options;
+  const maxRows = fetchOptions.maxRows ?? DEFAULT_MAX_ROWS;
+
+  try {
+    const rows = await queryWarehouse(userId, siteUrl, startDate, endDate, dimensions, filters, searchType, maxRows);
+    if (rows) {
+      fetchOptions.onProgress?.(rows.length);
+      console.log(`[fetchReportRows] Serving ${startDate} to ${endDate} for ${siteUrl} from the warehouse`);
+      return { rows, source: 'warehouse' };
+    }
+  } catch (error) {
+    // The API is still a valid source if the warehouse can't answer
+    console.error('[fetchReportRows] Warehouse read failed, falling back to the API:', error);
+  }
+
+  const cacheQuery: CachedQuery = { siteUrl, startDate, endDate, dimensions, filters, searchType, maxRows };
+
+  if (!forceRefresh) {
+    const cachedRows = await getCachedRows<SearchAnalyticsRow>(userId, cacheQuery);
+    if (cachedRows) {
+      fetchOptions.onProgress?.(cachedRows.length);
+      return { rows: cachedRows, source: 'cache' };
+    }
+  }
+
+  const rows = await querySearchAnalytics(userId, siteUrl, startDate, endDate, dimensions, filters, searchType, fetchOptions);
+  await setCachedRows(userId, cacheQuery, rows);
+  return { rows, source: 'api' };
+}
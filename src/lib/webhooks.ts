@@ -0,0 +1,135 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+import { Agent, fetch } from 'undici';
+
+// Addresses a webhook must never reach: loopback, private networks,
+// link-local (cloud metadata services live at 169.254.169.254) and other
+// special-purpose ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is public, i.e. not loopback, private or link-local
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // IPv4-mapped addresses (::ffff:7f00:1) could hide any IPv4 address
+  if (family === 6 && /^(0{0,4}:){0,5}:?ffff:/i.test(address)) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves a webhook URL to the public addresses it may be posted to, or an
+ * error message when it isn't http(s) or reaches a non-public address
+ */
+async function resolveWebhookUrl(value: string): Promise<{ error: string } | { url: URL; addresses: string[] }> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { error: 'Webhook URL must be an http or https URL' };
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return { error: 'Webhook URL must be an http or https URL' };
+  }
+
+  // IPv6 hosts come wrapped in brackets
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return { error: `Webhook host ${host} could not be resolved` };
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return { error: 'Webhook URL must point to a public address' };
+  }
+  return { url, addresses };
+}
+
+/**
+ * Checks a webhook URL is http(s) and that its host only resolves to public
+ * addresses, so the server can't be pointed at its own network. Returns an
+ * error message, or null when the URL may be posted to.
+ */
+export async function validateWebhookUrl(value: string): Promise<string | null> {
+  const resolved = await resolveWebhookUrl(value);
+  return 'error' in resolved ? resolved.error : null;
+}
+
+/**
+ * POSTs a JSON payload to a webhook. The connection is pinned to the
+ * address that passed validateWebhookUrl's checks, so the host can't be
+ * re-resolved to an internal address in between (DNS rebinding), and
+ * redirects are refused rather than followed.
+ */
+export async function postWebhook(value: string, payload: unknown, timeoutMs: number): Promise<void> {
+  const resolved = await resolveWebhookUrl(value);
+  if ('error' in resolved) {
+    throw new Error(resolved.error);
+  }
+
+  const [address] = resolved.addresses;
+  const family = net.isIP(address);
+  const dispatcher = new Agent({
+    connect: {
+      // TLS still verifies the certificate against the URL's host name
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [{ address, family }]);
+        } else {
+          callback(null, address, family);
+        }
+      },
+    },
+  });
+
+  try {
+    const response = await fetch(resolved.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+      redirect: 'manual',
+      dispatcher,
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      throw new Error(`Webhook redirected (${response.status}); redirects are not followed`);
+    }
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  } finally {
+    await dispatcher.destroy();
+  }
+}
@@ -0,0 +1,133 @@
+-- Sync state for each property whose Search Analytics history is kept in the warehouse
+CREATE TABLE IF NOT EXISTS gsc_sync_state (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  search_type TEXT NOT NULL DEFAULT 'web',
+  status TEXT NOT NULL DEFAULT 'pending',   -- pending | running | backfilling | synced | error
+  backfill_start_date DATE NOT NULL,        -- earliest day to pull on the first backfill
+  synced_until DATE,                        -- last day fully synced (days are synced in order)
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, site_url, search_type)
+);
+
+-- Daily Search Analytics rows, one row per day and dimension combination.
+-- `dimension_set` records which dimensions the row was fetched with ('' for site totals,
+-- 'query', 'page', 'query,page', ...); unused dimension columns hold ''.
+CREATE TABLE IF NOT EXISTS gsc_daily_rows (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  search_type TEXT NOT NULL DEFAULT 'web',
+  dimension_set TEXT NOT NULL,
+  date DATE NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  page TEXT NOT NULL DEFAULT '',
+  country TEXT NOT NULL DEFAULT '',
+  device TEXT NOT NULL DEFAULT '',
+  clicks INTEGER NOT NULL DEFAULT 0,
+  impressions INTEGER NOT NULL DEFAULT 0,
+  ctr DOUBLE PRECISION NOT NULL DEFAULT 0,
+  position DOUBLE PRECISION NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS gsc_daily_rows_lookup_idx
+  ON gsc_daily_rows(user_id, site_url, search_type, dimension_set, date);
+
+CREATE TRIGGER update_gsc_sync_state_updated_at
+BEFORE UPDATE ON gsc_sync_state
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE gsc_sync_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gsc_daily_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all sync state" ON gsc_sync_state
+    USING (auth.jwt() ? 'service_role');
+
+CREATE POLICY "Service role can manage all warehouse rows" ON gsc_daily_rows
+    USING (auth.jwt() ? 'service_role');
+
+-- Aggregates warehouse rows the way the Search Analytics API would:
+-- clicks and impressions are summed, CTR is recomputed and position is
+-- weighted by impressions. `p_group_by` is a subset of
+-- date/query/page/country/device and `p_filters` is a JSON array of
+-- { dimension, operator, expression } objects.
+CREATE OR REPLACE FUNCTION query_gsc_warehouse(
+  p_user_id UUID,
+  p_site_url TEXT,
+  p_search_type TEXT,
+  p_dimension_set TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_group_by TEXT[],
+  p_filters JSONB DEFAULT '[]'::JSONB
+)
+RETURNS TABLE(keys TEXT[], clicks BIGINT, impressions BIGINT, ctr DOUBLE PRECISION, "position" DOUBLE PRECISION)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  allowed_columns CONSTANT TEXT[] := ARRAY['date', 'query', 'page', 'country', 'device'];
+  key_sql TEXT := 'ARRAY[]::TEXT[]';
+  group_sql TEXT := '';
+  where_sql TEXT := '';
+  column_name TEXT;
+  filter JSONB;
+BEGIN
+  IF p_group_by IS NOT NULL AND array_length(p_group_by, 1) > 0 THEN
+    FOREACH column_name IN ARRAY p_group_by LOOP
+      IF NOT column_name = ANY(allowed_columns) THEN
+        RAISE EXCEPTION 'Unsupported dimension: %', column_name;
+      END IF;
+    END LOOP;
+
+    SELECT 'ARRAY[' || string_agg(format('%I::TEXT', c), ', ') || ']',
+           'GROUP BY ' || string_agg(format('%I', c), ', ')
+      INTO key_sql, group_sql
+      FROM unnest(p_group_by) AS c;
+  END IF;
+
+  FOR filter IN SELECT * FROM jsonb_array_elements(COALESCE(p_filters, '[]'::JSONB)) LOOP
+    column_name := filter->>'dimension';
+    IF NOT column_name = ANY(allowed_columns) THEN
+      RAISE EXCEPTION 'Unsupported filter dimension: %', column_name;
+    END IF;
+
+    where_sql := where_sql || CASE filter->>'operator'
+      WHEN 'equals' THEN format(' AND %I = %L', column_name, filter->>'expression')
+      WHEN 'contains' THEN format(' AND strpos(lower(%I), lower(%L)) > 0', column_name, filter->>'expression')
+      WHEN 'notContains' THEN format(' AND strpos(lower(%I), lower(%L)) = 0', column_name, filter->>'expression')
+      WHEN 'includingRegex' THEN format(' AND %I ~ %L', column_name, filter->>'expression')
+      WHEN 'excludingRegex' THEN format(' AND %I !~ %L', column_name, filter->>'expression')
+      ELSE NULL
+    END;
+
+    IF where_sql IS NULL THEN
+      RAISE EXCEPTION 'Unsupported filter operator: %', filter->>'operator';
+    END IF;
+  END LOOP;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT %s AS keys,
+            SUM(r.clicks)::BIGINT AS clicks,
+            SUM(r.impressions)::BIGINT AS impressions,
+            CASE WHEN SUM(r.impressions) > 0 THEN SUM(r.clicks)::DOUBLE PRECISION / SUM(r.impressions) ELSE 0 END AS ctr,
+            CASE WHEN SUM(r.impressions) > 0 THEN SUM(r.position * r.impressions) / SUM(r.impressions) ELSE 0 END AS "position"
+       FROM gsc_daily_rows r
+      WHERE r.user_id = $1
+        AND r.site_url = $2
+        AND r.search_type = $3
+        AND r.dimension_set = $4
+        AND r.date BETWEEN $5 AND $6 %s
+      %s
+      ORDER BY 2 DESC, 1',
+    key_sql, where_sql, group_sql
+  )
+  USING p_user_id, p_site_url, p_search_type, p_dimension_set, p_start_date, p_end_date;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Cached GSC responses expire; saved reports (report_* keys) keep a NULL expiry
+ALTER TABLE reports_data ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS reports_data_expires_at_idx
+  ON reports_data(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- Cache entries written before keys covered the full request can't be trusted
+DELETE FROM reports_data WHERE cache_key NOT LIKE 'report\_%';
@@ -0,0 +1,50 @@
+-- Cached URL Inspection API results
+CREATE TABLE IF NOT EXISTS url_inspections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  url TEXT NOT NULL,
+  result JSONB NOT NULL,
+  inspected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, site_url, url)
+);
+
+-- Inspections used per property per day. GSC allows 2,000 a day for each
+-- property (shared by every user of it) and resets at midnight Pacific Time.
+CREATE TABLE IF NOT EXISTS url_inspection_quota (
+  site_url TEXT NOT NULL,
+  quota_date DATE NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (site_url, quota_date)
+);
+
+ALTER TABLE url_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_inspection_quota ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all url inspections" ON url_inspections
+    USING (auth.jwt() ? 'service_role');
+
+CREATE POLICY "Service role can manage all url inspection quota" ON url_inspection_quota
+    USING (auth.jwt() ? 'service_role');
+
+-- Atomically uses one inspection from a property's daily quota.
+-- Returns the new usage count, or NULL when the quota is already used up.
+CREATE OR REPLACE FUNCTION consume_url_inspection_quota(p_site_url TEXT, p_quota_date DATE, p_limit INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_used INTEGER;
+BEGIN
+  INSERT INTO url_inspection_quota (site_url, quota_date, used)
+  VALUES (p_site_url, p_quota_date, 1)
+  ON CONFLICT (site_url, quota_date)
+  DO UPDATE SET used = url_inspection_quota.used + 1
+  WHERE url_inspection_quota.used < p_limit
+  RETURNING used INTO new_used;
+
+  RETURN new_used;
+END;
+$$;
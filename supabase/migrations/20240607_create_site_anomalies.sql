@@ -0,0 +1,29 @@
+-- Drops and spikes in a property's daily totals, found by the anomaly-detection job
+CREATE TABLE IF NOT EXISTS site_anomalies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  date DATE NOT NULL,
+  metric TEXT NOT NULL,                     -- clicks | impressions | ctr | position
+  direction TEXT NOT NULL,                  -- drop | spike (of the metric's value)
+  value DOUBLE PRECISION NOT NULL,
+  expected DOUBLE PRECISION NOT NULL,       -- baseline from the same weekday in earlier weeks
+  z_score DOUBLE PRECISION NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,    -- sent to the user's webhook or email
+
+  UNIQUE(user_id, site_url, date, metric)
+);
+
+CREATE INDEX IF NOT EXISTS site_anomalies_user_idx ON site_anomalies(user_id, detected_at DESC);
+
+ALTER TABLE site_anomalies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all site anomalies" ON site_anomalies
+    USING (auth.jwt() ? 'service_role');
+
+-- Where anomaly alerts are delivered, besides the dashboard
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS alert_webhook_url TEXT,
+  ADD COLUMN IF NOT EXISTS alert_email TEXT;
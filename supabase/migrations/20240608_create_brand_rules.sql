@@ -0,0 +1,17 @@
+-- Brand terms of each property, used to split query reports into branded and non-branded.
+-- `rules` is an array of { type: 'term' | 'regex', value }; misspellings are listed as extra rules.
+CREATE TABLE IF NOT EXISTS brand_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, site_url)
+);
+
+ALTER TABLE brand_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all brand rules" ON brand_rules
+    USING (auth.jwt() ? 'service_role');
@@ -0,0 +1,21 @@
+-- First day each query got impressions for a property, recorded by the warehouse sync.
+-- Days are synced oldest first, so the first date stored for a query is its earliest one.
+CREATE TABLE IF NOT EXISTS query_first_seen (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  search_type TEXT NOT NULL DEFAULT 'web',
+  query TEXT NOT NULL,
+  first_seen DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(user_id, site_url, search_type, query)
+);
+
+CREATE INDEX IF NOT EXISTS query_first_seen_date_idx
+  ON query_first_seen(user_id, site_url, search_type, first_seen);
+
+ALTER TABLE query_first_seen ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all query first-seen dates" ON query_first_seen
+    USING (auth.jwt() ? 'service_role');
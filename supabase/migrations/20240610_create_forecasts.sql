@@ -0,0 +1,23 @@
+-- Saved click and impression forecasts, kept so they can be compared with actual data later.
+-- filters is empty for a whole-property forecast, or the segment / query filters it was fitted on.
+CREATE TABLE IF NOT EXISTS forecasts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  name TEXT,
+  search_type TEXT NOT NULL DEFAULT 'web',
+  filters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  horizon_days INTEGER NOT NULL,
+  history_start DATE NOT NULL,
+  history_end DATE NOT NULL,
+  metrics JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS forecasts_site_idx
+  ON forecasts(user_id, site_url, created_at DESC);
+
+ALTER TABLE forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all forecasts" ON forecasts
+    USING (auth.jwt() ? 'service_role');
@@ -0,0 +1,19 @@
+-- User-defined report metrics, computed from each row's built-in metrics by a formula.
+-- Formulas are checked when saved and evaluated by the report API, never run as code.
+CREATE TABLE IF NOT EXISTS calculated_metrics (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  formula TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'decimal',
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS calculated_metrics_user_idx ON calculated_metrics(user_id);
+
+ALTER TABLE calculated_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all calculated metrics" ON calculated_metrics
+    USING (auth.jwt() ? 'service_role');
@@ -0,0 +1,25 @@
+-- Named report builder setups. config holds the metrics, dimensions, filters, search type and
+-- comparison; preset time ranges are stored by type so they resolve to fresh dates on every run.
+-- site_url is null for templates that apply to every site.
+CREATE TABLE IF NOT EXISTS report_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  site_url TEXT,
+  config JSONB NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS report_templates_user_idx ON report_templates(user_id);
+
+-- At most one default per site, and one for all sites
+CREATE UNIQUE INDEX IF NOT EXISTS report_templates_default_idx
+  ON report_templates(user_id, COALESCE(site_url, ''))
+  WHERE is_default;
+
+ALTER TABLE report_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all report templates" ON report_templates
+    USING (auth.jwt() ? 'service_role');
@@ -0,0 +1,5 @@
+-- Timezone times such as when a report was generated are shown in; relative date ranges are
+-- always worked out from today in Pacific Time.
+-- Search Console dates themselves are always Pacific Time days; null means Pacific Time too.
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS display_timezone TEXT;
@@ -0,0 +1,88 @@
+-- Reads warehouse aggregates one page at a time instead of with OFFSET:
+-- rows come in a fixed order (clicks descending, then keys), `p_limit` caps
+-- the page and `p_after_clicks`/`p_after_keys` resume after the last row of
+-- the previous page, so pages stay stable while the sync rewrites days.
+DROP FUNCTION IF EXISTS query_gsc_warehouse(UUID, TEXT, TEXT, TEXT, DATE, DATE, TEXT[], JSONB);
+
+CREATE OR REPLACE FUNCTION query_gsc_warehouse(
+  p_user_id UUID,
+  p_site_url TEXT,
+  p_search_type TEXT,
+  p_dimension_set TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_group_by TEXT[],
+  p_filters JSONB DEFAULT '[]'::JSONB,
+  p_limit INTEGER DEFAULT 1000,
+  p_after_clicks BIGINT DEFAULT NULL,
+  p_after_keys TEXT[] DEFAULT NULL
+)
+RETURNS TABLE(keys TEXT[], clicks BIGINT, impressions BIGINT, ctr DOUBLE PRECISION, "position" DOUBLE PRECISION)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  allowed_columns CONSTANT TEXT[] := ARRAY['date', 'query', 'page', 'country', 'device'];
+  key_sql TEXT := 'ARRAY[]::TEXT[]';
+  group_sql TEXT := '';
+  where_sql TEXT := '';
+  column_name TEXT;
+  filter JSONB;
+BEGIN
+  IF p_group_by IS NOT NULL AND array_length(p_group_by, 1) > 0 THEN
+    FOREACH column_name IN ARRAY p_group_by LOOP
+      IF NOT column_name = ANY(allowed_columns) THEN
+        RAISE EXCEPTION 'Unsupported dimension: %', column_name;
+      END IF;
+    END LOOP;
+
+    SELECT 'ARRAY[' || string_agg(format('%I::TEXT', c), ', ') || ']',
+           'GROUP BY ' || string_agg(format('%I', c), ', ')
+      INTO key_sql, group_sql
+      FROM unnest(p_group_by) AS c;
+  END IF;
+
+  FOR filter IN SELECT * FROM jsonb_array_elements(COALESCE(p_filters, '[]'::JSONB)) LOOP
+    column_name := filter->>'dimension';
+    IF NOT column_name = ANY(allowed_columns) THEN
+      RAISE EXCEPTION 'Unsupported filter dimension: %', column_name;
+    END IF;
+
+    where_sql := where_sql || CASE filter->>'operator'
+      WHEN 'equals' THEN format(' AND %I = %L', column_name, filter->>'expression')
+      WHEN 'contains' THEN format(' AND strpos(lower(%I), lower(%L)) > 0', column_name, filter->>'expression')
+      WHEN 'notContains' THEN format(' AND strpos(lower(%I), lower(%L)) = 0', column_name, filter->>'expression')
+      WHEN 'includingRegex' THEN format(' AND %I ~ %L', column_name, filter->>'expression')
+      WHEN 'excludingRegex' THEN format(' AND %I !~ %L', column_name, filter->>'expression')
+      ELSE NULL
+    END;
+
+    IF where_sql IS NULL THEN
+      RAISE EXCEPTION 'Unsupported filter operator: %', filter->>'operator';
+    END IF;
+  END LOOP;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT a.keys, a.clicks, a.impressions, a.ctr, a."position"
+       FROM (
+         SELECT %s AS keys,
+                SUM(r.clicks)::BIGINT AS clicks,
+                SUM(r.impressions)::BIGINT AS impressions,
+                CASE WHEN SUM(r.impressions) > 0 THEN SUM(r.clicks)::DOUBLE PRECISION / SUM(r.impressions) ELSE 0 END AS ctr,
+                CASE WHEN SUM(r.impressions) > 0 THEN SUM(r.position * r.impressions) / SUM(r.impressions) ELSE 0 END AS "position"
+           FROM gsc_daily_rows r
+          WHERE r.user_id = $1
+            AND r.site_url = $2
+            AND r.search_type = $3
+            AND r.dimension_set = $4
+            AND r.date BETWEEN $5 AND $6 %s
+          %s
+       ) a
+      WHERE $8 IS NULL OR a.clicks < $8 OR (a.clicks = $8 AND a.keys > $9)
+      ORDER BY a.clicks DESC, a.keys
+      LIMIT $7',
+    key_sql, where_sql, group_sql
+  )
+  USING p_user_id, p_site_url, p_search_type, p_dimension_set, p_start_date, p_end_date, p_limit, p_after_clicks, p_after_keys;
+END;
+$$;
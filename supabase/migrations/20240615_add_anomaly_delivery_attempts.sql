@@ -0,0 +1,8 @@
+-- Failed alert deliveries, so the anomaly-detection job can retry them on its next runs
+ALTER TABLE site_anomalies
+  ADD COLUMN IF NOT EXISTS delivery_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_delivery_error TEXT;
+
+CREATE INDEX IF NOT EXISTS site_anomalies_undelivered_idx
+  ON site_anomalies(detected_at)
+  WHERE delivered_at IS NULL AND delivery_attempts > 0;
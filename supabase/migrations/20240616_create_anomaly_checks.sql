@@ -0,0 +1,15 @@
+-- When each monitored property was last checked by the anomaly-detection job.
+-- Each run checks the properties that waited longest, so every property gets its turn.
+CREATE TABLE IF NOT EXISTS anomaly_checks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  site_url TEXT NOT NULL,
+  last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  UNIQUE(user_id, site_url)
+);
+
+ALTER TABLE anomaly_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage all anomaly checks" ON anomaly_checks
+    USING (auth.jwt() ? 'service_role');